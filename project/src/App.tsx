@@ -13,6 +13,7 @@ import Transactions from "./pages/Transactions";
 import TransactionDetail from "./pages/TransactionDetail";
 import Reports from "./pages/Reports";
 import Settings from "./pages/Settings";
+import RiskRules from "./pages/RiskRules";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -76,6 +77,14 @@ const App = () => (
                 </AppLayout>
               }
             />
+            <Route
+              path="/settings/rules"
+              element={
+                <AppLayout>
+                  <RiskRules />
+                </AppLayout>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BarChart3 } from "lucide-react";
+import {
+  Bar,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+type GroupBy = "session" | "vendor" | "department";
+
+type Conformity =
+  | "close_conformity"
+  | "acceptable_conformity"
+  | "marginal_conformity"
+  | "nonconformity"
+  | "insufficient_data";
+
+interface BenfordDigit {
+  digit: number;
+  observed_count: number;
+  observed_pct: number;
+  expected_pct: number;
+  z_score: number;
+  significant: boolean;
+}
+
+interface BenfordResult {
+  sample_size: number;
+  digits: BenfordDigit[];
+  chi_square: number;
+  chi_square_critical: number;
+  mad: number;
+  conformity: Conformity;
+}
+
+interface BenfordGroupResult extends BenfordResult {
+  group: string;
+}
+
+const CONFORMITY_COLORS: Record<Conformity, string> = {
+  close_conformity: "bg-green-100 text-green-800",
+  acceptable_conformity: "bg-green-100 text-green-800",
+  marginal_conformity: "bg-yellow-100 text-yellow-800",
+  nonconformity: "bg-red-100 text-red-800",
+  insufficient_data: "bg-gray-100 text-gray-800",
+};
+
+const ConformityBadge = ({ conformity }: { conformity: Conformity }) => (
+  <Badge className={`${CONFORMITY_COLORS[conformity]} capitalize`}>
+    {conformity.replace(/_/g, " ")}
+  </Badge>
+);
+
+export function BenfordAnalysisCard({ sessionId }: { sessionId: string }) {
+  const [groupBy, setGroupBy] = useState<GroupBy>("session");
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["benford", sessionId, groupBy],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke("benford-analysis", {
+        body: { sessionId, groupBy: groupBy === "session" ? undefined : groupBy },
+      });
+
+      if (error) throw error;
+      return data as { result: BenfordResult; groups?: BenfordGroupResult[] };
+    },
+    enabled: !!sessionId,
+  });
+
+  const shown =
+    (selectedGroup && data?.groups?.find((g) => g.group === selectedGroup)) || data?.result;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Benford's Law Analysis
+            </CardTitle>
+            <CardDescription>
+              First-digit distribution of transaction amounts compared with Benford's Law
+              {selectedGroup ? ` - ${selectedGroup}` : ""}
+            </CardDescription>
+          </div>
+          <Select
+            value={groupBy}
+            onValueChange={(value) => {
+              setGroupBy(value as GroupBy);
+              setSelectedGroup(null);
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="session">Whole session</SelectItem>
+              <SelectItem value="vendor">Per vendor</SelectItem>
+              <SelectItem value="department">Per department</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : isError || !shown ? (
+          <p className="text-center text-muted-foreground py-8">Benford analysis unavailable</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+              <div className="bg-muted/50 rounded-lg p-3 text-center">
+                <p className="text-lg font-bold">{shown.sample_size}</p>
+                <p className="text-xs text-muted-foreground">Amounts tested</p>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3 text-center">
+                <p className="text-lg font-bold">{shown.chi_square}</p>
+                <p className="text-xs text-muted-foreground">
+                  Chi-square (critical {shown.chi_square_critical})
+                </p>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3 text-center">
+                <p className="text-lg font-bold">{shown.mad.toFixed(4)}</p>
+                <p className="text-xs text-muted-foreground">Mean absolute deviation</p>
+              </div>
+              <div className="bg-muted/50 rounded-lg p-3 flex items-center justify-center">
+                <ConformityBadge conformity={shown.conformity} />
+              </div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={shown.digits}>
+                  <XAxis dataKey="digit" />
+                  <YAxis unit="%" />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="observed_pct" name="Observed %">
+                    {shown.digits.map((d) => (
+                      <Cell
+                        key={d.digit}
+                        fill={d.significant ? "hsl(var(--danger))" : "hsl(var(--primary))"}
+                      />
+                    ))}
+                  </Bar>
+                  <Line
+                    type="monotone"
+                    dataKey="expected_pct"
+                    name="Benford expected %"
+                    stroke="hsl(var(--warning))"
+                    strokeWidth={2}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            {shown.digits.some((d) => d.significant) && (
+              <p className="text-sm text-muted-foreground">
+                Highlighted digits deviate significantly from the expected frequency (z &gt; 1.96):{" "}
+                {shown.digits.filter((d) => d.significant).map((d) => d.digit).join(", ")}
+              </p>
+            )}
+
+            {data?.groups && data.groups.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{groupBy === "vendor" ? "Vendor" : "Department"}</TableHead>
+                    <TableHead>Amounts</TableHead>
+                    <TableHead>MAD</TableHead>
+                    <TableHead>Conformity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.groups.slice(0, 10).map((group) => (
+                    <TableRow
+                      key={group.group}
+                      className={`cursor-pointer hover:bg-muted/50 ${
+                        selectedGroup === group.group ? "bg-muted/50" : ""
+                      }`}
+                      onClick={() =>
+                        setSelectedGroup(selectedGroup === group.group ? null : group.group)
+                      }
+                    >
+                      <TableCell className="font-medium">{group.group}</TableCell>
+                      <TableCell>{group.sample_size}</TableCell>
+                      <TableCell>{group.mad.toFixed(4)}</TableCell>
+                      <TableCell>
+                        <ConformityBadge conformity={group.conformity} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bot } from "lucide-react";
+import { toast } from "sonner";
+
+type AiProviderKind = "gateway" | "openai_compatible" | "local" | "template";
+
+interface AiProviderForm {
+  provider: AiProviderKind;
+  base_url: string;
+  model: string;
+  api_key_secret: string;
+  masked_fields: string[];
+}
+
+const PROVIDERS: { value: AiProviderKind; label: string; hint: string }[] = [
+  {
+    value: "gateway",
+    label: "Hosted AI gateway (default)",
+    hint: "Flagged transactions and session statistics are sent to the hosted AI gateway.",
+  },
+  {
+    value: "openai_compatible",
+    label: "OpenAI-compatible API",
+    hint: "Any hosted endpoint exposing /chat/completions. Data is sent to that provider.",
+  },
+  {
+    value: "local",
+    label: "Self-hosted model",
+    hint: "An OpenAI-compatible server you run yourself (Ollama, vLLM, llama.cpp). Data stays on your infrastructure.",
+  },
+  {
+    value: "template",
+    label: "No AI (templates)",
+    hint: "Explanations and reports are written from the rule results by fixed templates. Nothing is sent to a model.",
+  },
+];
+
+// Matches the check constraints on ai_provider_settings
+const SECRET_NAME = /^AI_[A-Z0-9_]+$/;
+const MASKABLE_FIELDS: { key: string; label: string }[] = [
+  { key: "transaction_id", label: "Transaction ID" },
+  { key: "vendor_country", label: "Vendor Country" },
+  { key: "payment_method", label: "Payment Method" },
+  { key: "department", label: "Department" },
+  { key: "description", label: "Description" },
+];
+
+const EMPTY_FORM: AiProviderForm = {
+  provider: "gateway",
+  base_url: "",
+  model: "",
+  api_key_secret: "",
+  masked_fields: [],
+};
+
+export function AiProviderCard({ organization }: { organization: string | null }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<AiProviderForm | null>(null);
+
+  const org = organization?.trim() || null;
+
+  const { data: saved, isLoading } = useQuery({
+    queryKey: ["ai-provider-settings", org],
+    queryFn: async () => {
+      let query = supabase
+        .from("ai_provider_settings")
+        .select("provider, base_url, model, api_key_secret, masked_fields");
+      query = org ? query.eq("organization", org) : query.is("organization", null);
+
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data
+        ? {
+            provider: data.provider as AiProviderKind,
+            base_url: data.base_url ?? "",
+            model: data.model ?? "",
+            api_key_secret: data.api_key_secret ?? "",
+            masked_fields: data.masked_fields,
+          }
+        : null;
+    },
+  });
+
+  // Applies to every organisation, so it is read from the engine settings rather than this card's row
+  const { data: externalAllowed = true } = useQuery({
+    queryKey: ["risk-engine-settings", "external-ai"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("risk_engine_settings")
+        .select("external_ai_allowed")
+        .maybeSingle();
+      if (error) throw error;
+      return data?.external_ai_allowed ?? true;
+    },
+  });
+
+  const externalMutation = useMutation({
+    mutationFn: async (allowed: boolean) => {
+      const { error } = await supabase
+        .from("risk_engine_settings")
+        .update({ external_ai_allowed: allowed, updated_by: user!.id })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: (_, allowed) => {
+      queryClient.invalidateQueries({ queryKey: ["risk-engine-settings"] });
+      toast.success(allowed ? "External AI providers allowed" : "External AI providers switched off");
+    },
+    onError: () => {
+      toast.error("Failed to update the external AI setting");
+    },
+  });
+
+  // Edits are kept locally until saved; until then the stored settings are shown
+  const current = form ?? saved ?? EMPTY_FORM;
+  const update = (changes: Partial<AiProviderForm>) => setForm({ ...current, ...changes });
+  const needsEndpoint = current.provider === "openai_compatible" || current.provider === "local";
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: AiProviderForm) => {
+      const baseUrl = values.base_url.trim();
+      const model = values.model.trim();
+      const secret = values.api_key_secret.trim().toUpperCase();
+      const endpoint = values.provider === "openai_compatible" || values.provider === "local";
+
+      if (values.provider === "openai_compatible" && !baseUrl.startsWith("https://")) {
+        throw new Error("The API base URL must start with https://");
+      }
+      if (values.provider === "local" && !/^https?:\/\//.test(baseUrl)) {
+        throw new Error("The server URL must start with http:// or https://");
+      }
+      if (endpoint && !model) throw new Error("Enter the model name");
+      if (values.provider === "openai_compatible" && !secret) {
+        throw new Error("Enter the name of the secret holding the API key");
+      }
+      if (secret && !SECRET_NAME.test(secret)) {
+        throw new Error("Secret names must start with AI_ and use only letters, digits and underscores");
+      }
+
+      const { error } = await supabase.from("ai_provider_settings").upsert(
+        {
+          organization: org,
+          provider: values.provider,
+          base_url: endpoint ? baseUrl : null,
+          model: values.provider === "template" ? null : model || null,
+          api_key_secret: endpoint ? secret || null : null,
+          masked_fields: values.masked_fields,
+          updated_by: user!.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "organization" }
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setForm(null);
+      queryClient.invalidateQueries({ queryKey: ["ai-provider-settings"] });
+      toast.success("AI provider saved");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save the AI provider");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          AI Provider
+        </CardTitle>
+        <CardDescription>
+          Where audit explanations and reports are written{org ? ` for ${org}` : " for users without an organization"}.
+          API keys are not stored here: enter the name of an edge function secret starting with AI_.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="external-ai-allowed">Allow external AI providers</Label>
+                <p className="text-sm text-muted-foreground">
+                  Applies to all organizations. When off, the hosted gateway and OpenAI-compatible APIs are not
+                  called and templates are used instead; self-hosted models keep working.
+                </p>
+              </div>
+              <Switch
+                id="external-ai-allowed"
+                checked={externalAllowed}
+                onCheckedChange={(checked) => externalMutation.mutate(checked)}
+                disabled={externalMutation.isPending}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Provider</Label>
+              <Select
+                value={current.provider}
+                onValueChange={(value) => update({ provider: value as AiProviderKind })}
+              >
+                <SelectTrigger className="sm:w-[320px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {PROVIDERS.find((p) => p.value === current.provider)?.hint}
+              </p>
+            </div>
+
+            {needsEndpoint && (
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="ai-base-url">{current.provider === "local" ? "Server URL" : "API base URL"}</Label>
+                  <Input
+                    id="ai-base-url"
+                    value={current.base_url}
+                    onChange={(e) => update({ base_url: e.target.value })}
+                    placeholder={current.provider === "local" ? "http://10.0.0.5:11434/v1" : "https://api.openai.com/v1"}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="ai-model">Model</Label>
+                  <Input
+                    id="ai-model"
+                    value={current.model}
+                    onChange={(e) => update({ model: e.target.value })}
+                    placeholder={current.provider === "local" ? "llama3.1:8b" : "gpt-4o-mini"}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="ai-secret">
+                    API key secret{current.provider === "local" ? " (optional)" : ""}
+                  </Label>
+                  <Input
+                    id="ai-secret"
+                    value={current.api_key_secret}
+                    onChange={(e) => update({ api_key_secret: e.target.value })}
+                    placeholder="AI_OPENAI_KEY"
+                  />
+                </div>
+              </div>
+            )}
+
+            {current.provider !== "template" && (
+              <div className="grid gap-2">
+                <Label>Fields withheld from the model</Label>
+                <div className="flex flex-wrap gap-4">
+                  {MASKABLE_FIELDS.map((field) => (
+                    <label key={field.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={current.masked_fields.includes(field.key)}
+                        onCheckedChange={(checked) =>
+                          update({
+                            masked_fields: checked === true
+                              ? [...current.masked_fields, field.key]
+                              : current.masked_fields.filter((f) => f !== field.key),
+                          })
+                        }
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Vendor names are always sent as pseudonyms and mapped back in the results. Account numbers, emails,
+                  phone numbers, PAN and GSTIN are removed from the text before it is sent.
+                </p>
+              </div>
+            )}
+
+            <Button onClick={() => saveMutation.mutate(current)} disabled={!form || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save AI Provider"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
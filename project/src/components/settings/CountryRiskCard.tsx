@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Globe, Search } from "lucide-react";
+import { toast } from "sonner";
+
+type CountryTier = "low" | "medium" | "high" | "prohibited";
+
+interface CountryRisk {
+  iso_code: string;
+  name: string;
+  aliases: string[];
+  tier: CountryTier;
+}
+
+const TIERS: CountryTier[] = ["low", "medium", "high", "prohibited"];
+
+const TIER_COLORS: Record<CountryTier, string> = {
+  low: "text-green-700",
+  medium: "text-yellow-700",
+  high: "text-red-700",
+  prohibited: "text-red-900 font-semibold",
+};
+
+// Comma-separated alias editor that saves when it loses focus
+const AliasInput = ({
+  country,
+  onSave,
+}: {
+  country: CountryRisk;
+  onSave: (aliases: string[]) => void;
+}) => {
+  const [text, setText] = useState(country.aliases.join(", "));
+
+  return (
+    <Input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const aliases = text.split(",").map((a) => a.trim()).filter(Boolean);
+        if (aliases.join(",") !== country.aliases.join(",")) onSave(aliases);
+      }}
+      className="h-8 text-xs"
+    />
+  );
+};
+
+export function CountryRiskCard() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [elevatedOnly, setElevatedOnly] = useState(false);
+
+  const { data: countries, isLoading } = useQuery({
+    queryKey: ["country-risk"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("country_risk")
+        .select("iso_code, name, aliases, tier")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return data as CountryRisk[];
+    },
+    enabled: !!user,
+  });
+
+  const updateCountryMutation = useMutation({
+    mutationFn: async ({ isoCode, changes }: { isoCode: string; changes: Partial<CountryRisk> }) => {
+      const { error } = await supabase
+        .from("country_risk")
+        .update({ ...changes, updated_by: user!.id })
+        .eq("iso_code", isoCode);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { isoCode }) => {
+      queryClient.invalidateQueries({ queryKey: ["country-risk"] });
+      toast.success(`${isoCode} updated`);
+    },
+    onError: () => {
+      toast.error("Failed to update country");
+    },
+  });
+
+  const term = search.trim().toLowerCase();
+  const shown = (countries || []).filter(
+    (c) =>
+      (!elevatedOnly || c.tier !== "low") &&
+      (!term ||
+        c.iso_code.toLowerCase() === term ||
+        c.name.toLowerCase().includes(term) ||
+        c.aliases.some((a) => a.toLowerCase().includes(term)))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Country Risk Tiers
+        </CardTitle>
+        <CardDescription>
+          Used by the Vendor Country Risk rule. Free-text vendor countries are matched to an ISO code by
+          name, ISO code or alias. Medium uses the rule's severity and score; high and prohibited escalate
+          to HIGH risk.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, ISO code or alias..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="elevated-only" checked={elevatedOnly} onCheckedChange={setElevatedOnly} />
+            <Label htmlFor="elevated-only">Above low only</Label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ISO</TableHead>
+                  <TableHead>Country</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>Tier</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((country) => (
+                  <TableRow key={country.iso_code}>
+                    <TableCell className="font-mono">{country.iso_code}</TableCell>
+                    <TableCell className="font-medium">{country.name}</TableCell>
+                    <TableCell className="min-w-[200px]">
+                      <AliasInput
+                        key={country.aliases.join(",")}
+                        country={country}
+                        onSave={(aliases) =>
+                          updateCountryMutation.mutate({ isoCode: country.iso_code, changes: { aliases } })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={country.tier}
+                        onValueChange={(tier) =>
+                          updateCountryMutation.mutate({
+                            isoCode: country.iso_code,
+                            changes: { tier: tier as CountryTier },
+                          })
+                        }
+                      >
+                        <SelectTrigger className={`w-[130px] h-8 capitalize ${TIER_COLORS[country.tier]}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TIERS.map((tier) => (
+                            <SelectItem key={tier} value={tier} className="capitalize">
+                              {tier}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {shown.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground py-6">No countries match</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as XLSX from "xlsx";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarDays, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface Holiday {
+  id: string;
+  organization: string | null;
+  country: string;
+  holiday_date: string;
+  name: string;
+}
+
+interface ParsedHoliday {
+  country: string;
+  holiday_date: string;
+  name: string;
+}
+
+const MAX_HOLIDAYS_PER_FILE = 1000;
+
+const pick = (row: Record<string, unknown>, keys: string[]) => {
+  for (const k of keys) {
+    const v = row?.[k];
+    if (v !== undefined && v !== null && String(v).trim() !== "") return v;
+  }
+  return undefined;
+};
+
+// Handles ISO strings, Excel serial numbers and other formats the browser can parse
+const toISODate = (v: unknown): string | null => {
+  if (typeof v === "number" && Number.isFinite(v)) {
+    const parsed = XLSX.SSF.parse_date_code(v);
+    if (!parsed?.y || !parsed?.m || !parsed?.d) return null;
+    return `${String(parsed.y).padStart(4, "0")}-${String(parsed.m).padStart(2, "0")}-${String(parsed.d).padStart(2, "0")}`;
+  }
+
+  const s = String(v ?? "").trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return null;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+// Parse a holiday CSV with Date, Name and (optional) Country columns
+const parseHolidayFile = (file: File, defaultCountry: string): Promise<ParsedHoliday[]> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const workbook = XLSX.read(e.target?.result, { type: "binary" });
+        const sheet = workbook.Sheets[workbook.SheetNames[0]];
+        const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet);
+
+        const holidays = rows.map((row, i) => {
+          const holidayDate = toISODate(pick(row, ["Date", "date", "Holiday Date", "holiday_date"]));
+          const name = String(pick(row, ["Name", "name", "Holiday", "holiday", "Description"]) ?? "").trim();
+          const country = String(pick(row, ["Country", "country"]) ?? defaultCountry).trim().toUpperCase();
+
+          if (!holidayDate) throw new Error(`Invalid date in row ${i + 1}`);
+          if (!name) throw new Error(`Missing holiday name in row ${i + 1}`);
+          if (!country) throw new Error(`Missing country in row ${i + 1}`);
+
+          return { holiday_date: holidayDate, name: name.slice(0, 200), country: country.slice(0, 100) };
+        });
+
+        resolve(holidays);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsBinaryString(file);
+  });
+
+export function HolidayCalendarCard({ organization }: { organization: string | null }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [defaultCountry, setDefaultCountry] = useState("INDIA");
+
+  const org = organization?.trim() || null;
+
+  const { data: holidays, isLoading } = useQuery({
+    queryKey: ["holidays", org],
+    queryFn: async () => {
+      let query = supabase
+        .from("holidays")
+        .select("id, organization, country, holiday_date, name")
+        .order("holiday_date", { ascending: true });
+      query = org ? query.or(`organization.is.null,organization.eq."${org.replace(/"/g, "")}"`) : query.is("organization", null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as Holiday[];
+    },
+  });
+
+  // Uploading replaces this organisation's calendar for every country present in the file
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const parsed = await parseHolidayFile(file, defaultCountry);
+      if (parsed.length === 0) throw new Error("The file contains no holidays");
+      if (parsed.length > MAX_HOLIDAYS_PER_FILE) {
+        throw new Error(`Too many rows. Maximum ${MAX_HOLIDAYS_PER_FILE} holidays per file`);
+      }
+
+      const countries = [...new Set(parsed.map((h) => h.country))];
+      let deleteQuery = supabase.from("holidays").delete().in("country", countries);
+      deleteQuery = org ? deleteQuery.eq("organization", org) : deleteQuery.is("organization", null);
+      const { error: deleteError } = await deleteQuery;
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase
+        .from("holidays")
+        .insert(parsed.map((h) => ({ ...h, organization: org, created_by: user!.id })));
+      if (error) throw error;
+
+      return { count: parsed.length, countries };
+    },
+    onSuccess: ({ count, countries }) => {
+      queryClient.invalidateQueries({ queryKey: ["holidays"] });
+      toast.success(`Imported ${count} holidays for ${countries.join(", ")}`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to import holidays");
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    if (!extension || !["csv", "xlsx", "xls"].includes(extension)) {
+      toast.error("Invalid file type. Only CSV and Excel files are allowed");
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const countryCounts = (holidays || []).reduce<Record<string, number>>((acc, h) => {
+    acc[h.country] = (acc[h.country] || 0) + 1;
+    return acc;
+  }, {});
+  const today = new Date().toISOString().split("T")[0];
+  const upcoming = (holidays || []).filter((h) => h.holiday_date >= today).slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Holiday Calendar
+        </CardTitle>
+        <CardDescription>
+          Public holidays used by the off-calendar posting rule
+          {org ? ` for ${org}` : ""}. Upload a CSV with Date, Name and Country columns; it replaces the
+          existing calendar for those countries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="grid gap-2 sm:w-48">
+            <Label htmlFor="holiday-country">Default country</Label>
+            <Input
+              id="holiday-country"
+              value={defaultCountry}
+              onChange={(e) => setDefaultCountry(e.target.value)}
+              placeholder="Used when a row has no country"
+            />
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploadMutation.isPending ? "Importing..." : "Upload Holiday CSV"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : !holidays || holidays.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No holidays uploaded yet</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(countryCounts).map(([country, count]) => (
+                <Badge key={country} variant="secondary">
+                  {country}: {count}
+                </Badge>
+              ))}
+            </div>
+            {upcoming.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Holiday</TableHead>
+                    <TableHead>Country</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {upcoming.map((holiday) => (
+                    <TableRow key={holiday.id}>
+                      <TableCell>{holiday.holiday_date}</TableCell>
+                      <TableCell className="font-medium">{holiday.name}</TableCell>
+                      <TableCell>{holiday.country}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
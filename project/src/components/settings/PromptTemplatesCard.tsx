@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileCode } from "lucide-react";
+import { diffLines } from "@/lib/lineDiff";
+import type { Tables } from "@/integrations/supabase/types";
+
+type PromptTemplate = Tables<"prompt_templates">;
+
+const PROMPT_LABELS: Record<string, string> = {
+  audit_explanations: "Transaction explanations",
+  audit_report: "Audit report",
+};
+
+const DIFF_LINE_CLASSES = {
+  same: "text-muted-foreground",
+  added: "bg-success/10 text-success",
+  removed: "bg-danger/10 text-danger",
+};
+const DIFF_LINE_PREFIX = { same: "  ", added: "+ ", removed: "- " };
+
+function PromptDiff({ label, before, after }: { label: string; before: string; after: string }) {
+  const lines = diffLines(before, after);
+  const changed = lines.some((line) => line.kind !== "same");
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {label}
+        {!changed && <span className="font-normal text-muted-foreground"> (unchanged)</span>}
+      </p>
+      <pre className="max-h-96 overflow-auto rounded-md border bg-muted/30 p-3 text-xs font-mono whitespace-pre-wrap">
+        {lines.map((line, index) => (
+          <div key={index} className={DIFF_LINE_CLASSES[line.kind]}>
+            {DIFF_LINE_PREFIX[line.kind]}
+            {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+// Versions are added by migration and never edited; explanations and reports record the version
+// that wrote them
+export function PromptTemplatesCard() {
+  const [promptKey, setPromptKey] = useState("audit_explanations");
+  const [selection, setSelection] = useState<{ from: string; to: string } | null>(null);
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ["prompt-templates"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("prompt_templates")
+        .select("*")
+        .order("version", { ascending: false });
+
+      if (error) throw error;
+      return data as PromptTemplate[];
+    },
+  });
+
+  const versions = (templates ?? []).filter((t) => t.prompt_key === promptKey);
+  // Until two versions are picked, compare the latest with the one before it
+  const to = versions.find((v) => v.id === selection?.to) ?? versions[0];
+  const from = versions.find((v) => v.id === selection?.from) ?? versions[1] ?? versions[0];
+
+  const versionSelect = (value: PromptTemplate | undefined, onChange: (id: string) => void) => (
+    <Select value={value?.id} onValueChange={onChange}>
+      <SelectTrigger className="w-[140px]">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.id}>
+            Version {v.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          Prompt Versions
+        </CardTitle>
+        <CardDescription>
+          Prompts used to write AI explanations and audit reports. The latest version is used for new analyses;
+          each explanation and report records the prompt version, model and a hash of its inputs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          <Label>Prompt</Label>
+          <Select
+            value={promptKey}
+            onValueChange={(value) => {
+              setPromptKey(value);
+              setSelection(null);
+            }}
+          >
+            <SelectTrigger className="sm:w-[320px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROMPT_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : versions.length === 0 || !from || !to ? (
+          <p className="text-sm text-muted-foreground">No versions of this prompt yet</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Temperature</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Added</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((v) => (
+                  <TableRow key={v.id}>
+                    <TableCell className="font-medium">{v.version}</TableCell>
+                    <TableCell>{v.temperature}</TableCell>
+                    <TableCell className="text-muted-foreground">{v.change_note || "-"}</TableCell>
+                    <TableCell>{format(new Date(v.created_at), "MMM d, yyyy HH:mm")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>Compare</span>
+              {versionSelect(from, (id) => setSelection({ from: id, to: to.id }))}
+              <span>with</span>
+              {versionSelect(to, (id) => setSelection({ from: from.id, to: id }))}
+              {from.temperature !== to.temperature && (
+                <span className="text-muted-foreground">
+                  Temperature {from.temperature} → {to.temperature}
+                </span>
+              )}
+            </div>
+
+            <PromptDiff label="System prompt" before={from.system_prompt} after={to.system_prompt} />
+            <PromptDiff label="User prompt" before={from.user_prompt} after={to.user_prompt} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, FlaskConical } from "lucide-react";
+import { toast } from "sonner";
+
+type RiskLevel = "low" | "medium" | "high";
+type ScoringMode = "strict" | "cumulative";
+type LevelCounts = Record<RiskLevel | "unassessed", number>;
+
+// Rule configuration sent to the simulation, keyed by rule_key
+export interface SimulationRuleDraft {
+  rule_key: string;
+  enabled: boolean;
+  severity: string;
+  score: number;
+  weight: number;
+  parameters: Record<string, unknown>;
+}
+
+interface SimulationChange {
+  id: string;
+  transaction_id: string;
+  session_id: string;
+  vendor_name: string;
+  amount: number;
+  before_level: RiskLevel | null;
+  after_level: RiskLevel;
+  before_score: number | null;
+  after_score: number;
+  why: string;
+}
+
+interface SimulationResult {
+  sessions: { id: string; file_name: string }[];
+  scoring_mode: ScoringMode;
+  total: number;
+  before: LevelCounts;
+  after: LevelCounts;
+  transitions: Record<string, number>;
+  changed_count: number;
+  changes: SimulationChange[];
+  changes_truncated: boolean;
+}
+
+const LEVEL_COLORS: Record<RiskLevel, string> = {
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+const LevelBadge = ({ level }: { level: RiskLevel | null }) =>
+  level ? (
+    <Badge className={`${LEVEL_COLORS[level]} capitalize`}>{level}</Badge>
+  ) : (
+    <Badge variant="outline">Not Analyzed</Badge>
+  );
+
+const MAX_SESSIONS = 20;
+
+export function RuleSimulationCard({
+  rules,
+  scoringMode,
+  hasDrafts,
+}: {
+  rules: SimulationRuleDraft[];
+  scoringMode: ScoringMode;
+  hasDrafts: boolean;
+}) {
+  const navigate = useNavigate();
+  const [selectedSessions, setSelectedSessions] = useState<string[]>([]);
+  const [simulationMode, setSimulationMode] = useState<ScoringMode | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  const mode = simulationMode ?? scoringMode;
+
+  const { data: sessions } = useQuery({
+    queryKey: ["simulation-sessions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("analysis_sessions")
+        .select("id, file_name, total_transactions, created_at")
+        .eq("status", "completed")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke("analyze-transactions", {
+        body: { mode: "simulate", sessionIds: selectedSessions, rules, scoringMode: mode },
+      });
+
+      if (error) throw error;
+      return data.simulation as SimulationResult;
+    },
+    onSuccess: (simulation) => {
+      setResult(simulation);
+    },
+    onError: (error) => {
+      console.error("Simulation error:", error);
+      toast.error("Simulation failed. Please try again.");
+    },
+  });
+
+  const toggleSession = (id: string, checked: boolean) => {
+    setSelectedSessions((prev) =>
+      checked ? [...prev, id].slice(0, MAX_SESSIONS) : prev.filter((s) => s !== id)
+    );
+  };
+
+  const sessionName = (id: string) => result?.sessions.find((s) => s.id === id)?.file_name ?? "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          What-if Simulation
+        </CardTitle>
+        <CardDescription>
+          Re-score past sessions with the rule settings on this page. Nothing is written; stored
+          assessments stay as they are.
+          {hasDrafts ? " Unsaved rule changes are included." : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-48 overflow-y-auto rounded-lg border divide-y">
+          {(sessions || []).length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No completed sessions to simulate</p>
+          ) : (
+            (sessions || []).map((session) => (
+              <label
+                key={session.id}
+                className="flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={selectedSessions.includes(session.id)}
+                  onCheckedChange={(checked) => toggleSession(session.id, checked === true)}
+                />
+                <span className="font-medium flex-1 truncate">{session.file_name}</span>
+                <span className="text-muted-foreground">
+                  {session.total_transactions} txns · {format(new Date(session.created_at), "MMM d, yyyy")}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="grid gap-2">
+            <Label>Scoring mode</Label>
+            <Select value={mode} onValueChange={(value) => setSimulationMode(value as ScoringMode)}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="strict">Strict order (first rule wins)</SelectItem>
+                <SelectItem value="cumulative">Cumulative (weighted sum)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => simulateMutation.mutate()}
+            disabled={selectedSessions.length === 0 || simulateMutation.isPending}
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            {simulateMutation.isPending
+              ? "Simulating..."
+              : `Simulate ${selectedSessions.length || ""} Session${selectedSessions.length === 1 ? "" : "s"}`}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4 pt-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dashboard count</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Simulated</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(["high", "medium", "low"] as RiskLevel[]).map((level) => {
+                  const delta = result.after[level] - result.before[level];
+                  return (
+                    <TableRow key={level}>
+                      <TableCell>
+                        <LevelBadge level={level} />
+                      </TableCell>
+                      <TableCell>{result.before[level]}</TableCell>
+                      <TableCell>{result.after[level]}</TableCell>
+                      <TableCell
+                        className={delta > 0 ? "text-danger font-medium" : delta < 0 ? "text-success font-medium" : ""}
+                      >
+                        {delta > 0 ? `+${delta}` : delta}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {result.before.unassessed > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {result.before.unassessed} transactions had no stored assessment.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(result.transitions).length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No transaction changes risk level ({result.changed_count} score changes).
+                </p>
+              ) : (
+                Object.entries(result.transitions).map(([transition, count]) => (
+                  <Badge key={transition} variant="outline" className="capitalize">
+                    {transition.replace("->", " → ")}: {count}
+                  </Badge>
+                ))
+              )}
+            </div>
+
+            {result.changes.length > 0 && (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Transaction</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Level</TableHead>
+                      <TableHead>Score</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.changes.map((change) => (
+                      <TableRow
+                        key={change.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => navigate(`/transactions/${change.id}`)}
+                        title={change.why}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{change.transaction_id}</div>
+                          {result.sessions.length > 1 && (
+                            <div className="text-xs text-muted-foreground">{sessionName(change.session_id)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{change.vendor_name}</TableCell>
+                        <TableCell>₹{change.amount.toLocaleString()}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <LevelBadge level={change.before_level} />
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            <LevelBadge level={change.after_level} />
+                          </div>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {change.before_score ?? "-"} → {change.after_score}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {result.changes_truncated && (
+              <p className="text-sm text-muted-foreground">
+                Showing {result.changes.length} of {result.changed_count} changed transactions.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
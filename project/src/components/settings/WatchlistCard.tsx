@@ -0,0 +1,182 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldAlert, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { parseWatchlistFile, WATCHLIST_SOURCE_LABELS, type WatchlistSource } from "@/lib/watchlist";
+
+interface WatchlistImport {
+  id: string;
+  source: WatchlistSource;
+  file_name: string | null;
+  entry_count: number;
+  created_at: string;
+}
+
+const INSERT_BATCH_SIZE = 500;
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB - the full OFAC SDN XML is roughly 20MB
+
+export function WatchlistCard() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState(0);
+
+  const { data: imports, isLoading } = useQuery({
+    queryKey: ["watchlist-imports"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("watchlist_imports")
+        .select("id, source, file_name, entry_count, created_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as WatchlistImport[];
+    },
+  });
+
+  // A new file replaces the previous import of the same source once all its entries are stored
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      setProgress(5);
+      const { source, entries } = await parseWatchlistFile(file);
+      if (entries.length === 0) throw new Error("No watchlist entries found in the file");
+      setProgress(15);
+
+      const { data: created, error: importError } = await supabase
+        .from("watchlist_imports")
+        .insert({
+          source,
+          file_name: file.name.slice(0, 255),
+          entry_count: entries.length,
+          imported_by: user!.id,
+        })
+        .select("id")
+        .single();
+      if (importError || !created) throw importError || new Error("Failed to create import");
+
+      for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+        const batch = entries
+          .slice(i, i + INSERT_BATCH_SIZE)
+          .map((entry) => ({ ...entry, import_id: created.id, source }));
+        const { error } = await supabase.from("watchlist_entries").insert(batch);
+        if (error) {
+          // Remove the partial import so screening keeps using the previous complete list
+          await supabase.from("watchlist_imports").delete().eq("id", created.id);
+          throw error;
+        }
+        setProgress(15 + Math.round(((i + batch.length) / entries.length) * 80));
+      }
+
+      const { error: cleanupError } = await supabase
+        .from("watchlist_imports")
+        .delete()
+        .eq("source", source)
+        .neq("id", created.id);
+      if (cleanupError) throw cleanupError;
+
+      return { source, count: entries.length };
+    },
+    onSuccess: ({ source, count }) => {
+      queryClient.invalidateQueries({ queryKey: ["watchlist-imports"] });
+      toast.success(`Imported ${count.toLocaleString()} ${WATCHLIST_SOURCE_LABELS[source]} entries`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to import watchlist");
+    },
+    onSettled: () => setProgress(0),
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    if (!extension || !["csv", "xml"].includes(extension)) {
+      toast.error("Invalid file type. Only CSV and XML files are allowed");
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error("File too large. Maximum size is 50MB");
+      return;
+    }
+    importMutation.mutate(file);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Sanctions Watchlists
+        </CardTitle>
+        <CardDescription>
+          Vendor names are screened against these lists during analysis. Upload an OFAC SDN file (sdn.xml or
+          sdn.csv), the UN consolidated list XML, or a CSV with a Name column. Uploading a newer file replaces
+          the previous list from the same source.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xml"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importMutation.isPending}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {importMutation.isPending ? "Importing..." : "Upload Watchlist"}
+        </Button>
+        {importMutation.isPending && <Progress value={progress} />}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : !imports || imports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No watchlists imported yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Entries</TableHead>
+                <TableHead>Imported</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {imports.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{WATCHLIST_SOURCE_LABELS[item.source]}</TableCell>
+                  <TableCell className="text-muted-foreground">{item.file_name || "-"}</TableCell>
+                  <TableCell>{item.entry_count.toLocaleString()}</TableCell>
+                  <TableCell>{format(new Date(item.created_at), "MMM d, yyyy HH:mm")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
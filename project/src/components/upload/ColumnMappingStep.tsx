@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Columns3, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ParsedSheet } from "@/lib/import/sheet";
+import {
+  TARGET_FIELDS,
+  findMatchingProfile,
+  restrictMapping,
+  type ColumnMapping,
+  type ImportProfile,
+  type TargetField,
+} from "@/lib/import/mapping";
+
+const NOT_MAPPED = "__none__";
+const SAMPLE_ROWS = 5;
+
+const preview = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+
+export function ColumnMappingStep({
+  sheet,
+  mapping,
+  onChange,
+}: {
+  sheet: ParsedSheet;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [activeProfile, setActiveProfile] = useState<ImportProfile | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [autoApplied, setAutoApplied] = useState(false);
+
+  const { data: profiles } = useQuery({
+    queryKey: ["import-profiles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("import_profiles")
+        .select("id, name, headers, mapping")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as ImportProfile[];
+    },
+    enabled: !!user,
+  });
+
+  const applyProfile = (profile: ImportProfile) => {
+    setActiveProfile(profile);
+    setProfileName(profile.name);
+    onChange(restrictMapping(profile.mapping, sheet.headers));
+  };
+
+  // Pick a saved profile automatically once per file when its headers match
+  useEffect(() => {
+    if (autoApplied || !profiles) return;
+    setAutoApplied(true);
+    const match = findMatchingProfile(profiles, sheet.headers);
+    if (!match) return;
+
+    setActiveProfile(match);
+    setProfileName(match.name);
+    onChange(restrictMapping(match.mapping, sheet.headers));
+    toast.success(`Applied import profile "${match.name}"`);
+  }, [profiles, autoApplied, sheet.headers, onChange]);
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase
+        .from("import_profiles")
+        .upsert(
+          { user_id: user!.id, name, headers: sheet.headers, mapping },
+          { onConflict: "user_id,name" }
+        )
+        .select("id, name, headers, mapping")
+        .single();
+
+      if (error) throw error;
+      return data as unknown as ImportProfile;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["import-profiles"] });
+      setActiveProfile(profile);
+      toast.success(`Import profile "${profile.name}" saved`);
+    },
+    onError: () => {
+      toast.error("Failed to save import profile");
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (profile: ImportProfile) => {
+      const { error } = await supabase.from("import_profiles").delete().eq("id", profile.id);
+      if (error) throw error;
+      return profile;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["import-profiles"] });
+      setActiveProfile(null);
+      toast.success(`Import profile "${profile.name}" deleted`);
+    },
+    onError: () => {
+      toast.error("Failed to delete import profile");
+    },
+  });
+
+  const setField = (field: TargetField, header: string) => {
+    const next = { ...mapping };
+    if (header === NOT_MAPPED) delete next[field];
+    else next[field] = header;
+    onChange(next);
+  };
+
+  const sampleRows = sheet.rows.slice(0, SAMPLE_ROWS);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Map Columns
+          {activeProfile && <Badge variant="outline">{activeProfile.name}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Detected {sheet.headers.length} columns and {sheet.rows.length.toLocaleString()} rows. Choose the column
+          that holds each field; fields marked * are required.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {TARGET_FIELDS.map((field) => {
+            const header = mapping[field.key];
+            return (
+              <div key={field.key} className="grid gap-1.5">
+                <Label>
+                  {field.label}
+                  {field.required && <span className="text-danger"> *</span>}
+                </Label>
+                <Select value={header ?? NOT_MAPPED} onValueChange={(value) => setField(field.key, value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                    {sheet.headers.map((h) => (
+                      <SelectItem key={h} value={h}>
+                        {h}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground truncate">
+                  {header ? `e.g. ${preview(sampleRows[0]?.values[header]) || "(empty)"}` : " "}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Sample rows</Label>
+          <div className="overflow-x-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  {sheet.headers.map((h) => (
+                    <TableHead key={h} className="whitespace-nowrap">{h}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sampleRows.map(({ row, values }, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="text-muted-foreground">{row}</TableCell>
+                    {sheet.headers.map((h) => (
+                      <TableCell key={h} className="whitespace-nowrap max-w-[200px] truncate">
+                        {preview(values[h])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          {(profiles || []).length > 0 && (
+            <div className="grid gap-1.5">
+              <Label>Saved profiles</Label>
+              <Select
+                value={activeProfile?.id ?? ""}
+                onValueChange={(id) => {
+                  const profile = profiles?.find((p) => p.id === id);
+                  if (profile) applyProfile(profile);
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Apply a profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(profiles || []).map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid gap-1.5 flex-1">
+            <Label htmlFor="profile-name">Save mapping as</Label>
+            <Input
+              id="profile-name"
+              placeholder="e.g. Client A ledger"
+              maxLength={100}
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => saveProfileMutation.mutate(profileName.trim())}
+              disabled={!profileName.trim() || saveProfileMutation.isPending}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Profile
+            </Button>
+            {activeProfile && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete this profile"
+                onClick={() => deleteProfileMutation.mutate(activeProfile)}
+                disabled={deleteProfileMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
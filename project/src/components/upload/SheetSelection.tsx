@@ -0,0 +1,81 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { WorkbookSheet } from "@/lib/import/sheet";
+
+// One session for every chosen sheet, or a session per sheet
+export type SheetImportMode = "combined" | "per-sheet";
+
+export function SheetSelection({
+  sheets,
+  selected,
+  onSelectedChange,
+  label = "Sheets to import",
+  mode,
+  onModeChange,
+  disabled,
+}: {
+  sheets: WorkbookSheet[];
+  selected: string[];
+  onSelectedChange: (names: string[]) => void;
+  label?: string;
+  mode: SheetImportMode;
+  onModeChange: (mode: SheetImportMode) => void;
+  disabled?: boolean;
+}) {
+  // Keep the workbook's sheet order whatever order the boxes were ticked in
+  const toggle = (name: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(name);
+    else next.delete(name);
+    onSelectedChange(sheets.map((s) => s.name).filter((n) => next.has(n)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>{label}</Label>
+      <div className="max-h-48 overflow-y-auto rounded-lg border divide-y">
+        {sheets.map((sheet) => (
+          <label
+            key={sheet.name}
+            className="flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-muted/50"
+          >
+            <Checkbox
+              checked={selected.includes(sheet.name)}
+              disabled={disabled}
+              onCheckedChange={(checked) => toggle(sheet.name, checked === true)}
+            />
+            <span className="font-medium flex-1 truncate">{sheet.name}</span>
+            <span className="text-muted-foreground">
+              {sheet.rowCount > 0 ? `up to ${sheet.rowCount.toLocaleString()} rows` : "empty"}
+            </span>
+          </label>
+        ))}
+      </div>
+      {selected.length > 1 && (
+        <div className="grid gap-2">
+          <Label>Sessions</Label>
+          <Select
+            value={mode}
+            disabled={disabled}
+            onValueChange={(value) => onModeChange(value as SheetImportMode)}
+          >
+            <SelectTrigger className="w-[280px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="combined">One session for all sheets</SelectItem>
+              <SelectItem value="per-sheet">One session per sheet</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Download, ListChecks } from "lucide-react";
+import { toast } from "sonner";
+import { TARGET_FIELDS, type TargetField } from "@/lib/import/mapping";
+import { buildIssueCsv, convertRow, hasErrors, type ImportRow } from "@/lib/import/validation";
+
+type RowFilter = "all" | "issues" | "errors" | "excluded";
+
+const PAGE_SIZE = 100;
+
+const display = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+
+export function ValidationPreview({
+  fileName,
+  rows,
+  onChange,
+}: {
+  fileName: string;
+  rows: ImportRow[];
+  onChange: (rows: ImportRow[]) => void;
+}) {
+  const [filter, setFilter] = useState<RowFilter>("issues");
+  const [page, setPage] = useState(0);
+  const [editing, setEditing] = useState<{ id: number; field: TargetField } | null>(null);
+  const multiSheet = useMemo(() => new Set(rows.map((r) => r.source_sheet)).size > 1, [rows]);
+
+  const counts = useMemo(() => {
+    const included = rows.filter((r) => !r.excluded);
+    return {
+      included: included.length,
+      excluded: rows.length - included.length,
+      errors: included.filter(hasErrors).length,
+      warnings: included.filter((r) => !hasErrors(r) && r.issues.length > 0).length,
+    };
+  }, [rows]);
+
+  const visible = useMemo(() => {
+    switch (filter) {
+      case "issues":
+        return rows.filter((r) => r.issues.length > 0);
+      case "errors":
+        return rows.filter((r) => !r.excluded && hasErrors(r));
+      case "excluded":
+        return rows.filter((r) => r.excluded);
+      default:
+        return rows;
+    }
+  }, [rows, filter]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateRow = (id: number, update: (row: ImportRow) => ImportRow) => {
+    onChange(rows.map((r) => (r.id === id ? update(r) : r)));
+  };
+
+  // A corrected value is re-validated exactly like the original cell
+  const editCell = (id: number, field: TargetField, value: string) => {
+    updateRow(id, (r) => {
+      const input = { ...r.input, [field]: value };
+      return { ...r, input, ...convertRow(r, input) };
+    });
+    setEditing(null);
+  };
+
+  const excludeRowsWithErrors = () => {
+    onChange(rows.map((r) => (hasErrors(r) ? { ...r, excluded: true } : r)));
+    toast.success(`${counts.errors.toLocaleString()} rows with errors excluded`);
+  };
+
+  const downloadIssues = () => {
+    const blob = new Blob([buildIssueCsv(rows)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${fileName.replace(/\.[^.]+$/, "")}_errors.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    toast.success("Error report downloaded");
+  };
+
+  const renderCell = (row: ImportRow, field: TargetField) => {
+    const fieldIssues = row.issues.filter((i) => i.field === field);
+    const isError = fieldIssues.some((i) => i.severity === "error");
+
+    if (editing?.id === row.id && editing.field === field) {
+      return (
+        <Input
+          autoFocus
+          className="h-8 min-w-[140px]"
+          defaultValue={display(row.input[field])}
+          onBlur={(e) => editCell(row.id, field, e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") editCell(row.id, field, e.currentTarget.value);
+            if (e.key === "Escape") setEditing(null);
+          }}
+        />
+      );
+    }
+
+    // Problem cells show what the file contained, so the user sees what needs fixing
+    const value = fieldIssues.length > 0 ? display(row.input[field]) : display(row.transaction[field]);
+    return (
+      <button
+        type="button"
+        className={`block w-full max-w-[200px] truncate rounded px-1 text-left hover:bg-muted ${
+          isError ? "bg-danger/10 text-danger" : fieldIssues.length > 0 ? "bg-warning/10 text-warning" : ""
+        }`}
+        title={fieldIssues.map((i) => i.message).join("\n") || "Click to edit"}
+        disabled={row.excluded}
+        onClick={() => setEditing({ id: row.id, field })}
+      >
+        {value || (isError ? "(empty)" : " ")}
+      </button>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Review Rows
+        </CardTitle>
+        <CardDescription>
+          Nothing is uploaded until you start the analysis. Click a cell to correct it, or exclude rows you do not want
+          to import.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{counts.included.toLocaleString()} to import</Badge>
+          <Badge variant="outline" className={counts.errors > 0 ? "border-danger text-danger" : ""}>
+            {counts.errors.toLocaleString()} with errors
+          </Badge>
+          <Badge variant="outline" className={counts.warnings > 0 ? "border-warning text-warning" : ""}>
+            {counts.warnings.toLocaleString()} with warnings
+          </Badge>
+          {counts.excluded > 0 && <Badge variant="secondary">{counts.excluded.toLocaleString()} excluded</Badge>}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <Select
+            value={filter}
+            onValueChange={(value) => {
+              setFilter(value as RowFilter);
+              setPage(0);
+            }}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="issues">Rows with issues</SelectItem>
+              <SelectItem value="errors">Rows with errors</SelectItem>
+              <SelectItem value="excluded">Excluded rows</SelectItem>
+              <SelectItem value="all">All rows</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2 sm:ml-auto">
+            <Button variant="outline" onClick={excludeRowsWithErrors} disabled={counts.errors === 0}>
+              Exclude Rows with Errors
+            </Button>
+            <Button
+              variant="outline"
+              onClick={downloadIssues}
+              disabled={!rows.some((r) => r.issues.length > 0)}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Error CSV
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" title="Include in import">Use</TableHead>
+                {multiSheet && <TableHead>Sheet</TableHead>}
+                <TableHead className="w-12">Row</TableHead>
+                {TARGET_FIELDS.map((field) => (
+                  <TableHead key={field.key} className="whitespace-nowrap">{field.label}</TableHead>
+                ))}
+                <TableHead>Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={TARGET_FIELDS.length + (multiSheet ? 4 : 3)} className="text-center text-muted-foreground py-6">
+                    No rows to show
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pageRows.map((row) => (
+                  <TableRow key={row.id} className={row.excluded ? "opacity-50" : ""}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!row.excluded}
+                        onCheckedChange={(checked) =>
+                          updateRow(row.id, (r) => ({ ...r, excluded: checked !== true }))
+                        }
+                      />
+                    </TableCell>
+                    {multiSheet && (
+                      <TableCell className="whitespace-nowrap text-muted-foreground">{row.source_sheet}</TableCell>
+                    )}
+                    <TableCell className="text-muted-foreground">{row.source_row}</TableCell>
+                    {TARGET_FIELDS.map((field) => (
+                      <TableCell key={field.key} className="whitespace-nowrap py-1">
+                        {renderCell(row, field.key)}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-xs min-w-[220px]">
+                      {row.issues.map((issue, i) => (
+                        <p key={i} className={issue.severity === "error" ? "text-danger" : "text-warning"}>
+                          {issue.message}
+                        </p>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <span className="text-muted-foreground">
+              Page {currentPage + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={currentPage === 0}
+              onClick={() => setPage(currentPage - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={currentPage >= pageCount - 1}
+              onClick={() => setPage(currentPage + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,41 +14,110 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_provider_settings: {
+        Row: {
+          api_key_secret: string | null
+          base_url: string | null
+          id: string
+          masked_fields: string[]
+          model: string | null
+          organization: string | null
+          provider: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          api_key_secret?: string | null
+          base_url?: string | null
+          id?: string
+          masked_fields?: string[]
+          model?: string | null
+          organization?: string | null
+          provider?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          api_key_secret?: string | null
+          base_url?: string | null
+          id?: string
+          masked_fields?: string[]
+          model?: string | null
+          organization?: string | null
+          provider?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       analysis_sessions: {
         Row: {
+          analysis_claim: string | null
+          analysis_claimed_at: string | null
+          analyzed_rows: number
           completed_at: string | null
           created_at: string
+          error_message: string | null
+          explained_rows: number
           file_name: string
           high_risk_count: number | null
           id: string
           low_risk_count: number | null
           medium_risk_count: number | null
+          reanalyzed_at: string | null
+          source_file_path: string | null
+          source_file_sha256: string | null
+          source_file_size: number | null
+          stage: string | null
           status: string | null
           total_transactions: number | null
+          uploaded_rows: number
           user_id: string
         }
         Insert: {
+          analysis_claim?: string | null
+          analysis_claimed_at?: string | null
+          analyzed_rows?: number
           completed_at?: string | null
           created_at?: string
+          error_message?: string | null
+          explained_rows?: number
           file_name: string
           high_risk_count?: number | null
           id?: string
           low_risk_count?: number | null
           medium_risk_count?: number | null
+          reanalyzed_at?: string | null
+          source_file_path?: string | null
+          source_file_sha256?: string | null
+          source_file_size?: number | null
+          stage?: string | null
           status?: string | null
           total_transactions?: number | null
+          uploaded_rows?: number
           user_id: string
         }
         Update: {
+          analysis_claim?: string | null
+          analysis_claimed_at?: string | null
+          analyzed_rows?: number
           completed_at?: string | null
           created_at?: string
+          error_message?: string | null
+          explained_rows?: number
           file_name?: string
           high_risk_count?: number | null
           id?: string
           low_risk_count?: number | null
           medium_risk_count?: number | null
+          reanalyzed_at?: string | null
+          source_file_path?: string | null
+          source_file_sha256?: string | null
+          source_file_size?: number | null
+          stage?: string | null
           status?: string | null
           total_transactions?: number | null
+          uploaded_rows?: number
           user_id?: string
         }
         Relationships: []
@@ -59,7 +128,11 @@ export type Database = {
           created_at: string
           executive_summary: string | null
           id: string
+          input_hash: string | null
           key_risk_themes: Json | null
+          model_id: string | null
+          prompt_template_id: string | null
+          report_source: string | null
           risk_posture: string | null
           session_id: string
           statistics: Json | null
@@ -71,7 +144,11 @@ export type Database = {
           created_at?: string
           executive_summary?: string | null
           id?: string
+          input_hash?: string | null
           key_risk_themes?: Json | null
+          model_id?: string | null
+          prompt_template_id?: string | null
+          report_source?: string | null
           risk_posture?: string | null
           session_id: string
           statistics?: Json | null
@@ -83,7 +160,11 @@ export type Database = {
           created_at?: string
           executive_summary?: string | null
           id?: string
+          input_hash?: string | null
           key_risk_themes?: Json | null
+          model_id?: string | null
+          prompt_template_id?: string | null
+          report_source?: string | null
           risk_posture?: string | null
           session_id?: string
           statistics?: Json | null
@@ -91,6 +172,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "audit_reports_prompt_template_id_fkey"
+            columns: ["prompt_template_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "audit_reports_session_id_fkey"
             columns: ["session_id"]
@@ -100,6 +188,93 @@ export type Database = {
           },
         ]
       }
+      country_risk: {
+        Row: {
+          aliases: string[]
+          iso_code: string
+          name: string
+          tier: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          aliases?: string[]
+          iso_code: string
+          name: string
+          tier?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          aliases?: string[]
+          iso_code?: string
+          name?: string
+          tier?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      holidays: {
+        Row: {
+          country: string
+          created_at: string
+          created_by: string | null
+          holiday_date: string
+          id: string
+          name: string
+          organization: string | null
+        }
+        Insert: {
+          country: string
+          created_at?: string
+          created_by?: string | null
+          holiday_date: string
+          id?: string
+          name: string
+          organization?: string | null
+        }
+        Update: {
+          country?: string
+          created_at?: string
+          created_by?: string | null
+          holiday_date?: string
+          id?: string
+          name?: string
+          organization?: string | null
+        }
+        Relationships: []
+      }
+      import_profiles: {
+        Row: {
+          created_at: string
+          headers: string[]
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          headers?: string[]
+          id?: string
+          mapping?: Json
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          headers?: string[]
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -133,10 +308,97 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          change_note: string | null
+          created_at: string
+          id: string
+          prompt_key: string
+          system_prompt: string
+          temperature: number
+          user_prompt: string
+          version: number
+        }
+        Insert: {
+          change_note?: string | null
+          created_at?: string
+          id?: string
+          prompt_key: string
+          system_prompt: string
+          temperature: number
+          user_prompt: string
+          version: number
+        }
+        Update: {
+          change_note?: string | null
+          created_at?: string
+          id?: string
+          prompt_key?: string
+          system_prompt?: string
+          temperature?: number
+          user_prompt?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      risk_assessment_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          new_level: Database["public"]["Enums"]["risk_level"]
+          new_score: number
+          previous_factors: Json | null
+          previous_level: Database["public"]["Enums"]["risk_level"]
+          previous_score: number
+          rule_versions: Json | null
+          scoring_mode: string | null
+          transaction_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_level: Database["public"]["Enums"]["risk_level"]
+          new_score: number
+          previous_factors?: Json | null
+          previous_level: Database["public"]["Enums"]["risk_level"]
+          previous_score: number
+          rule_versions?: Json | null
+          scoring_mode?: string | null
+          transaction_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_level?: Database["public"]["Enums"]["risk_level"]
+          new_score?: number
+          previous_factors?: Json | null
+          previous_level?: Database["public"]["Enums"]["risk_level"]
+          previous_score?: number
+          rule_versions?: Json | null
+          scoring_mode?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_assessment_history_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       risk_assessments: {
         Row: {
           audit_observation: string | null
           created_at: string
+          explanation_input_hash: string | null
+          explanation_model_id: string | null
+          explanation_prompt_id: string | null
+          explanation_source: string | null
           id: string
           review_notes: string | null
           reviewed: boolean | null
@@ -146,12 +408,18 @@ export type Database = {
           risk_level: Database["public"]["Enums"]["risk_level"]
           risk_reason: string | null
           risk_score: number
+          rule_versions: Json | null
+          scoring_mode: string | null
           suggested_action: string | null
           transaction_id: string
         }
         Insert: {
           audit_observation?: string | null
           created_at?: string
+          explanation_input_hash?: string | null
+          explanation_model_id?: string | null
+          explanation_prompt_id?: string | null
+          explanation_source?: string | null
           id?: string
           review_notes?: string | null
           reviewed?: boolean | null
@@ -161,12 +429,18 @@ export type Database = {
           risk_level: Database["public"]["Enums"]["risk_level"]
           risk_reason?: string | null
           risk_score: number
+          rule_versions?: Json | null
+          scoring_mode?: string | null
           suggested_action?: string | null
           transaction_id: string
         }
         Update: {
           audit_observation?: string | null
           created_at?: string
+          explanation_input_hash?: string | null
+          explanation_model_id?: string | null
+          explanation_prompt_id?: string | null
+          explanation_source?: string | null
           id?: string
           review_notes?: string | null
           reviewed?: boolean | null
@@ -176,10 +450,19 @@ export type Database = {
           risk_level?: Database["public"]["Enums"]["risk_level"]
           risk_reason?: string | null
           risk_score?: number
+          rule_versions?: Json | null
+          scoring_mode?: string | null
           suggested_action?: string | null
           transaction_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "risk_assessments_explanation_prompt_id_fkey"
+            columns: ["explanation_prompt_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "risk_assessments_transaction_id_fkey"
             columns: ["transaction_id"]
@@ -189,6 +472,131 @@ export type Database = {
           },
         ]
       }
+      risk_engine_settings: {
+        Row: {
+          external_ai_allowed: boolean
+          id: boolean
+          scoring_mode: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          external_ai_allowed?: boolean
+          id?: boolean
+          scoring_mode?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          external_ai_allowed?: boolean
+          id?: boolean
+          scoring_mode?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      risk_rule_versions: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          enabled: boolean
+          id: string
+          parameters: Json
+          rule_id: string
+          rule_key: string
+          score: number
+          severity: string
+          version: number
+          weight: number
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          enabled: boolean
+          id?: string
+          parameters: Json
+          rule_id: string
+          rule_key: string
+          score: number
+          severity: string
+          version: number
+          weight?: number
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          parameters?: Json
+          rule_id?: string
+          rule_key?: string
+          score?: number
+          severity?: string
+          version?: number
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_rule_versions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "risk_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_rules: {
+        Row: {
+          created_at: string
+          description: string | null
+          enabled: boolean
+          evaluation_order: number
+          id: string
+          name: string
+          parameters: Json
+          rule_key: string
+          score: number
+          severity: string
+          updated_at: string
+          updated_by: string | null
+          version: number
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          evaluation_order?: number
+          id?: string
+          name: string
+          parameters?: Json
+          rule_key: string
+          score: number
+          severity?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          evaluation_order?: number
+          id?: string
+          name?: string
+          parameters?: Json
+          rule_key?: string
+          score?: number
+          severity?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+          weight?: number
+        }
+        Relationships: []
+      }
       transactions: {
         Row: {
           amount: number
@@ -198,9 +606,12 @@ export type Database = {
           id: string
           payment_method: string
           session_id: string
+          source_row: number | null
+          source_sheet: string | null
           transaction_date: string
           transaction_id: string
           vendor_country: string
+          vendor_country_code: string | null
           vendor_name: string
         }
         Insert: {
@@ -211,9 +622,12 @@ export type Database = {
           id?: string
           payment_method: string
           session_id: string
+          source_row?: number | null
+          source_sheet?: string | null
           transaction_date: string
           transaction_id: string
           vendor_country: string
+          vendor_country_code?: string | null
           vendor_name: string
         }
         Update: {
@@ -224,9 +638,12 @@ export type Database = {
           id?: string
           payment_method?: string
           session_id?: string
+          source_row?: number | null
+          source_sheet?: string | null
           transaction_date?: string
           transaction_id?: string
           vendor_country?: string
+          vendor_country_code?: string | null
           vendor_name?: string
         }
         Relationships: [
@@ -260,11 +677,101 @@ export type Database = {
         }
         Relationships: []
       }
+      watchlist_entries: {
+        Row: {
+          aliases: string[]
+          countries: string[]
+          created_at: string
+          entry_type: string | null
+          external_id: string | null
+          id: string
+          import_id: string
+          name: string
+          programs: string[]
+          remarks: string | null
+          source: string
+        }
+        Insert: {
+          aliases?: string[]
+          countries?: string[]
+          created_at?: string
+          entry_type?: string | null
+          external_id?: string | null
+          id?: string
+          import_id: string
+          name: string
+          programs?: string[]
+          remarks?: string | null
+          source: string
+        }
+        Update: {
+          aliases?: string[]
+          countries?: string[]
+          created_at?: string
+          entry_type?: string | null
+          external_id?: string | null
+          id?: string
+          import_id?: string
+          name?: string
+          programs?: string[]
+          remarks?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watchlist_entries_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "watchlist_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      watchlist_imports: {
+        Row: {
+          created_at: string
+          entry_count: number
+          file_name: string | null
+          id: string
+          imported_by: string | null
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          entry_count?: number
+          file_name?: string | null
+          id?: string
+          imported_by?: string | null
+          source: string
+        }
+        Update: {
+          created_at?: string
+          entry_count?: number
+          file_name?: string | null
+          id?: string
+          imported_by?: string | null
+          source?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      append_session_rows: {
+        Args: { _rows: Json; _session_id: string }
+        Returns: number
+      }
+      apply_session_rescore: {
+        Args: { _assessments: Json; _session_id: string }
+        Returns: Json
+      }
+      country_key: { Args: { _value: string }; Returns: string }
+      finalize_ingested_session: {
+        Args: { _session_id: string }
+        Returns: Json
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -276,6 +783,19 @@ export type Database = {
         }
         Returns: boolean
       }
+      normalize_country: { Args: { _value: string }; Returns: string }
+      store_assessment_explanations: {
+        Args: {
+          _explained_rows?: number
+          _explanations: Json
+          _session_id: string
+        }
+        Returns: undefined
+      }
+      store_session_assessments: {
+        Args: { _assessments: Json; _session_id: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "auditor" | "viewer"
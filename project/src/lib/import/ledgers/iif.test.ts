@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { parseIif } from "./iif";
+import quickbooks from "./__fixtures__/quickbooks.iif?raw";
+
+describe("parseIif", () => {
+  it("reads one entry per TRNS block", () => {
+    const [check] = parseIif(quickbooks);
+
+    expect(check).toEqual({
+      sheet: null,
+      row: 4,
+      reference: "1044",
+      date: "2024-07-16",
+      amount: 59.25,
+      vendor: "Bayshore Water",
+      vendorCountry: "",
+      paymentMethod: "Cheque",
+      costCentre: "Admin",
+      description: "Water, July",
+      documentType: "CHECK",
+    });
+  });
+
+  it("inverts the sign of the TRNS line, which posts to the bank or payables account", () => {
+    const entries = parseIif(quickbooks);
+
+    expect(entries.map((e) => [e.documentType, e.amount])).toEqual([
+      ["CHECK", 59.25],
+      ["BILL", 1250],
+      ["BILL PMT", 1250],
+      ["DEPOSIT", -125],
+    ]);
+  });
+
+  it("falls back to the transaction ID, the line number and the type for missing fields", () => {
+    const [, bill, billPayment, deposit] = parseIif(quickbooks);
+
+    expect(bill).toMatchObject({ reference: "INV-5521", costCentre: "Operations", paymentMethod: "" });
+    expect(billPayment).toMatchObject({ reference: "301", paymentMethod: "Wire" });
+    expect(deposit).toMatchObject({ reference: "IIF-13", paymentMethod: "Deposit", description: "Refund of overcharge" });
+  });
+});
@@ -0,0 +1,74 @@
+import { collapseSpaces } from "../statements/types";
+import { ledgerAmount, ledgerDate, ledgerNumber, type LedgerEntry } from "./types";
+
+// QuickBooks transaction types and the payment method they imply when PAYMETH is not exported
+const PAYMENT_METHODS: Record<string, string> = {
+  CHECK: "Cheque",
+  BILLPMT: "Bill Payment",
+  "BILL PMT": "Bill Payment",
+  "CREDIT CARD": "Credit Card",
+  CCARD: "Credit Card",
+  CASH: "Cash",
+  DEPOSIT: "Deposit",
+  TRANSFER: "Transfer",
+};
+
+interface IifRecord {
+  line: number;
+  values: Record<string, string>;
+}
+
+// Parse a QuickBooks IIF export. Each transaction is a TRNS line, its SPL (split) lines and ENDTRNS;
+// the column layout of each record type is declared by a "!"-prefixed header line.
+export function parseIif(text: string): LedgerEntry[] {
+  const headers = new Map<string, string[]>();
+  const blocks: { trns: IifRecord; splits: IifRecord[] }[] = [];
+  let current: { trns: IifRecord; splits: IifRecord[] } | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const cells = raw.split("\t").map((c) => c.trim().replace(/^"(.*)"$/, "$1"));
+    const type = cells[0]?.toUpperCase() ?? "";
+    if (!type) return;
+    if (type.startsWith("!")) {
+      headers.set(type.slice(1), cells.map((c) => c.toUpperCase()));
+      return;
+    }
+
+    const columns = headers.get(type);
+    const record = {
+      line: index + 1,
+      values: Object.fromEntries((columns ?? []).map((column, i) => [column, cells[i] ?? ""])),
+    };
+    if (type === "TRNS") {
+      current = { trns: record, splits: [] };
+      blocks.push(current);
+    } else if (type === "SPL" && current) {
+      current.splits.push(record);
+    } else if (type === "ENDTRNS") {
+      current = null;
+    }
+  });
+
+  return blocks.map(({ trns, splits }) => {
+    const t = trns.values;
+    const firstSplit = splits[0]?.values ?? {};
+    const type = t.TRNSTYPE ?? "";
+
+    // The TRNS line posts to the bank or payables account, so money paid out is negative there
+    const posted = ledgerNumber(t.AMOUNT);
+
+    return {
+      sheet: null,
+      row: trns.line,
+      reference: t.DOCNUM || t.TRNSID || `IIF-${trns.line}`,
+      date: ledgerDate(t.DATE ?? "", "mdy"),
+      amount: ledgerAmount(posted, posted > 0 ? "in" : "out"),
+      vendor: t.NAME ?? "",
+      vendorCountry: "",
+      paymentMethod: t.PAYMETH || PAYMENT_METHODS[type.toUpperCase()] || "",
+      costCentre: t.CLASS || firstSplit.CLASS || "",
+      description: collapseSpaces(t.MEMO || firstSplit.MEMO || firstSplit.ACCNT || type),
+      documentType: type,
+    };
+  });
+}
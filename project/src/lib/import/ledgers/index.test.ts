@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseStatements } from "../statements";
+import { detectLedgerFormat, parseLedger, type LedgerFormat } from "./index";
+import fbl1n from "./__fixtures__/fbl1n.txt?raw";
+import quickbooks from "./__fixtures__/quickbooks.iif?raw";
+import daybook from "./__fixtures__/tally-daybook.xml?raw";
+
+describe("detectLedgerFormat", () => {
+  it("recognises each format from its content", () => {
+    expect(detectLedgerFormat(daybook)).toBe("tally");
+    expect(detectLedgerFormat(quickbooks)).toBe("iif");
+    expect(detectLedgerFormat(fbl1n)).toBe("sap");
+    expect(detectLedgerFormat("Date,Amount\n2025-01-01,10")).toBeNull();
+  });
+});
+
+// See ledgerAmount: ledgers sign from the vendor's side, bank statements from the account's
+describe("sign convention", () => {
+  const samples: Record<LedgerFormat, string> = { tally: daybook, iif: quickbooks, sap: fbl1n };
+  const amountOf = (format: LedgerFormat, documentType: string) =>
+    parseLedger(samples[format], format).find((e) => e.documentType === documentType)?.amount;
+
+  it("records a payment to a vendor as positive in every ledger format", () => {
+    expect(amountOf("tally", "Payment")).toBe(125000);
+    expect(amountOf("iif", "BILL PMT")).toBe(1250);
+    expect(amountOf("sap", "KZ")).toBe(11900);
+  });
+
+  it("records money coming back from a vendor as negative in every ledger format", () => {
+    expect(amountOf("tally", "Receipt")).toBe(-5000);
+    expect(amountOf("iif", "DEPOSIT")).toBe(-125);
+    expect(amountOf("sap", "KG")).toBe(-595);
+  });
+
+  it("records the same payment as negative on a bank statement", () => {
+    const statement = [":20:PAY", ":25:ACCOUNT-1", ":60F:C250131EUR20000,00", ":61:250131D11900,00NTRF1500000123"].join("\n");
+    const [bankEntry] = parseStatements(statement, "mt940")[0].entries;
+    const ledgerEntry = parseLedger(fbl1n, "sap").find((e) => e.reference === bankEntry.reference);
+
+    expect(bankEntry.amount).toBe(-11900);
+    expect(ledgerEntry?.amount).toBe(11900);
+  });
+});
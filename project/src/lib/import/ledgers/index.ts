@@ -0,0 +1,40 @@
+import { parseIif } from "./iif";
+import { parseSapList } from "./sap";
+import { parseTallyXml } from "./tally";
+import type { LedgerEntry, LedgerFormat } from "./types";
+
+export type { LedgerEntry, LedgerFormat } from "./types";
+export { findSapHeader, sapFromGrid } from "./sap";
+
+export const LEDGER_FORMAT_LABELS: Record<LedgerFormat, string> = {
+  tally: "Tally XML",
+  iif: "QuickBooks IIF",
+  sap: "SAP FBL1N",
+};
+
+// Columns a ledger export is presented with; like the statement columns, their names match the
+// mapping aliases so no column mapping has to be built by hand
+export const LEDGER_COLUMNS: { header: string; value: (entry: LedgerEntry) => unknown }[] = [
+  { header: "Reference", value: (e) => e.reference },
+  { header: "Date", value: (e) => e.date },
+  { header: "Amount", value: (e) => e.amount },
+  { header: "Vendor", value: (e) => e.vendor },
+  { header: "Vendor Country", value: (e) => e.vendorCountry },
+  { header: "Payment Method", value: (e) => e.paymentMethod },
+  { header: "Cost Centre", value: (e) => e.costCentre },
+  { header: "Description", value: (e) => e.description },
+  { header: "Document Type", value: (e) => e.documentType },
+];
+
+// Recognise a text export from its content; spreadsheet FBL1N layouts are recognised by findSapHeader
+export function detectLedgerFormat(text: string): LedgerFormat | null {
+  const head = text.slice(0, 4096);
+  if (/<ENVELOPE>/i.test(head) && /<TALLYMESSAGE|<VOUCHER[\s>]/i.test(text)) return "tally";
+  if (/^!TRNS\t/m.test(head)) return "iif";
+  if (/^\s*\|/m.test(head) && parseSapList(text.slice(0, 65536)).length > 0) return "sap";
+  return null;
+}
+
+export function parseLedger(text: string, format: LedgerFormat): LedgerEntry[] {
+  return format === "tally" ? parseTallyXml(text) : format === "iif" ? parseIif(text) : parseSapList(text);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { findSapHeader, parseSapList, sapFromGrid } from "./sap";
+import fbl1n from "./__fixtures__/fbl1n.txt?raw";
+
+describe("parseSapList", () => {
+  it("reads FBL1N list output with the vendor from the group headings", () => {
+    const entries = parseSapList(fbl1n);
+
+    expect(entries).toHaveLength(4);
+    expect(entries[0]).toEqual({
+      sheet: null,
+      row: 9,
+      reference: "5100004711",
+      date: "2025-01-03",
+      amount: 11900,
+      vendor: "Muster Maschinenbau GmbH",
+      vendorCountry: "",
+      paymentMethod: "",
+      costCentre: "4100",
+      description: "Wartung Q1",
+      documentType: "RE",
+    });
+    expect(entries[3]).toMatchObject({ reference: "5100004802", vendor: "Alpha Supplies Ltd", amount: 2380.5 });
+  });
+
+  it("keeps invoices and payments positive and makes credit memos negative", () => {
+    const entries = parseSapList(fbl1n);
+
+    expect(entries.map((e) => [e.documentType, e.amount])).toEqual([
+      ["RE", 11900],
+      ["KZ", 11900],
+      ["KG", -595],
+      ["KR", 2380.5],
+    ]);
+  });
+
+  it("skips subtotal lines and repeated headings", () => {
+    const references = parseSapList(fbl1n).map((e) => e.reference);
+
+    expect(references).toEqual(["5100004711", "1500000123", "5100004790", "5100004802"]);
+  });
+});
+
+describe("sapFromGrid", () => {
+  it("reads a spreadsheet export with Excel serial dates", () => {
+    const grid = [
+      ["Vendor line items"],
+      ["Vendor", "Name 1", "Document Number", "Document Type", "Posting Date", "Amount in local currency", "Country"],
+      ["100200", "Muster Maschinenbau GmbH", "5100004711", "RE", 45660, -11900, "DE"],
+      ["", "", "", "", "", -11900, ""],
+    ];
+
+    expect(findSapHeader(grid)).toBe(1);
+    expect(sapFromGrid(grid, 1, { sheet: "FBL1N", rowAt: (i) => i + 1 })).toEqual([
+      {
+        sheet: "FBL1N",
+        row: 3,
+        reference: "5100004711",
+        date: "2025-01-03",
+        amount: 11900,
+        vendor: "Muster Maschinenbau GmbH",
+        vendorCountry: "DE",
+        paymentMethod: "",
+        costCentre: "",
+        description: "",
+        documentType: "RE",
+      },
+    ]);
+  });
+});
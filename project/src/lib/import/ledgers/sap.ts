@@ -0,0 +1,146 @@
+import * as XLSX from "xlsx";
+import { collapseSpaces } from "../statements/types";
+import { ledgerAmount, ledgerDate, ledgerNumber, type LedgerEntry } from "./types";
+
+type SapField =
+  | "reference"
+  | "amount"
+  | "postingDate"
+  | "documentDate"
+  | "costCentre"
+  | "paymentMethod"
+  | "text"
+  | "vendorName"
+  | "vendorAccount"
+  | "country"
+  | "documentType";
+
+// FBL1N column headings in the English and German layouts, including the short list-output forms,
+// compared lower-cased with everything but letters and digits removed. The first heading matched wins.
+const SAP_HEADERS: Record<SapField, string[]> = {
+  reference: ["documentno", "documentnumber", "docno", "docnumber", "belegnr", "belegnummer"],
+  amount: ["amountinlc", "amountinlocalcurrency", "amtinloccur", "betraginhw", "amountindoccurr", "amountindc", "betraginbw", "amount", "betrag"],
+  postingDate: ["pstngdate", "postingdate", "pstgdate", "buchdat", "buchungsdatum"],
+  documentDate: ["docdate", "documentdate", "belegdatum", "belegdat"],
+  costCentre: ["costctr", "costcenter", "costcentre", "kostenstelle", "kostl"],
+  paymentMethod: ["pm", "pymtmeth", "paymentmethod", "pmtmeth", "zahlweg", "zw"],
+  text: ["text", "itemtext", "positionstext"],
+  vendorName: ["name1", "name", "vendorname", "nameofvendor", "kreditorname"],
+  vendorAccount: ["vendor", "account", "kreditor", "konto"],
+  country: ["country", "ctr", "cty", "land"],
+  documentType: ["typ", "type", "documenttype", "doctype", "belegart", "art"],
+};
+
+type SapColumns = Partial<Record<SapField, number>>;
+
+// Document types of vendor payments (manual and payment run); they clear the payable with a debit
+const PAYMENT_DOCUMENT_TYPES = ["KZ", "ZP"];
+
+const normalize = (cell: unknown) => String(cell ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function matchColumns(cells: unknown[]): SapColumns | null {
+  const names = cells.map(normalize);
+  const columns: SapColumns = {};
+  for (const [field, aliases] of Object.entries(SAP_HEADERS) as [SapField, string[]][]) {
+    for (const alias of aliases) {
+      const index = names.indexOf(alias);
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[field] = index;
+        break;
+      }
+    }
+  }
+  // A document number, an amount and a date are what make a row an FBL1N heading
+  const dated = columns.postingDate !== undefined || columns.documentDate !== undefined;
+  return columns.reference !== undefined && columns.amount !== undefined && dated ? columns : null;
+}
+
+// Index of the FBL1N heading row in the first rows of a grid, or -1
+export function findSapHeader(grid: unknown[][]): number {
+  return grid.slice(0, 20).findIndex((cells) => matchColumns(cells) !== null);
+}
+
+// Spreadsheet cells hold dates as Excel serial numbers, the list output as DD.MM.YYYY text
+function sapDate(value: unknown): string {
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (parsed) return `${parsed.y}-${String(parsed.m).padStart(2, "0")}-${String(parsed.d).padStart(2, "0")}`;
+  }
+  return ledgerDate(String(value ?? ""));
+}
+
+const cellText = (cells: unknown[], index: number | undefined) =>
+  index === undefined ? "" : String(cells[index] ?? "").trim();
+
+// Read FBL1N line items from a grid whose heading row is at headerIndex. rowAt gives the source row
+// number of a grid index; vendorAt gives the vendor of a row when the layout groups items under a
+// vendor heading instead of repeating it on each line.
+export function sapFromGrid(
+  grid: unknown[][],
+  headerIndex: number,
+  options: { sheet: string | null; rowAt: (index: number) => number; vendorAt?: (index: number) => string },
+): LedgerEntry[] {
+  const columns = matchColumns(grid[headerIndex] ?? []);
+  if (!columns) return [];
+
+  const entries: LedgerEntry[] = [];
+  grid.forEach((cells, index) => {
+    if (index <= headerIndex) return;
+    const reference = cellText(cells, columns.reference);
+    const amount = ledgerNumber(cells[columns.amount!]);
+    // Subtotal and total lines have no document number; repeated heading lines do not parse as amounts
+    if (!reference || Number.isNaN(amount)) return;
+
+    const date = cellText(cells, columns.postingDate) ? cells[columns.postingDate!] : cells[columns.documentDate ?? -1];
+    const vendor = cellText(cells, columns.vendorName) || options.vendorAt?.(index) || cellText(cells, columns.vendorAccount);
+    const documentType = cellText(cells, columns.documentType);
+    // Invoices are credits on the vendor account; debits are payments, unless they are credit memos or refunds
+    const paidOrOwed = amount < 0 || PAYMENT_DOCUMENT_TYPES.includes(documentType.toUpperCase());
+    entries.push({
+      sheet: options.sheet,
+      row: options.rowAt(index),
+      reference,
+      date: sapDate(date),
+      amount: ledgerAmount(amount, paidOrOwed ? "out" : "in"),
+      vendor,
+      vendorCountry: cellText(cells, columns.country),
+      paymentMethod: cellText(cells, columns.paymentMethod),
+      costCentre: cellText(cells, columns.costCentre),
+      description: collapseSpaces(cellText(cells, columns.text)),
+      documentType,
+    });
+  });
+  return entries;
+}
+
+// Vendor group headings printed above each block of items in the list output
+const VENDOR_LINE = /^\s*(?:Vendor|Kreditor|Lieferant)\s*:?\s+(\S+)(?:\s{2,}(.+?))?\s*$/i;
+const NAME_LINE = /^\s*Name\s*:?\s+(.+?)\s*$/i;
+
+// Parse the "|"-delimited list output of FBL1N (List > Save > File, unconverted or spreadsheet)
+export function parseSapList(text: string): LedgerEntry[] {
+  const grid: string[][] = [];
+  const lines: number[] = [];
+  const vendors: string[] = [];
+  let vendor = "";
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const vendorMatch = VENDOR_LINE.exec(line);
+    const nameMatch = NAME_LINE.exec(line);
+    if (vendorMatch) vendor = vendorMatch[2] ?? vendorMatch[1];
+    else if (nameMatch && !line.includes("|")) vendor = nameMatch[1];
+    if (!line.trimStart().startsWith("|") || /^\s*\|[-\s|]*$/.test(line)) return;
+
+    grid.push(line.trim().replace(/^\||\|$/g, "").split("|").map((c) => c.trim()));
+    lines.push(index + 1);
+    vendors.push(vendor);
+  });
+
+  const headerIndex = findSapHeader(grid);
+  if (headerIndex === -1) return [];
+  return sapFromGrid(grid, headerIndex, {
+    sheet: null,
+    rowAt: (i) => lines[i],
+    vendorAt: (i) => vendors[i],
+  });
+}
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseTallyXml } from "./tally";
+import daybook from "./__fixtures__/tally-daybook.xml?raw";
+
+describe("parseTallyXml", () => {
+  it("reads a day book export", () => {
+    const [payment] = parseTallyXml(daybook);
+
+    expect(payment).toEqual({
+      sheet: "Sharma Traders Pvt Ltd",
+      row: 1,
+      reference: "Payment/14",
+      date: "2025-04-05",
+      amount: 125000,
+      vendor: "Mehta Steel Works",
+      vendorCountry: "",
+      paymentMethod: "NEFT",
+      costCentre: "Production",
+      // The control character Tally escaped as &#4; is dropped
+      description: "Being payment against bill 118",
+      documentType: "Payment",
+    });
+  });
+
+  it("signs by voucher type, whatever the debit or credit side", () => {
+    const entries = parseTallyXml(daybook);
+
+    expect(entries.map((e) => [e.documentType, e.amount])).toEqual([
+      ["Payment", 125000],
+      ["Receipt", -5000],
+      ["Purchase", 84000],
+      ["Debit Note", -6000],
+      ["Journal", 1500],
+    ]);
+  });
+
+  it("takes the country from the ledger masters", () => {
+    const purchase = parseTallyXml(daybook)[2];
+
+    expect(purchase).toMatchObject({
+      reference: "Purchase/GC/2025/77",
+      vendor: "Global Components LLC",
+      vendorCountry: "United States of America",
+      description: "Purchase GC/2025/77",
+    });
+  });
+
+  it("falls back to the first debited ledger and the GUID without a party or number", () => {
+    const journal = parseTallyXml(daybook)[4];
+
+    expect(journal).toMatchObject({ vendor: "Office Expenses", reference: "a1b2c3d4-0005" });
+  });
+
+  it("rejects a file that is not XML", () => {
+    expect(() => parseTallyXml("<ENVELOPE><VOUCHER>")).toThrow("The Tally export is not valid XML");
+  });
+});
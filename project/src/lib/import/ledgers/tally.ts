@@ -0,0 +1,76 @@
+import { collapseSpaces } from "../statements/types";
+import { ledgerAmount, ledgerDate, ledgerNumber, type LedgerEntry } from "./types";
+
+// Voucher types that bring money back from a party; every other type pays or owes it
+const INCOMING_VOUCHER_TYPES = ["receipt", "debit note", "sales", "credit note received"];
+
+const children = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter((c) => c.tagName === name) : [];
+
+const text = (el: Element | null | undefined, name: string) => (children(el, name)[0]?.textContent ?? "").trim();
+
+// Tally writes ledger entries as ALLLEDGERENTRIES.LIST or LEDGERENTRIES.LIST depending on the voucher
+const ledgerEntries = (voucher: Element) => [
+  ...children(voucher, "ALLLEDGERENTRIES.LIST"),
+  ...children(voucher, "LEDGERENTRIES.LIST"),
+];
+
+// Tally escapes control characters as numeric references, which XML 1.0 does not allow
+const stripInvalidReferences = (xml: string) => xml.replace(/&#(x0*[0-8bcef]|x0*1[0-9a-f]|0*(?:[0-8]|1[124-9]|2\d|3[01]));/gi, "");
+
+// Parse a Tally Prime / Tally.ERP 9 XML export of vouchers (Day Book, ledger vouchers and similar)
+export function parseTallyXml(xml: string): LedgerEntry[] {
+  const doc = new DOMParser().parseFromString(stripInvalidReferences(xml), "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The Tally export is not valid XML");
+  }
+
+  const company = (doc.getElementsByTagName("SVCURRENTCOMPANY")[0]?.textContent ?? "").trim() || null;
+
+  // Ledger masters exported alongside the vouchers give the party's country
+  const countries = new Map<string, string>();
+  for (const ledger of Array.from(doc.getElementsByTagName("LEDGER"))) {
+    const name = ledger.getAttribute("NAME") ?? text(ledger, "NAME");
+    const country = text(ledger, "COUNTRYOFRESIDENCE") || text(ledger, "COUNTRYNAME");
+    if (name && country) countries.set(name.trim().toUpperCase(), country);
+  }
+
+  return Array.from(doc.getElementsByTagName("VOUCHER")).map((voucher, index) => {
+    const entries = ledgerEntries(voucher);
+    const type = text(voucher, "VOUCHERTYPENAME") || voucher.getAttribute("VCHTYPE") || "";
+    const number = text(voucher, "VOUCHERNUMBER");
+
+    // The party ledger line carries the voucher amount; without a party, the first debited line does
+    const partyName = text(voucher, "PARTYLEDGERNAME");
+    const partyEntry =
+      entries.find((e) => partyName && text(e, "LEDGERNAME") === partyName) ??
+      entries.find((e) => text(e, "ISDEEMEDPOSITIVE") === "Yes") ??
+      entries[0];
+    const vendor = partyName || text(partyEntry, "LEDGERNAME");
+
+    // Tally signs amounts by debit and credit, so the direction comes from the voucher type instead
+    const amount = ledgerNumber(text(partyEntry, "AMOUNT"));
+    const incoming = INCOMING_VOUCHER_TYPES.includes(type.toLowerCase());
+
+    // Cost centre allocations sit under the ledger lines; the first one is taken
+    const costCentre =
+      (voucher.getElementsByTagName("COSTCENTREALLOCATIONS.LIST")[0]?.getElementsByTagName("NAME")[0]?.textContent ?? "").trim();
+    const bank = voucher.getElementsByTagName("BANKALLOCATIONS.LIST")[0];
+    const paymentMethod = text(bank, "TRANSACTIONTYPE") || text(bank, "PAYMENTMODE");
+
+    return {
+      sheet: company,
+      row: index + 1,
+      // Voucher numbers restart for each voucher type
+      reference: number ? `${type ? `${type}/` : ""}${number}` : text(voucher, "REFERENCE") || text(voucher, "GUID"),
+      date: ledgerDate(text(voucher, "DATE")),
+      amount: ledgerAmount(amount, incoming ? "in" : "out"),
+      vendor,
+      vendorCountry: countries.get(vendor.toUpperCase()) ?? "",
+      paymentMethod,
+      costCentre,
+      description: collapseSpaces(text(voucher, "NARRATION") || [type, number].filter(Boolean).join(" ")),
+      documentType: type,
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { ledgerAmount, ledgerDate, ledgerNumber } from "./types";
+
+describe("ledgerNumber", () => {
+  it.each([
+    ["1.234,56", 1234.56],
+    ["1,234.56", 1234.56],
+    ["1.234.567,8", 1234567.8],
+    ["1,234,567.8", 1234567.8],
+    ["12'345.60", 12345.6],
+    ["1 234,50", 1234.5],
+    ["0,5", 0.5],
+    ["1250", 1250],
+  ])("reads %s with either separator convention", (text, expected) => {
+    expect(ledgerNumber(text)).toBe(expected);
+  });
+
+  it("takes a separator followed by three digits as a thousands separator", () => {
+    expect(ledgerNumber("1.234")).toBe(1234);
+    expect(ledgerNumber("1,234")).toBe(1234);
+    expect(ledgerNumber("1.000.000")).toBe(1000000);
+  });
+
+  it("reads trailing, leading and bracketed minus signs", () => {
+    expect(ledgerNumber("1.234,56-")).toBe(-1234.56);
+    expect(ledgerNumber("-1,234.56")).toBe(-1234.56);
+    expect(ledgerNumber("(500.00)")).toBe(-500);
+  });
+
+  it("passes numbers through and rejects blanks and text", () => {
+    expect(ledgerNumber(-42.5)).toBe(-42.5);
+    expect(ledgerNumber("")).toBeNaN();
+    expect(ledgerNumber(undefined)).toBeNaN();
+    expect(ledgerNumber("Amount in LC")).toBeNaN();
+  });
+});
+
+describe("ledgerDate", () => {
+  it("reads SAP, Tally and QuickBooks dates", () => {
+    expect(ledgerDate("03.01.2025")).toBe("2025-01-03");
+    expect(ledgerDate("20250405")).toBe("2025-04-05");
+    expect(ledgerDate("7/16/2024", "mdy")).toBe("2024-07-16");
+    expect(ledgerDate("16/07/24")).toBe("2024-07-16");
+  });
+
+  it("returns anything else unchanged for validation to report", () => {
+    expect(ledgerDate("31.13.2025")).toBe("31.13.2025");
+    expect(ledgerDate("next week")).toBe("next week");
+  });
+});
+
+describe("ledgerAmount", () => {
+  it("makes money paid or owed positive and money coming back negative", () => {
+    expect(ledgerAmount(-1250, "out")).toBe(1250);
+    expect(ledgerAmount(1250, "out")).toBe(1250);
+    expect(ledgerAmount(1250, "in")).toBe(-1250);
+    expect(ledgerAmount(-1250, "in")).toBe(-1250);
+  });
+});
@@ -0,0 +1,60 @@
+// One posting read from an accounting-system export, already in the shape of a transaction row;
+// the amount is signed by ledgerAmount
+export interface LedgerEntry {
+  // Company, sheet or similar the entry belongs to; null when the export has no such grouping
+  sheet: string | null;
+  // Line or record number in the export, for tracing the row back to the source
+  row: number;
+  reference: string;
+  date: string;
+  amount: number;
+  vendor: string;
+  vendorCountry: string;
+  paymentMethod: string;
+  costCentre: string;
+  description: string;
+  documentType: string;
+}
+
+export type LedgerFormat = "tally" | "iif" | "sap";
+
+// The sign convention of imported amounts. Ledger entries are positive for what is paid or owed to a
+// vendor (bills, invoices, payments) and negative for money coming back (receipts, refunds, credit
+// memos), whatever the debit/credit side of the export. Bank statements are signed from the account's
+// view instead (StatementEntry.amount), so the same payment is negative there. The risk rules compare
+// magnitudes, so both kinds of import score alike.
+export const ledgerAmount = (amount: number, direction: "out" | "in") =>
+  direction === "in" ? -Math.abs(amount) : Math.abs(amount);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// DD.MM.YYYY (SAP), YYYYMMDD (Tally) or M/D/YYYY (QuickBooks) to ISO; anything else is returned
+// unchanged for the validation step to report
+export function ledgerDate(value: string, order: "dmy" | "mdy" = "dmy"): string {
+  const text = value.trim();
+  let match = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = /^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/.exec(text);
+  if (!match) return text;
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const [day, month] = order === "dmy" ? [first, second] : [second, first];
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return text;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// SAP list amounts put the sign at the end ("1.234,56-") and use either separator convention
+export function ledgerNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  let text = String(value ?? "").replace(/\s/g, "");
+  if (!text) return NaN;
+
+  const negative = text.endsWith("-") || text.startsWith("-") || /^\(.*\)$/.test(text);
+  text = text.replace(/^[-(]|[-)]$/g, "");
+  // The last separator is the decimal one when it is followed by one or two digits
+  const decimal = /[.,](\d{1,2})$/.exec(text);
+  const whole = decimal ? text.slice(0, decimal.index) : text;
+  const n = Number(`${whole.replace(/[.,']/g, "")}${decimal ? `.${decimal[1]}` : ""}`);
+  return negative ? -n : n;
+}
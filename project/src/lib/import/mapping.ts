@@ -0,0 +1,93 @@
+export interface ParsedTransaction {
+  // Worksheet and row number in the source file; together they make re-sent chunks idempotent
+  source_sheet: string | null;
+  source_row: number;
+  transaction_id: string;
+  transaction_date: string;
+  amount: number;
+  vendor_name: string;
+  vendor_country: string;
+  payment_method: string;
+  department: string;
+  description: string;
+}
+
+export type TargetField = Exclude<keyof ParsedTransaction, "source_sheet" | "source_row">;
+
+// Target field -> source header
+export type ColumnMapping = Partial<Record<TargetField, string>>;
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
+}
+
+interface TargetFieldDefinition {
+  key: TargetField;
+  label: string;
+  required: boolean;
+  // Header spellings recognised without a profile, compared after normalizeHeader
+  aliases: string[];
+}
+
+export const TARGET_FIELDS: TargetFieldDefinition[] = [
+  { key: "transaction_id", label: "Transaction ID", required: true, aliases: ["transactionid", "txn", "txnid", "reference"] },
+  { key: "transaction_date", label: "Date", required: true, aliases: ["date", "transactiondate", "paymentdate", "valuedate"] },
+  { key: "amount", label: "Amount", required: true, aliases: ["amount"] },
+  { key: "vendor_name", label: "Vendor Name", required: true, aliases: ["vendorname", "vendor", "payee", "supplier", "counterparty"] },
+  { key: "vendor_country", label: "Vendor Country", required: false, aliases: ["vendorcountry", "country", "counterpartycountry"] },
+  { key: "payment_method", label: "Payment Method", required: false, aliases: ["paymentmethod", "method", "transactiontype"] },
+  { key: "department", label: "Department", required: false, aliases: ["department", "costcentre", "costcenter"] },
+  { key: "description", label: "Description", required: false, aliases: ["description", "narration", "memo"] },
+];
+
+// "Vendor_Name", "Vendor Name" and "vendor name" all compare as "vendorname"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Guess a mapping from the known header spellings; each header is used at most once
+export function detectMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of TARGET_FIELDS) {
+    const header = headers.find((h) => !used.has(h) && field.aliases.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): TargetFieldDefinition[] {
+  return TARGET_FIELDS.filter((field) => field.required && !mapping[field.key]);
+}
+
+// Drop mapped headers that the file does not have
+export function restrictMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  return Object.fromEntries(
+    Object.entries(mapping).filter(([, header]) => header && headers.includes(header))
+  ) as ColumnMapping;
+}
+
+// A profile matches when every header it maps is present in the file; the closest header layout wins
+export function findMatchingProfile(profiles: ImportProfile[], headers: string[]): ImportProfile | null {
+  const available = new Set(headers);
+  let best: ImportProfile | null = null;
+  let bestScore = -1;
+
+  for (const profile of profiles) {
+    const mapped = Object.values(profile.mapping).filter(Boolean) as string[];
+    if (mapped.length === 0 || !mapped.every((h) => available.has(h))) continue;
+    if (missingRequiredFields(profile.mapping).length > 0) continue;
+
+    const shared = profile.headers.filter((h) => available.has(h)).length;
+    const score = shared - Math.abs(profile.headers.length - headers.length);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,207 @@
+import * as XLSX from "xlsx";
+import {
+  LEDGER_COLUMNS,
+  LEDGER_FORMAT_LABELS,
+  detectLedgerFormat,
+  findSapHeader,
+  parseLedger,
+  sapFromGrid,
+  type LedgerEntry,
+} from "./ledgers";
+import {
+  STATEMENT_COLUMNS,
+  STATEMENT_FORMAT_LABELS,
+  detectStatementFormat,
+  parseStatements,
+} from "./statements";
+
+// One data row of the uploaded file, keyed by header
+export interface SheetRow {
+  // Worksheet the row came from; null for CSV files, which have no sheet names
+  sheet: string | null;
+  // Row number in the source sheet (the header is usually row 1)
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export interface WorkbookSheet {
+  name: string;
+  // Upper bound taken from the sheet's used range; blank rows are only dropped when it is read
+  rowCount: number;
+}
+
+// Bank statement or accounting-system export the file was recognised as
+export interface FileFormat {
+  kind: "statement" | "ledger";
+  label: string;
+}
+
+// A spreadsheet, or a statement or ledger export presented as sheets with fixed columns
+export interface Workbook {
+  sheets: WorkbookSheet[];
+  // Null for plain spreadsheets
+  format: FileFormat | null;
+  read: (name: string) => ParsedSheet;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === "";
+
+// Header names are trimmed; blank or repeated headers get a positional name so every column stays addressable
+function uniqueHeaders(cells: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return cells.map((cell, index) => {
+    const base = isBlank(cell) ? `Column ${index + 1}` : String(cell).trim();
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+}
+
+const SPREADSHEET_EXTENSIONS = ["csv", "xlsx", "xls"];
+
+// Read one sheet: the first non-empty row is the header row. namedSheet is false for CSV files,
+// whose single sheet name is made up by the parser and not worth storing.
+function readSpreadsheetSheet(book: XLSX.WorkBook, name: string, namedSheet: boolean): ParsedSheet {
+  const sheet = book.Sheets[name];
+  if (!sheet) return { headers: [], rows: [] };
+
+  // Blank rows are kept so each grid index maps to a sheet row, then dropped below
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", blankrows: true });
+  const firstRow = XLSX.utils.decode_range(sheet["!ref"] ?? "A1").s.r + 1;
+
+  // FBL1N line item lists exported to Excel are read with the SAP adapter instead of a column mapping
+  const sapHeader = findSapHeader(grid);
+  if (sapHeader !== -1) {
+    const entries = sapFromGrid(grid, sapHeader, {
+      sheet: namedSheet ? name : null,
+      rowAt: (index) => firstRow + index,
+    });
+    return ledgerSheet(entries);
+  }
+
+  const headerIndex = grid.findIndex((cells) => cells.some((cell) => !isBlank(cell)));
+  if (headerIndex === -1) return { headers: [], rows: [] };
+
+  const headers = uniqueHeaders(grid[headerIndex]);
+  const rows = grid
+    .map((cells, index) => ({ cells, row: firstRow + index }))
+    .slice(headerIndex + 1)
+    .filter(({ cells }) => cells.some((cell) => !isBlank(cell)))
+    .map(({ cells, row }) => ({
+      sheet: namedSheet ? name : null,
+      row,
+      values: Object.fromEntries(headers.map((header, i) => [header, cells[i]])),
+    }));
+
+  return { headers, rows };
+}
+
+function ledgerSheet(entries: LedgerEntry[]): ParsedSheet {
+  return {
+    headers: LEDGER_COLUMNS.map((c) => c.header),
+    rows: entries.map((entry) => ({
+      sheet: entry.sheet,
+      row: entry.row,
+      values: Object.fromEntries(LEDGER_COLUMNS.map((c) => [c.header, c.value(entry)])),
+    })),
+  };
+}
+
+// Text exports come as UTF-8 or, from Tally and some Windows tools, as UTF-16 with or without a BOM
+async function readText(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+  if (bytes.length > 1 && bytes[0] !== 0 && bytes[1] === 0) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes.length > 1 && bytes[0] === 0 && bytes[1] !== 0) return new TextDecoder("utf-16be").decode(bytes);
+  return new TextDecoder().decode(bytes);
+}
+
+// Bank statements: each account is a sheet, the account identifier is stored as the sheet name and
+// entries are numbered from 1 in file order
+function readStatementText(text: string): Workbook | null {
+  const format = detectStatementFormat(text);
+  if (!format) return null;
+
+  const statements = parseStatements(text, format);
+  const headers = STATEMENT_COLUMNS.map((c) => c.header);
+  return {
+    sheets: statements.map((s) => ({ name: s.account, rowCount: s.entries.length })),
+    format: { kind: "statement", label: `${STATEMENT_FORMAT_LABELS[format]} statement` },
+    read: (name) => {
+      const statement = statements.find((s) => s.account === name);
+      return {
+        headers,
+        rows: (statement?.entries ?? []).map((entry, index) => ({
+          sheet: name,
+          row: index + 1,
+          values: Object.fromEntries(STATEMENT_COLUMNS.map((c) => [c.header, c.value(entry)])),
+        })),
+      };
+    },
+  };
+}
+
+// Accounting-system exports: a sheet per company for Tally, otherwise one sheet named after the format.
+// Entries keep the line or voucher number they have in the export.
+function readLedgerText(text: string): Workbook | null {
+  const format = detectLedgerFormat(text);
+  if (!format) return null;
+
+  const label = LEDGER_FORMAT_LABELS[format];
+  const groups = new Map<string, LedgerEntry[]>();
+  for (const entry of parseLedger(text, format)) {
+    const name = entry.sheet ?? label;
+    const group = groups.get(name);
+    if (group) group.push(entry);
+    else groups.set(name, [entry]);
+  }
+  return {
+    sheets: [...groups].map(([name, entries]) => ({ name, rowCount: entries.length })),
+    format: { kind: "ledger", label: `${label} export` },
+    read: (name) => ledgerSheet(groups.get(name) ?? []),
+  };
+}
+
+export async function readWorkbook(file: File): Promise<Workbook> {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (!SPREADSHEET_EXTENSIONS.includes(extension)) {
+    const text = await readText(file);
+    const workbook = readStatementText(text) ?? readLedgerText(text);
+    if (!workbook) {
+      throw new Error(
+        "The file is not a recognised bank statement (MT940, camt.053, OFX) or ledger export (Tally XML, QuickBooks IIF, SAP FBL1N)",
+      );
+    }
+    return workbook;
+  }
+
+  const book = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const sheets = book.SheetNames.map((name) => {
+    const ref = book.Sheets[name]?.["!ref"];
+    const range = ref ? XLSX.utils.decode_range(ref) : null;
+    return { name, rowCount: range ? range.e.r - range.s.r : 0 };
+  });
+  const namedSheets = extension !== "csv";
+  return { sheets, format: null, read: (name) => readSpreadsheetSheet(book, name, namedSheets) };
+}
+
+// Read the chosen sheets as one table. Headers are merged in order of first appearance, so sheets
+// with the same layout (one per month or entity) map with a single column mapping.
+export function readSheets(workbook: Workbook, names: string[]): ParsedSheet {
+  const headers: string[] = [];
+  const rows: SheetRow[] = [];
+  for (const name of names) {
+    const parsed = workbook.read(name);
+    for (const header of parsed.headers) {
+      if (!headers.includes(header)) headers.push(header);
+    }
+    rows.push(...parsed.rows);
+  }
+  return { headers, rows };
+}
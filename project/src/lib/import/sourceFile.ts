@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Private Storage bucket holding the original uploaded files
+export const SOURCE_FILE_BUCKET = "source-files";
+
+// What is stored on the session to identify the archived original
+export interface SourceFile {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+// An earlier session created from a file with the same content
+export interface PreviousUpload {
+  id: string;
+  file_name: string;
+  created_at: string;
+}
+
+export async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Storage keys only allow a limited character set, so the rest of the file name is replaced
+const storageName = (fileName: string) => fileName.replace(/[^\w.\- ()]/g, "_").slice(-200) || "file";
+
+// Sessions of this user made from a file with the given hash, newest first
+export async function findPreviousUploads(userId: string, sha256: string): Promise<PreviousUpload[]> {
+  const { data, error } = await supabase
+    .from("analysis_sessions")
+    .select("id, file_name, created_at")
+    .eq("user_id", userId)
+    .eq("source_file_sha256", sha256)
+    .order("created_at", { ascending: false })
+    .limit(5);
+  if (error) throw error;
+  return data;
+}
+
+// Upload the original file once; an identical file uploaded before maps to the same object and is
+// not sent again
+export async function archiveSourceFile(userId: string, file: File, sha256: string): Promise<SourceFile> {
+  const path = `${userId}/${sha256}/${storageName(file.name)}`;
+  const { error } = await supabase.storage
+    .from(SOURCE_FILE_BUCKET)
+    .upload(path, file, { upsert: false, contentType: file.type || "application/octet-stream" });
+  if (error && (error as { statusCode?: string }).statusCode !== "409") {
+    console.error("Failed to archive source file:", error);
+    throw new Error("The original file could not be archived. Please try again.");
+  }
+  return { path, sha256, size: file.size };
+}
+
+// Save the archived original of a session under its stored file name
+export async function downloadSourceFile(path: string) {
+  const { data, error } = await supabase.storage.from(SOURCE_FILE_BUCKET).download(path);
+  if (error || !data) {
+    console.error("Failed to download source file:", error);
+    throw new Error("The original file could not be downloaded");
+  }
+
+  const url = URL.createObjectURL(data);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = path.split("/").pop() ?? "source-file";
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
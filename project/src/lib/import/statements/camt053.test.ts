@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { parseCamt053 } from "./camt053";
+import sample from "./__fixtures__/camt053.xml?raw";
+
+describe("parseCamt053", () => {
+  it("reads the account and its booked entries", () => {
+    const [statement] = parseCamt053(sample);
+
+    expect(statement.account).toBe("DE89370400440532013000");
+    // The pending entry is left out and the batch is split into its two transactions
+    expect(statement.entries.map((e) => e.reference)).toEqual([
+      "INV-2025-0117",
+      "2025013000124",
+      "PAY-881",
+      "PAY-882",
+      "2025013100011",
+    ]);
+  });
+
+  it("takes the creditor of a debit and the debtor of a credit as counterparty", () => {
+    const [debit, credit] = parseCamt053(sample)[0].entries;
+
+    expect(debit).toEqual({
+      reference: "INV-2025-0117",
+      valueDate: "2025-01-31",
+      bookingDate: "2025-01-30",
+      amount: -4760,
+      currency: "EUR",
+      counterparty: "Muster Maschinenbau GmbH",
+      counterpartyAccount: "DE44500105175407324931",
+      counterpartyCountry: "DE",
+      type: "PMNT/ICDT/ESCT",
+      description: "Invoice 2025-0117 Maintenance January",
+    });
+    expect(credit).toMatchObject({
+      valueDate: "2025-01-30",
+      amount: 1250.5,
+      counterparty: "Societe Exemple SARL",
+      // No postal address: the country comes from the IBAN
+      counterpartyCountry: "FR",
+      description: "RF18539007547034",
+    });
+  });
+
+  it("splits a batch by transaction amount and keeps the proprietary code", () => {
+    const batch = parseCamt053(sample)[0].entries.slice(2, 4);
+
+    expect(batch.map((e) => [e.counterparty, e.amount, e.counterpartyCountry, e.type])).toEqual([
+      ["Alpha Supplies Ltd", -600, "GB", "NTRF+191"],
+      ["Beta Services BV", -300, "NL", "NTRF+191"],
+    ]);
+    expect(batch[0].description).toBe("SAMMLER 2 POSTEN");
+  });
+
+  it("flips the direction of a reversal", () => {
+    const reversal = parseCamt053(sample)[0].entries[4];
+
+    expect(reversal.amount).toBe(-75);
+    expect(reversal.valueDate).toBe("2025-01-31");
+  });
+
+  it("rejects a file that is not XML", () => {
+    expect(() => parseCamt053("<Document><BkToCstmrStmt>")).toThrow("The statement file is not valid XML");
+  });
+});
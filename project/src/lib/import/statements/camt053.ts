@@ -0,0 +1,118 @@
+import { collapseSpaces, countryFromAccount, type BankStatement, type StatementEntry } from "./types";
+
+// Child elements are matched by local name so every camt.053 schema version (and namespace) reads the same
+const children = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter((c) => c.localName === name) : [];
+
+const child = (el: Element | null | undefined, ...path: string[]): Element | null => {
+  let current: Element | null = el ?? null;
+  for (const name of path) {
+    current = children(current, name)[0] ?? null;
+    if (!current) return null;
+  }
+  return current;
+};
+
+const text = (el: Element | null | undefined, ...path: string[]) => (child(el, ...path)?.textContent ?? "").trim();
+
+// <Dt>2025-01-31</Dt> or <DtTm>2025-01-31T10:00:00</DtTm>
+const dateOf = (el: Element | null) => (text(el, "Dt") || text(el, "DtTm")).slice(0, 10);
+
+const accountId = (el: Element | null) => text(el, "Id", "IBAN") || text(el, "Id", "Othr", "Id");
+
+// Party name, postal country and account on either the debtor or the creditor side.
+// Newer schema versions wrap the party in <Pty>.
+function party(details: Element | null, role: "Dbtr" | "Cdtr") {
+  const parties = child(details, "RltdPties");
+  const el = child(parties, role, "Pty") ?? child(parties, role);
+  const account = accountId(child(parties, `${role}Acct`));
+  const agent = child(details, "RltdAgts", `${role}Agt`, "FinInstnId");
+  const bic = text(agent, "BICFI") || text(agent, "BIC");
+  return {
+    name: collapseSpaces(text(el, "Nm")),
+    account,
+    country: text(el, "PstlAdr", "Ctry").toUpperCase() || text(el, "CtryOfRes").toUpperCase() || countryFromAccount(account, bic),
+  };
+}
+
+// Bank transaction code: ISO domain/family/sub-family, or the bank's proprietary code
+function transactionCode(el: Element | null): string {
+  const code = child(el, "BkTxCd");
+  const domain = child(code, "Domn");
+  if (domain) {
+    return [text(domain, "Cd"), text(domain, "Fmly", "Cd"), text(domain, "Fmly", "SubFmlyCd")].filter(Boolean).join("/");
+  }
+  return text(code, "Prtry", "Cd");
+}
+
+function remittance(details: Element | null): string {
+  const info = child(details, "RmtInf");
+  const unstructured = children(info, "Ustrd").map((u) => u.textContent ?? "");
+  const structured = children(info, "Strd").map((s) => text(s, "CdtrRefInf", "Ref"));
+  return collapseSpaces([...unstructured, ...structured, text(details, "AddtlTxInf")].filter(Boolean).join(" "));
+}
+
+// One row per booked entry, or per transaction inside a batch-booked entry
+function readEntry(entry: Element, currency: string): StatementEntry[] {
+  const status = text(entry, "Sts", "Cd") || text(entry, "Sts");
+  if (status && status !== "BOOK") return [];
+
+  // A reversal flips the direction of the original entry
+  const debit = (text(entry, "CdtDbtInd") === "DBIT") !== (text(entry, "RvslInd") === "true");
+  const bookingDate = dateOf(child(entry, "BookgDt"));
+  const valueDate = dateOf(child(entry, "ValDt")) || bookingDate;
+  const entryAmount = Number(text(entry, "Amt"));
+  const entryCurrency = child(entry, "Amt")?.getAttribute("Ccy") || currency;
+  const details = children(child(entry, "NtryDtls"), "TxDtls");
+
+  const row = (tx: Element | null, amount: number, amountCurrency: string): StatementEntry => {
+    // On a debit the other side is the creditor, on a credit the debtor
+    const counterparty = party(tx, debit ? "Cdtr" : "Dbtr");
+    const refs = child(tx, "Refs");
+    const reference =
+      [text(refs, "EndToEndId"), text(refs, "TxId"), text(refs, "AcctSvcrRef"), text(entry, "AcctSvcrRef"), text(entry, "NtryRef")]
+        .find((r) => r && r !== "NOTPROVIDED") ?? "";
+    return {
+      reference,
+      valueDate,
+      bookingDate,
+      amount: debit ? -amount : amount,
+      currency: amountCurrency,
+      counterparty: counterparty.name,
+      counterpartyAccount: counterparty.account,
+      counterpartyCountry: counterparty.country,
+      type: transactionCode(tx) || transactionCode(entry),
+      description: collapseSpaces([remittance(tx), text(entry, "AddtlNtryInf")].filter(Boolean).join(" ")),
+    };
+  };
+
+  // A batch is split only when every transaction carries its own amount
+  const amounts = details.map((tx) => child(tx, "AmtDtls", "TxAmt", "Amt") ?? child(tx, "Amt"));
+  if (details.length <= 1 || amounts.some((amount) => !amount)) {
+    return [row(details.length === 1 ? details[0] : null, entryAmount, entryCurrency)];
+  }
+
+  return details.map((tx, i) =>
+    row(tx, Number((amounts[i]?.textContent ?? "").trim()), amounts[i]?.getAttribute("Ccy") || entryCurrency)
+  );
+}
+
+// Parse an ISO 20022 camt.053 bank-to-customer statement; one file may hold several <Stmt>
+export function parseCamt053(xml: string): BankStatement[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The statement file is not valid XML");
+  }
+
+  const report = child(doc.documentElement, "BkToCstmrStmt");
+  return children(report, "Stmt")
+    .map((stmt) => {
+      const account = child(stmt, "Acct");
+      const currency = text(account, "Ccy");
+      return {
+        account: accountId(account) || text(stmt, "Id"),
+        entries: children(stmt, "Ntry").flatMap((entry) => readEntry(entry, currency)),
+      };
+    })
+    .filter((s) => s.entries.length > 0);
+}
@@ -0,0 +1,38 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { detectStatementFormat, parseStatements } from "./index";
+import abnAmro from "./__fixtures__/abn-amro.sta?raw";
+import camt053 from "./__fixtures__/camt053.xml?raw";
+import sgml from "./__fixtures__/checking-sgml.ofx?raw";
+import xml from "./__fixtures__/checking-xml.ofx?raw";
+import commerzbank from "./__fixtures__/commerzbank.sta?raw";
+
+describe("detectStatementFormat", () => {
+  it("recognises each format from its content", () => {
+    expect(detectStatementFormat(commerzbank)).toBe("mt940");
+    expect(detectStatementFormat(abnAmro)).toBe("mt940");
+    expect(detectStatementFormat(camt053)).toBe("camt053");
+    expect(detectStatementFormat(sgml)).toBe("ofx");
+    expect(detectStatementFormat(xml)).toBe("ofx");
+    expect(detectStatementFormat("Date,Amount\n2025-01-01,10")).toBeNull();
+  });
+});
+
+describe("parseStatements", () => {
+  it("merges messages for the same account in file order", () => {
+    const text = [
+      ":20:DAY1",
+      ":25:ACCOUNT-1",
+      ":60F:C250101EUR0,00",
+      ":61:250101D10,00NTRFFIRST",
+      ":20:DAY2",
+      ":25:ACCOUNT-1",
+      ":60F:C250102EUR0,00",
+      ":61:250102D20,00NTRFSECOND",
+    ].join("\n");
+
+    const statements = parseStatements(text, "mt940");
+    expect(statements).toHaveLength(1);
+    expect(statements[0].entries.map((e) => e.reference)).toEqual(["FIRST", "SECOND"]);
+  });
+});
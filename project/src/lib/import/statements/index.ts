@@ -0,0 +1,51 @@
+import { parseCamt053 } from "./camt053";
+import { parseMt940 } from "./mt940";
+import { parseOfx } from "./ofx";
+import type { BankStatement, StatementEntry, StatementFormat } from "./types";
+
+export type { BankStatement, StatementEntry, StatementFormat } from "./types";
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  mt940: "SWIFT MT940",
+  camt053: "ISO 20022 camt.053",
+  ofx: "OFX",
+};
+
+// Columns a statement is presented with; their names match the mapping aliases, so the
+// column mapping is detected without a profile
+export const STATEMENT_COLUMNS: { header: string; value: (entry: StatementEntry) => unknown }[] = [
+  { header: "Reference", value: (e) => e.reference },
+  { header: "Value Date", value: (e) => e.valueDate },
+  { header: "Booking Date", value: (e) => e.bookingDate },
+  { header: "Amount", value: (e) => e.amount },
+  { header: "Currency", value: (e) => e.currency },
+  { header: "Counterparty", value: (e) => e.counterparty },
+  { header: "Counterparty Account", value: (e) => e.counterpartyAccount },
+  { header: "Counterparty Country", value: (e) => e.counterpartyCountry },
+  { header: "Transaction Type", value: (e) => e.type },
+  { header: "Description", value: (e) => e.description },
+];
+
+// Recognise the format from the content, so the file extension does not matter
+export function detectStatementFormat(text: string): StatementFormat | null {
+  const head = text.slice(0, 4096);
+  if (/<Document[\s>]/.test(head) && /camt\.053|<BkToCstmrStmt>/.test(text.slice(0, 65536))) return "camt053";
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/^:20:/m.test(head) && /^:61:/m.test(text)) return "mt940";
+  return null;
+}
+
+// Parse a statement file into one statement per account. Several statements for the same
+// account (e.g. daily MT940 messages) are merged in file order.
+export function parseStatements(text: string, format: StatementFormat): BankStatement[] {
+  const parsed = format === "mt940" ? parseMt940(text) : format === "camt053" ? parseCamt053(text) : parseOfx(text);
+
+  const byAccount = new Map<string, BankStatement>();
+  for (const statement of parsed) {
+    const account = statement.account || "Statement";
+    const existing = byAccount.get(account);
+    if (existing) existing.entries.push(...statement.entries);
+    else byAccount.set(account, { account, entries: [...statement.entries] });
+  }
+  return [...byAccount.values()];
+}
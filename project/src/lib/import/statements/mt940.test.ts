@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { parseMt940 } from "./mt940";
+import abnAmro from "./__fixtures__/abn-amro.sta?raw";
+import commerzbank from "./__fixtures__/commerzbank.sta?raw";
+
+const message = (...lines: string[]) =>
+  [":20:TEST", ":25:DE89370400440532013000", ":60F:C250101EUR0,00", ...lines, ":62F:C250101EUR0,00"].join("\n");
+
+describe("parseMt940", () => {
+  it("reads a German statement with ?NN subfields", () => {
+    const [statement] = parseMt940(commerzbank);
+
+    expect(statement.account).toBe("37040044/0532013000");
+    expect(statement.entries).toHaveLength(3);
+    expect(statement.entries[0]).toEqual({
+      reference: "COB20251231001",
+      valueDate: "2025-12-31",
+      bookingDate: "2026-01-02",
+      amount: -1250,
+      currency: "EUR",
+      counterparty: "Muster Maschinenbau GmbH und Co KG",
+      counterpartyAccount: "DE44500105175407324931",
+      counterpartyCountry: "DE",
+      type: "NMSC",
+      description: "SEPA-UEBERWEISUNG EREF+INV-2025-118 SVWZ+Rechnung 2025-118 Wartung Dezember",
+    });
+    expect(statement.entries[1]).toMatchObject({
+      reference: "ORD-7781",
+      amount: 3400,
+      counterparty: "Beispiel Handel AG",
+      counterpartyAccount: "DE89370400440532013000",
+    });
+  });
+
+  it("keeps free-text :86: information as the description", () => {
+    const entry = parseMt940(commerzbank)[0].entries[2];
+
+    expect(entry.description).toBe("Kontofuehrungsgebuehr Dezember 2025");
+    expect(entry.counterparty).toBe("");
+    // No customer or bank reference: the message reference and the line's position stand in
+    expect(entry.reference).toBe("STARTUMSE-3");
+  });
+
+  it("reads /KEY/ subfields and skips NOTPROVIDED references", () => {
+    const [statement] = parseMt940(abnAmro);
+
+    expect(statement.account).toBe("NL91ABNA0417164300");
+    expect(statement.entries[0]).toMatchObject({
+      reference: "ABN AMRO BANK NV-1",
+      amount: -25.03,
+      counterparty: "KANTOORMAN BV",
+      counterpartyAccount: "NL44RABO0123456789",
+      counterpartyCountry: "NL",
+      description: "Factuur 2025-0042",
+    });
+    expect(statement.entries[1]).toMatchObject({
+      reference: "E2E-5521",
+      amount: 1000,
+      counterparty: "Antwerp Trading NV",
+      counterpartyCountry: "BE",
+    });
+  });
+
+  it("signs debits and reversed credits as money out", () => {
+    const amounts = parseMt940(abnAmro)[0].entries.map((e) => e.amount);
+
+    // D, C, RC (reversed credit) and RD (reversed debit)
+    expect(amounts).toEqual([-25.03, 1000, -150, 75.5]);
+  });
+
+  it("places the entry date in the year around the value date", () => {
+    const [statement] = parseMt940(
+      message(
+        ":61:2512310102D10,00NTRFNONREF",
+        ":61:2601021231C20,00NTRFNONREF",
+        ":61:2506150616D30,00NTRFNONREF",
+        ":61:250615D40,00NTRFNONREF"
+      )
+    );
+
+    expect(statement.entries.map((e) => [e.valueDate, e.bookingDate])).toEqual([
+      ["2025-12-31", "2026-01-02"],
+      ["2026-01-02", "2025-12-31"],
+      ["2025-06-15", "2025-06-16"],
+      ["2025-06-15", "2025-06-15"],
+    ]);
+  });
+
+  it("reads the funds code, decimal comma and bank reference of a statement line", () => {
+    const [entry] = parseMt940(message(":61:250101C1234,5NTRFCUST-1//BANK-1")).map((s) => s.entries[0]);
+
+    expect(entry).toMatchObject({ reference: "CUST-1", amount: 1234.5, currency: "EUR", type: "NTRF" });
+    expect(parseMt940(message(":61:250101DR99,NCHKNONREF//BANK-2"))[0].entries[0]).toMatchObject({
+      reference: "BANK-2",
+      amount: -99,
+      type: "NCHK",
+    });
+  });
+});
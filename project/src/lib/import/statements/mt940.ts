@@ -0,0 +1,178 @@
+import { collapseSpaces, countryFromAccount, isoDate, type BankStatement, type StatementEntry } from "./types";
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+// :61: statement line - value date, optional entry date, debit/credit mark, optional funds code,
+// amount, transaction type, customer reference, optional //bank reference
+const STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[DC])([A-Z])?(\d+(?:,\d*)?)([NSF][A-Z0-9]{3})([^/\n]{0,16})(?:\/\/([^\n]{0,16}))?(?:\n([\s\S]*))?/;
+
+const year2 = (yy: string) => {
+  const n = Number(yy);
+  return n < 80 ? 2000 + n : 1900 + n;
+};
+
+// Split the message text into tagged fields; lines without a tag continue the previous field.
+// SWIFT envelope lines ({1:...}{4:, -}) and message separators are skipped.
+function readFields(text: string): Field[] {
+  const fields: Field[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/\s+$/, "");
+    const tagged = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagged) fields.push({ tag: tagged[1], value: tagged[2] });
+    else if (fields.length > 0 && line && line !== "-" && !line.startsWith("-}") && !line.startsWith("{")) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+// :86: information to account owner. German banks use ?NN subfields, others /KEY/value pairs,
+// the rest free text. Continuation subfields (?20-?29, ?60-?63, ?32/?33) are cut at a fixed length,
+// often mid-word, so they are joined without a separator unless one starts a SEPA keyword (EREF+, SVWZ+).
+function readInformation(text: string): {
+  counterparty: string;
+  account: string;
+  bic: string;
+  reference: string;
+  description: string;
+} {
+  const info = text.replace(/\n/g, "");
+
+  if (/^\d{3}\?/.test(info)) {
+    const sub = new Map<string, string>();
+    for (const [, code, value] of info.matchAll(/\?(\d{2})([^?]*)/g)) {
+      sub.set(code, (sub.get(code) ?? "") + value);
+    }
+    const join = (codes: string[]) =>
+      codes
+        .map((c) => sub.get(c) ?? "")
+        .reduce((joined, part) => (joined && /^[A-Z]{4}\+/.test(part) ? `${joined} ${part}` : joined + part), "");
+    return {
+      counterparty: collapseSpaces(join(["32", "33"])),
+      account: (sub.get("31") ?? "").trim(),
+      bic: (sub.get("30") ?? "").trim(),
+      reference: "",
+      description: collapseSpaces(
+        `${sub.get("00") ?? ""} ${join(["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"])}`
+      ),
+    };
+  }
+
+  if (/\/(NAME|REMI|IBAN|ORDP|BENM)\//.test(info)) {
+    const pairs = new Map<string, string>();
+    const parts = info.split(/\/([A-Z]{2,4})\//);
+    for (let i = 1; i < parts.length; i += 2) pairs.set(parts[i], (parts[i + 1] ?? "").replace(/\/+$/, ""));
+    const counterparty = pairs.get("NAME") ?? (pairs.get("ORDP") || pairs.get("BENM") || "").split("/")[0];
+    return {
+      counterparty: collapseSpaces(counterparty),
+      account: (pairs.get("IBAN") ?? pairs.get("ACCT") ?? "").trim(),
+      bic: (pairs.get("BIC") ?? "").trim(),
+      reference: [(pairs.get("EREF") ?? "").trim()].find((r) => r !== "NOTPROVIDED") ?? "",
+      description: collapseSpaces(pairs.get("REMI") ?? pairs.get("EREF") ?? ""),
+    };
+  }
+
+  return { counterparty: "", account: "", bic: "", reference: "", description: collapseSpaces(info) };
+}
+
+function readStatementLine(value: string, currency: string): StatementEntry | null {
+  const match = STATEMENT_LINE.exec(value);
+  if (!match) return null;
+  const [, yy, mm, dd, entryDate, mark, , amountText, typeCode, customerRef, bankRef, supplementary] = match;
+
+  const valueDate = isoDate(year2(yy), Number(mm), Number(dd));
+  // The entry date has no year; it can fall in the year before or after the value date around new year
+  let bookingDate = valueDate;
+  if (entryDate) {
+    const entryMm = entryDate.slice(0, 2);
+    const entryDd = entryDate.slice(2);
+    let year = year2(yy);
+    if (Number(entryMm) === 12 && Number(mm) === 1) year--;
+    if (Number(entryMm) === 1 && Number(mm) === 12) year++;
+    bookingDate = isoDate(year, Number(entryMm), Number(entryDd)) || valueDate;
+  }
+
+  // Debits and reversed credits take money out of the account
+  const amount = Number(amountText.replace(",", "."));
+  const outgoing = mark === "D" || mark === "RC";
+  const reference = [customerRef.trim(), (bankRef ?? "").trim()].find((r) => r && r !== "NONREF") ?? "";
+
+  return {
+    reference,
+    valueDate,
+    bookingDate,
+    amount: outgoing ? -amount : amount,
+    currency,
+    counterparty: "",
+    counterpartyAccount: "",
+    counterpartyCountry: "",
+    type: typeCode,
+    description: collapseSpaces(supplementary ?? ""),
+  };
+}
+
+// Parse SWIFT MT940 customer statements; a file may hold several messages, each starting with :20:.
+// Lines without any reference get the message reference and their position in the message.
+export function parseMt940(text: string): BankStatement[] {
+  const statements: BankStatement[] = [];
+  const messageRefs = new Map<BankStatement, string>();
+  let current: BankStatement | null = null;
+  let currency = "";
+  let last: StatementEntry | null = null;
+
+  for (const { tag, value } of readFields(text)) {
+    switch (tag) {
+      case "20":
+        current = { account: "", entries: [] };
+        statements.push(current);
+        messageRefs.set(current, value.trim());
+        currency = "";
+        last = null;
+        break;
+      case "25":
+        if (current) current.account = value.trim();
+        break;
+      case "60F":
+      case "60M":
+        // Opening balance: mark, date, currency, amount
+        currency = value.slice(7, 10);
+        break;
+      case "61": {
+        const entry = readStatementLine(value, currency);
+        if (current && entry) {
+          current.entries.push(entry);
+          last = entry;
+        } else {
+          last = null;
+        }
+        break;
+      }
+      case "86":
+        // Belongs to the :61: line directly before it; a trailing :86: describes the whole statement
+        if (last) {
+          const info = readInformation(value);
+          last.counterparty = info.counterparty;
+          last.counterpartyAccount = info.account;
+          last.counterpartyCountry = countryFromAccount(info.account, info.bic);
+          last.description = collapseSpaces([info.description, last.description].filter(Boolean).join(" "));
+          if (!last.reference) last.reference = info.reference;
+          last = null;
+        }
+        break;
+      default:
+        last = null;
+    }
+  }
+
+  for (const statement of statements) {
+    statement.entries.forEach((entry, index) => {
+      if (!entry.reference) entry.reference = `${messageRefs.get(statement)}-${index + 1}`;
+    });
+  }
+
+  return statements.filter((s) => s.entries.length > 0);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseOfx } from "./ofx";
+import sgml from "./__fixtures__/checking-sgml.ofx?raw";
+import xml from "./__fixtures__/checking-xml.ofx?raw";
+
+describe("parseOfx", () => {
+  it.each([
+    ["OFX 1.x (SGML)", sgml],
+    ["OFX 2.x (XML)", xml],
+  ])("reads %s", (_, text) => {
+    const [statement] = parseOfx(text);
+
+    expect(statement.account).toBe("4412558901");
+    expect(statement.entries).toEqual([
+      {
+        reference: "20250103-0001",
+        valueDate: "2025-01-03",
+        bookingDate: "2025-01-03",
+        amount: -1250,
+        currency: "USD",
+        counterparty: "Acme Office Supply & Co",
+        counterpartyAccount: "",
+        counterpartyCountry: "",
+        type: "CHECK",
+        description: "Invoice 7781",
+      },
+      {
+        reference: "20250110-0002",
+        valueDate: "2025-01-11",
+        bookingDate: "2025-01-10",
+        amount: 3400.5,
+        currency: "USD",
+        counterparty: "Northwind Traders",
+        counterpartyAccount: "",
+        counterpartyCountry: "",
+        type: "CREDIT",
+        description: "Order 5521 payment",
+      },
+      {
+        reference: "20250115-0003",
+        valueDate: "2025-01-15",
+        bookingDate: "2025-01-15",
+        amount: -89.9,
+        currency: "USD",
+        counterparty: "Contoso Ltd",
+        counterpartyAccount: "",
+        counterpartyCountry: "CAN",
+        type: "DEBIT",
+        description: "Subscription",
+      },
+    ]);
+  });
+
+  it("reads the SGML and XML forms of the same statement alike", () => {
+    expect(parseOfx(sgml)).toEqual(parseOfx(xml));
+  });
+
+  it("reads credit card statements", () => {
+    const text = [
+      "<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><CURDEF>GBP",
+      "<CCACCTFROM><ACCTID>5555********4444</CCACCTFROM>",
+      "<BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250201<TRNAMT>-42.00<FITID>CC-1<NAME>Rail Ltd</STMTTRN></BANKTRANLIST>",
+      "</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>",
+    ].join("\n");
+
+    expect(parseOfx(text)).toEqual([
+      {
+        account: "5555********4444",
+        entries: [expect.objectContaining({ reference: "CC-1", amount: -42, currency: "GBP", counterparty: "Rail Ltd" })],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { collapseSpaces, isoDate, type BankStatement, type StatementEntry } from "./types";
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+const decode = (value: string) =>
+  value.replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (match, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCodePoint(Number(name.slice(1)));
+    return ENTITIES[name.toLowerCase()] ?? match;
+  });
+
+// Works for both OFX 1.x (SGML, leaf elements are not closed) and OFX 2.x (XML):
+// a leaf value runs from its opening tag to the next tag or line break
+const field = (block: string, tag: string) => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match ? decode(match[1]).trim() : "";
+};
+
+const blocks = (text: string, tag: string) =>
+  Array.from(text.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi")), (m) => m[1]);
+
+// YYYYMMDD, optionally followed by a time and time zone
+const dateOf = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? isoDate(Number(match[1]), Number(match[2]), Number(match[3])) : "";
+};
+
+// Amounts may use a decimal comma
+const amountOf = (value: string) => Number(value.replace(/\s/g, "").replace(",", "."));
+
+function readTransaction(block: string, currency: string): StatementEntry {
+  const payee = blocks(block, "PAYEE")[0];
+  const bookingDate = dateOf(field(block, "DTPOSTED"));
+  return {
+    reference: field(block, "FITID") || field(block, "REFNUM") || field(block, "CHECKNUM"),
+    // DTAVAIL is when the funds are available, the closest OFX has to a value date
+    valueDate: dateOf(field(block, "DTAVAIL")) || bookingDate,
+    bookingDate,
+    // TRNAMT is already signed from the account holder's view
+    amount: amountOf(field(block, "TRNAMT")),
+    currency: field(block, "CURSYM") || currency,
+    counterparty: collapseSpaces(payee ? field(payee, "NAME") : field(block, "NAME")),
+    counterpartyAccount: field(blocks(block, "BANKACCTTO")[0] ?? "", "ACCTID"),
+    counterpartyCountry: payee ? field(payee, "COUNTRY") : "",
+    type: field(block, "TRNTYPE"),
+    description: collapseSpaces(field(block, "MEMO")),
+  };
+}
+
+// Parse OFX bank and credit card statements; one file may hold several accounts
+export function parseOfx(text: string): BankStatement[] {
+  const responses = [...blocks(text, "STMTRS"), ...blocks(text, "CCSTMTRS")];
+  return responses
+    .map((response) => {
+      const from = blocks(response, "BANKACCTFROM")[0] ?? blocks(response, "CCACCTFROM")[0] ?? "";
+      const currency = field(response, "CURDEF");
+      const list = blocks(response, "BANKTRANLIST")[0] ?? "";
+      return {
+        account: field(from, "ACCTID"),
+        entries: blocks(list, "STMTTRN").map((block) => readTransaction(block, currency)),
+      };
+    })
+    .filter((s) => s.entries.length > 0);
+}
@@ -0,0 +1,42 @@
+// One booked entry of a bank statement, already in the shape of a transaction row
+export interface StatementEntry {
+  reference: string;
+  // ISO dates (YYYY-MM-DD); value date falls back to the booking date when the bank omits it
+  valueDate: string;
+  bookingDate: string;
+  // Signed in the account's view: money out is negative, money in positive (see ledgerAmount)
+  amount: number;
+  currency: string;
+  counterparty: string;
+  counterpartyAccount: string;
+  counterpartyCountry: string;
+  type: string;
+  description: string;
+}
+
+export interface BankStatement {
+  // IBAN or other account identifier the statement belongs to
+  account: string;
+  entries: StatementEntry[];
+}
+
+export type StatementFormat = "mt940" | "camt053" | "ofx";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const isoDate = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return "";
+  return `${String(year).padStart(4, "0")}-${pad(month)}-${pad(day)}`;
+};
+
+// Country of a counterparty from its IBAN (first two letters) or BIC (letters five and six)
+export function countryFromAccount(iban: string, bic = ""): string {
+  const account = iban.replace(/\s/g, "").toUpperCase();
+  if (/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(account)) return account.slice(0, 2);
+  const code = bic.replace(/\s/g, "").toUpperCase();
+  if (/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(code)) return code.slice(4, 6);
+  return "";
+}
+
+export const collapseSpaces = (text: string) => text.replace(/\s+/g, " ").trim();
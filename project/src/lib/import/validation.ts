@@ -0,0 +1,182 @@
+import * as XLSX from "xlsx";
+import type { ParsedSheet } from "./sheet";
+import { TARGET_FIELDS, type ColumnMapping, type ParsedTransaction, type TargetField } from "./mapping";
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ImportIssue {
+  field: TargetField;
+  severity: IssueSeverity;
+  message: string;
+}
+
+// One sheet row on its way into transactions. input holds the mapped cell values (or the user's
+// corrections); transaction and issues are always derived from it.
+export interface ImportRow {
+  // Position in the import, unique even when several sheets share row numbers
+  id: number;
+  source_sheet: string | null;
+  source_row: number;
+  input: Partial<Record<TargetField, unknown>>;
+  transaction: ParsedTransaction;
+  issues: ImportIssue[];
+  excluded: boolean;
+}
+
+// Limits mirror the checks in the ingest-session function
+const MAX_LENGTHS: Partial<Record<TargetField, number>> = {
+  vendor_name: 500,
+  description: 2000,
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const label = (field: TargetField) => TARGET_FIELDS.find((f) => f.key === field)?.label ?? field;
+
+const isBlank = (v: unknown) => v === undefined || v === null || String(v).trim() === "";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Sanitize cell content to prevent formula injection
+export const sanitizeCell = (value: string): string => {
+  if (!value || typeof value !== 'string') return value;
+  // Formulas starting with =, +, -, @ can execute in Excel
+  const dangerousPrefix = /^[=+\-@\t\r]/;
+  if (dangerousPrefix.test(value)) {
+    return "'" + value; // Prefix with single quote to treat as text
+  }
+  return value;
+};
+
+type Parsed<T> = { value: T; issue?: Omit<ImportIssue, "field"> };
+
+function parseText(v: unknown): Parsed<string> {
+  const text = isBlank(v) ? "" : String(v).trim();
+  const sanitized = sanitizeCell(text); // Sanitize to prevent formula injection
+  return sanitized === text
+    ? { value: text }
+    : { value: sanitized, issue: { severity: "warning", message: "Starts like a spreadsheet formula; stored as text" } };
+}
+
+// Accepts plain numbers and formatted text such as "₹1,23,456.00" or "$ 1,200". Amounts keep their
+// sign; ledgerAmount (ledgers/types.ts) describes the convention of ledger and statement imports.
+function parseAmount(v: unknown): Parsed<number> {
+  if (isBlank(v)) return { value: 0, issue: { severity: "error", message: "Amount is missing" } };
+
+  const n = typeof v === "number" ? v : Number(String(v).replace(/[\s,₹$€£]/g, ""));
+  if (!Number.isFinite(n)) {
+    return { value: 0, issue: { severity: "error", message: `"${String(v)}" is not a number` } };
+  }
+  return { value: n };
+}
+
+// Handles ISO strings, Excel serial numbers, JS Dates and other text the browser can read as a date
+function parseDate(v: unknown): Parsed<string> {
+  if (isBlank(v)) return { value: "", issue: { severity: "error", message: "Date is missing" } };
+
+  if (v instanceof Date && !Number.isNaN(v.getTime())) {
+    return { value: `${v.getFullYear()}-${pad(v.getMonth() + 1)}-${pad(v.getDate())}` };
+  }
+
+  if (typeof v === "number" && Number.isFinite(v)) {
+    const parsed = XLSX.SSF.parse_date_code(v);
+    if (parsed?.y && parsed?.m && parsed?.d) {
+      return { value: `${String(parsed.y).padStart(4, "0")}-${pad(parsed.m)}-${pad(parsed.d)}` };
+    }
+    return { value: "", issue: { severity: "error", message: `${v} is not a valid date` } };
+  }
+
+  const text = String(v).trim();
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    const d = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    return d.getUTCMonth() === Number(iso[2]) - 1
+      ? { value: text }
+      : { value: "", issue: { severity: "error", message: `"${text}" is not a valid date` } };
+  }
+
+  // Read in the browser's locale, so "03/04/2025" may be March or April - flag it for a check
+  const d = new Date(text);
+  if (Number.isNaN(d.getTime())) {
+    return { value: "", issue: { severity: "error", message: `"${text}" is not a recognised date` } };
+  }
+  const value = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  return { value, issue: { severity: "warning", message: `"${text}" was read as ${value}` } };
+}
+
+// Convert one row's input values into a transaction and list everything wrong with it
+export function convertRow(
+  source: Pick<ImportRow, "source_sheet" | "source_row">,
+  input: Partial<Record<TargetField, unknown>>
+): Pick<ImportRow, "transaction" | "issues"> {
+  const issues: ImportIssue[] = [];
+  const take = <T>(field: TargetField, parsed: Parsed<T>): T => {
+    if (parsed.issue) issues.push({ field, ...parsed.issue });
+    return parsed.value;
+  };
+  const text = (field: TargetField) => take(field, parseText(input[field]));
+
+  const transaction: ParsedTransaction = {
+    source_sheet: source.source_sheet,
+    source_row: source.source_row,
+    transaction_id: text("transaction_id"),
+    transaction_date: take("transaction_date", parseDate(input.transaction_date)),
+    amount: take("amount", parseAmount(input.amount)),
+    vendor_name: text("vendor_name"),
+    vendor_country: text("vendor_country"),
+    payment_method: text("payment_method"),
+    department: text("department"),
+    description: text("description"),
+  };
+
+  for (const field of TARGET_FIELDS) {
+    const value = transaction[field.key];
+    if (field.required && typeof value === "string" && value === "" && !issues.some((i) => i.field === field.key)) {
+      issues.push({ field: field.key, severity: "error", message: `${field.label} is missing` });
+    }
+    const max = MAX_LENGTHS[field.key];
+    if (max && typeof value === "string" && value.length > max) {
+      issues.push({ field: field.key, severity: "error", message: `${field.label} is longer than ${max} characters` });
+    }
+  }
+
+  return { transaction, issues };
+}
+
+// Turn sheet rows into import rows using the mapping; unmapped fields stay empty
+export function buildImportRows(sheet: ParsedSheet, mapping: ColumnMapping): ImportRow[] {
+  return sheet.rows.map(({ sheet: sourceSheet, row, values }, id) => {
+    const input: ImportRow["input"] = {};
+    for (const field of TARGET_FIELDS) {
+      const header = mapping[field.key];
+      if (header) input[field.key] = values[header];
+    }
+    const source = { source_sheet: sourceSheet, source_row: row };
+    return { id, ...source, input, ...convertRow(source, input), excluded: false };
+  });
+}
+
+export const hasErrors = (row: ImportRow) => row.issues.some((i) => i.severity === "error");
+
+// One line per issue with the row's values, for fixing the source file offline
+export function buildIssueCsv(rows: ImportRow[]): string {
+  const quote = (v: unknown) => {
+    const text = isBlank(v) ? "" : sanitizeCell(String(v));
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = ["Sheet", "Row", "Severity", "Field", "Message", ...TARGET_FIELDS.map((f) => f.label), "Excluded"];
+  const lines = rows.flatMap((row) =>
+    row.issues.map((issue) => [
+      row.source_sheet,
+      row.source_row,
+      issue.severity,
+      label(issue.field),
+      issue.message,
+      ...TARGET_FIELDS.map((f) => row.input[f.key]),
+      row.excluded ? "yes" : "no",
+    ])
+  );
+
+  return [header, ...lines].map((line) => line.map(quote).join(",")).join("\r\n");
+}
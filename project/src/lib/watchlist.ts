@@ -0,0 +1,171 @@
+import * as XLSX from "xlsx";
+
+export type WatchlistSource = "OFAC_SDN" | "UN_CONSOLIDATED" | "CUSTOM";
+
+export interface ParsedWatchlistEntry {
+  external_id: string | null;
+  name: string;
+  aliases: string[];
+  entry_type: string | null;
+  programs: string[];
+  countries: string[];
+  remarks: string | null;
+}
+
+export interface ParsedWatchlist {
+  source: WatchlistSource;
+  entries: ParsedWatchlistEntry[];
+}
+
+export const WATCHLIST_SOURCE_LABELS: Record<WatchlistSource, string> = {
+  OFAC_SDN: "OFAC SDN",
+  UN_CONSOLIDATED: "UN Consolidated",
+  CUSTOM: "Custom list",
+};
+
+// OFAC uses "-0-" for empty CSV fields
+const clean = (value: unknown): string => {
+  const text = value === undefined || value === null ? "" : String(value).trim();
+  return text === "-0-" ? "" : text;
+};
+
+const unique = (values: string[]) => [...new Set(values.map(clean).filter(Boolean))];
+
+const joinName = (...parts: (string | null | undefined)[]) => parts.map(clean).filter(Boolean).join(" ");
+
+// Direct child elements by tag name (list XML nests the same tag names at different levels)
+const children = (el: Element, tag: string) => Array.from(el.children).filter((c) => c.localName === tag);
+const childText = (el: Element, tag: string) => clean(children(el, tag)[0]?.textContent);
+const descendantTexts = (el: Element, tag: string) =>
+  Array.from(el.getElementsByTagName(tag)).map((c) => clean(c.textContent));
+
+// OFAC SDN XML (sdn.xml): <sdnList><sdnEntry>...</sdnEntry></sdnList>
+function parseOfacXml(doc: Document): ParsedWatchlistEntry[] {
+  return Array.from(doc.getElementsByTagName("sdnEntry")).map((entry) => {
+    const akas = Array.from(entry.getElementsByTagName("aka")).map((aka) =>
+      joinName(childText(aka, "firstName"), childText(aka, "lastName"))
+    );
+    const countries = [
+      ...Array.from(entry.getElementsByTagName("address")).map((a) => childText(a, "country")),
+      ...Array.from(entry.getElementsByTagName("nationality")).map((n) => childText(n, "country")),
+    ];
+
+    return {
+      external_id: childText(entry, "uid") || null,
+      name: joinName(childText(entry, "firstName"), childText(entry, "lastName")),
+      aliases: unique(akas),
+      entry_type: childText(entry, "sdnType") || null,
+      programs: unique(descendantTexts(entry, "program")),
+      countries: unique(countries),
+      remarks: childText(entry, "remarks") || null,
+    };
+  });
+}
+
+// UN consolidated list XML: <CONSOLIDATED_LIST><INDIVIDUALS>/<ENTITIES>
+function parseUnXml(doc: Document): ParsedWatchlistEntry[] {
+  const individuals = Array.from(doc.getElementsByTagName("INDIVIDUAL")).map((el) => ({
+    external_id: childText(el, "REFERENCE_NUMBER") || childText(el, "DATAID") || null,
+    name: joinName(
+      childText(el, "FIRST_NAME"),
+      childText(el, "SECOND_NAME"),
+      childText(el, "THIRD_NAME"),
+      childText(el, "FOURTH_NAME")
+    ),
+    aliases: unique(children(el, "INDIVIDUAL_ALIAS").map((a) => childText(a, "ALIAS_NAME"))),
+    entry_type: "Individual",
+    programs: unique([childText(el, "UN_LIST_TYPE")]),
+    countries: unique(children(el, "NATIONALITY").flatMap((n) => children(n, "VALUE").map((v) => clean(v.textContent)))),
+    remarks: childText(el, "COMMENTS1") || null,
+  }));
+
+  const entities = Array.from(doc.getElementsByTagName("ENTITY")).map((el) => ({
+    external_id: childText(el, "REFERENCE_NUMBER") || childText(el, "DATAID") || null,
+    name: childText(el, "FIRST_NAME"),
+    aliases: unique(children(el, "ENTITY_ALIAS").map((a) => childText(a, "ALIAS_NAME"))),
+    entry_type: "Entity",
+    programs: unique([childText(el, "UN_LIST_TYPE")]),
+    countries: unique(children(el, "ENTITY_ADDRESS").map((a) => childText(a, "COUNTRY"))),
+    remarks: childText(el, "COMMENTS1") || null,
+  }));
+
+  return [...individuals, ...entities];
+}
+
+// OFAC SDN CSV (sdn.csv) has no header: ent_num, SDN_Name, SDN_Type, Program, Title, ..., Remarks
+function parseOfacCsv(rows: unknown[][]): ParsedWatchlistEntry[] {
+  return rows
+    .filter((row) => clean(row[1]))
+    .map((row) => ({
+      external_id: clean(row[0]) || null,
+      name: clean(row[1]),
+      aliases: [],
+      entry_type: clean(row[2]) || "Entity",
+      // Multiple programs are written as "IRAN] [SDGT"
+      programs: unique(clean(row[3]).split(/\]\s*\[/)),
+      countries: [],
+      remarks: clean(row[11]) || null,
+    }));
+}
+
+// Custom CSV with a header row: Name (required), Aliases (";"-separated), Type, Program, Country, ID, Remarks
+function parseCustomCsv(rows: unknown[][]): ParsedWatchlistEntry[] {
+  const header = (rows[0] || []).map((h) => clean(h).toLowerCase());
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const nameCol = column("name", "entity name", "full name");
+  if (nameCol === -1) {
+    throw new Error("Unrecognised watchlist file. Custom CSV files need a Name column");
+  }
+
+  const cols = {
+    aliases: column("aliases", "alias", "aka"),
+    type: column("type", "entry type"),
+    programs: column("program", "programs", "list"),
+    countries: column("country", "countries"),
+    id: column("id", "reference", "reference number"),
+    remarks: column("remarks", "notes"),
+  };
+  const cell = (row: unknown[], index: number) => (index === -1 ? "" : clean(row[index]));
+  const list = (row: unknown[], index: number) => unique(cell(row, index).split(";"));
+
+  return rows
+    .slice(1)
+    .filter((row) => cell(row, nameCol))
+    .map((row) => ({
+      external_id: cell(row, cols.id) || null,
+      name: cell(row, nameCol),
+      aliases: list(row, cols.aliases),
+      entry_type: cell(row, cols.type) || null,
+      programs: list(row, cols.programs),
+      countries: list(row, cols.countries),
+      remarks: cell(row, cols.remarks) || null,
+    }));
+}
+
+// Detect the list layout from the file contents and parse it
+export async function parseWatchlistFile(file: File): Promise<ParsedWatchlist> {
+  const text = await file.text();
+
+  if (text.trimStart().startsWith("<")) {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length > 0) {
+      throw new Error("The XML file could not be parsed");
+    }
+
+    const root = doc.documentElement.localName;
+    if (root === "sdnList") return { source: "OFAC_SDN", entries: parseOfacXml(doc) };
+    if (root === "CONSOLIDATED_LIST") return { source: "UN_CONSOLIDATED", entries: parseUnXml(doc) };
+    throw new Error("Unrecognised XML layout. Expected an OFAC SDN or UN consolidated list");
+  }
+
+  const workbook = XLSX.read(text, { type: "string", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" });
+
+  // sdn.csv rows start with a numeric entity number and have 12 columns
+  const first = rows[0] || [];
+  if (/^\d+$/.test(clean(first[0])) && first.length >= 12) {
+    return { source: "OFAC_SDN", entries: parseOfacCsv(rows) };
+  }
+  return { source: "CUSTOM", entries: parseCustomCsv(rows) };
+}
@@ -1,8 +1,12 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { FileText, AlertTriangle, CheckCircle, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FileText, AlertTriangle, CheckCircle, TrendingUp, RefreshCw, Play } from "lucide-react";
+import { toast } from "sonner";
+import type { Tables } from "@/integrations/supabase/types";
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip } from "recharts";
 
 export default function Dashboard() {
@@ -14,6 +18,10 @@ export default function Dashboard() {
     recentSessions: [] as any[],
   });
   const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [rerunningSession, setRerunningSession] = useState<string | null>(null);
+  const { user, role } = useAuth();
+  const canRerun = role === "admin" || role === "auditor";
 
   useEffect(() => {
     async function fetchStats() {
@@ -37,7 +45,52 @@ export default function Dashboard() {
       setLoading(false);
     }
     fetchStats();
-  }, []);
+  }, [refreshKey]);
+
+  // Re-score a stored session with the current rule set; review flags and notes are kept
+  const rerunAnalysis = async (sessionId: string) => {
+    setRerunningSession(sessionId);
+    try {
+      const { data, error } = await supabase.functions.invoke("analyze-transactions", {
+        body: { mode: "rerun", sessionId },
+      });
+      if (error) throw error;
+
+      const changes = data?.result?.level_changes ?? 0;
+      toast.success(
+        changes > 0
+          ? `Re-analysis complete: ${changes} transaction${changes === 1 ? "" : "s"} changed risk level`
+          : "Re-analysis complete: no risk levels changed"
+      );
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Re-analysis error:", error);
+      toast.error("Re-analysis failed. Please try again.");
+    } finally {
+      setRerunningSession(null);
+    }
+  };
+
+  // Restart the background analysis of an uploaded session that stopped or failed part-way
+  const resumeAnalysis = async (sessionId: string) => {
+    const { error } = await supabase.functions.invoke("ingest-session", {
+      body: { action: "analyze", sessionId },
+    });
+    if (error) {
+      console.error("Resume error:", error);
+      toast.error("Could not resume the analysis. Please try again.");
+      return;
+    }
+    toast.success("Analysis resumed. Progress is shown on the session.");
+    setRefreshKey((key) => key + 1);
+  };
+
+  // Fully uploaded sessions that are still processing or failed during analysis
+  const canResume = (session: Tables<"analysis_sessions">) =>
+    session.user_id === user?.id &&
+    session.uploaded_rows > 0 &&
+    session.uploaded_rows >= (session.total_transactions ?? 0) &&
+    (session.status === "failed" || (session.status === "processing" && session.stage !== "uploading"));
 
   const riskData = [
     { name: "High", value: stats.highRisk, color: "hsl(var(--danger))" },
@@ -139,11 +192,52 @@ export default function Dashboard() {
                       <p className="font-medium text-sm">{session.file_name}</p>
                       <p className="text-xs text-muted-foreground">
                         {new Date(session.created_at).toLocaleDateString()}
+                        {session.reanalyzed_at &&
+                          ` · re-analysed ${new Date(session.reanalyzed_at).toLocaleDateString()}`}
                       </p>
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex items-center gap-2">
+                      {session.status === "processing" && (
+                        <Badge variant="secondary">
+                          {session.stage === "uploading"
+                            ? `uploading ${session.uploaded_rows}/${session.total_transactions}`
+                            : session.stage === "explaining"
+                              ? "explaining"
+                              : `scoring ${session.analyzed_rows}/${session.total_transactions}`}
+                        </Badge>
+                      )}
+                      {session.status === "failed" && (
+                        <Badge variant="outline" className="border-danger text-danger" title={session.error_message ?? undefined}>
+                          failed
+                        </Badge>
+                      )}
                       <Badge variant="destructive">{session.high_risk_count} high</Badge>
                       <Badge variant="outline">{session.total_transactions} total</Badge>
+                      {canResume(session) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Resume analysis"
+                          onClick={() => resumeAnalysis(session.id)}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canRerun && session.status === "completed" && session.user_id === user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Re-run analysis with the current rules"
+                          disabled={rerunningSession !== null}
+                          onClick={() => rerunAnalysis(session.id)}
+                        >
+                          <RefreshCw
+                            className={`h-4 w-4 ${rerunningSession === session.id ? "animate-spin" : ""}`}
+                          />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
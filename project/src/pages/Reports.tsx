@@ -21,9 +21,12 @@ import {
   AlertTriangle,
   CheckCircle,
   TrendingUp,
+  FileSpreadsheet,
 } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { BenfordAnalysisCard } from "@/components/reports/BenfordAnalysisCard";
+import { downloadSourceFile } from "@/lib/import/sourceFile";
 
 import type { Json } from "@/integrations/supabase/types";
 
@@ -54,6 +57,10 @@ interface AuditReportRow {
   risk_posture: string | null;
   key_risk_themes: Json | null;
   areas_of_attention: Json | null;
+  report_source: string | null;
+  model_id: string | null;
+  input_hash: string | null;
+  prompt_template: { version: number } | null;
   statistics: Json | null;
 }
 
@@ -66,6 +73,10 @@ interface AuditReport {
   risk_posture: string | null;
   key_risk_themes: KeyRiskTheme[] | null;
   areas_of_attention: AreaOfAttention[] | null;
+  report_source: string | null;
+  model_id: string | null;
+  input_hash: string | null;
+  prompt_version: number | null;
   statistics: Statistics | null;
 }
 
@@ -75,6 +86,7 @@ interface AnalysisSession {
   created_at: string;
   status: string | null;
   total_transactions: number | null;
+  source_file_path: string | null;
 }
 
 const Reports = () => {
@@ -102,7 +114,7 @@ const Reports = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("audit_reports")
-        .select("*")
+        .select("*, prompt_template:prompt_templates(version)")
         .eq("user_id", user!.id)
         .order("created_at", { ascending: false });
 
@@ -118,6 +130,10 @@ const Reports = () => {
         risk_posture: row.risk_posture,
         key_risk_themes: row.key_risk_themes as unknown as KeyRiskTheme[] | null,
         areas_of_attention: row.areas_of_attention as unknown as AreaOfAttention[] | null,
+        report_source: row.report_source,
+        model_id: row.model_id,
+        input_hash: row.input_hash,
+        prompt_version: row.prompt_template?.version ?? null,
         statistics: row.statistics as unknown as Statistics | null,
       }));
     },
@@ -133,8 +149,12 @@ const Reports = () => {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
-      toast.success("Report generated successfully");
+    onSuccess: (data) => {
+      toast.success(
+        data?.report_source === "template"
+          ? "Report generated from templates (no AI model was used)"
+          : "Report generated successfully"
+      );
       refetchReports();
     },
     onError: (error) => {
@@ -164,9 +184,37 @@ const Reports = () => {
     toast.success("Report downloaded");
   };
 
+  // Archived original of the report's session, when one was stored
+  const sourcePathOf = (report: AuditReport) =>
+    sessions?.find((s) => s.id === report.session_id)?.source_file_path ?? null;
+
+  const downloadOriginal = async (report: AuditReport) => {
+    const path = sourcePathOf(report);
+    if (!path) return;
+    try {
+      await downloadSourceFile(path);
+      toast.success("Original file downloaded");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download the original file");
+    }
+  };
+
+  // Model, prompt version and input hash recorded when the report was written
+  const describeProvenance = (report: AuditReport) =>
+    [
+      report.model_id && report.model_id !== "template" ? `Model: ${report.model_id}` : null,
+      report.prompt_version !== null ? `Prompt version: ${report.prompt_version}` : null,
+      report.input_hash ? `Input hash (SHA-256): ${report.input_hash}` : null,
+    ]
+      .filter(Boolean)
+      .join(" | ");
+
   const formatReportAsText = (report: AuditReport): string => {
     let text = `${report.title}\n${"=".repeat(50)}\n\n`;
-    text += `Generated: ${format(new Date(report.created_at), "MMMM d, yyyy 'at' h:mm a")}\n\n`;
+    text += `Generated: ${format(new Date(report.created_at), "MMMM d, yyyy 'at' h:mm a")}`;
+    text += report.report_source === "template" ? " (template-generated, no AI model used)\n" : "\n";
+    const provenance = describeProvenance(report);
+    text += provenance ? `${provenance}\n\n` : "\n";
 
     if (report.executive_summary) {
       text += `EXECUTIVE SUMMARY\n${"-".repeat(30)}\n${report.executive_summary}\n\n`;
@@ -277,6 +325,9 @@ const Reports = () => {
         </CardContent>
       </Card>
 
+      {/* Benford's Law analysis for the selected session */}
+      {selectedSession && <BenfordAnalysisCard sessionId={selectedSession} />}
+
       {/* Existing Reports */}
       <div className="space-y-4">
         <h2 className="text-xl font-semibold">Generated Reports</h2>
@@ -296,6 +347,15 @@ const Reports = () => {
                       <p className="text-xs sm:text-sm text-muted-foreground flex items-center gap-2">
                         <Calendar className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
                         {format(new Date(report.created_at), "MMMM d, yyyy 'at' h:mm a")}
+                        {report.report_source && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs font-normal"
+                            title={describeProvenance(report) || undefined}
+                          >
+                            {report.report_source === "template" ? "Template-generated" : "AI-generated"}
+                          </Badge>
+                        )}
                       </p>
                     </div>
                     <div className="flex items-center gap-2 flex-wrap">
@@ -314,6 +374,16 @@ const Reports = () => {
                       >
                         <Download className="h-4 w-4" />
                       </Button>
+                      {sourcePathOf(report) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Download the original uploaded file"
+                          onClick={() => downloadOriginal(report)}
+                        >
+                          <FileSpreadsheet className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -361,7 +431,7 @@ const Reports = () => {
                         <TrendingUp className="h-4 w-4 flex-shrink-0" />
                         Executive Summary
                       </h3>
-                      <p className="text-foreground text-sm sm:text-base leading-relaxed bg-transparent !bg-transparent rounded-none cursor-default hover:bg-transparent">
+                      <p className="text-foreground text-sm sm:text-base leading-relaxed whitespace-pre-line bg-transparent !bg-transparent rounded-none cursor-default hover:bg-transparent">
                         {report.executive_summary}
                       </p>
                     </div>
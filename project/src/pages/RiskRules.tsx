@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Calculator, Save, ShieldAlert, SlidersHorizontal } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { CountryRiskCard } from "@/components/settings/CountryRiskCard";
+import { RuleSimulationCard } from "@/components/settings/RuleSimulationCard";
+
+import type { Json } from "@/integrations/supabase/types";
+
+type Severity = "HIGH" | "MEDIUM";
+type ScoringMode = "strict" | "cumulative";
+
+interface RiskRule {
+  id: string;
+  rule_key: string;
+  name: string;
+  description: string | null;
+  evaluation_order: number;
+  enabled: boolean;
+  severity: Severity;
+  score: number;
+  weight: number;
+  parameters: Record<string, unknown>;
+  version: number;
+  updated_at: string;
+}
+
+type RuleDraft = Pick<RiskRule, "enabled" | "severity" | "score" | "weight" | "parameters">;
+
+const SCORING_MODE_DESCRIPTIONS: Record<ScoringMode, string> = {
+  strict: "Rules run in order and the first triggered rule decides the risk level and score.",
+  cumulative:
+    "Every rule runs. All triggered factors are recorded and their scores are combined using each rule's weight, capped at 100.",
+};
+
+const formatParamLabel = (key: string) =>
+  key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, " ");
+
+// Editor for a single rule parameter, chosen by the type of its current value
+const ParameterField = ({
+  id,
+  name,
+  value,
+  onChange,
+}: {
+  id: string;
+  name: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) => {
+  const [jsonText, setJsonText] = useState(() => JSON.stringify(value, null, 2));
+  const [jsonError, setJsonError] = useState(false);
+
+  if (typeof value === "number") {
+    return (
+      <div className="grid gap-2">
+        <Label htmlFor={id}>{formatParamLabel(name)}</Label>
+        <Input
+          id={id}
+          type="number"
+          value={value}
+          onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+        />
+      </div>
+    );
+  }
+
+  if (typeof value === "boolean") {
+    return (
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+        <Label htmlFor={id}>{formatParamLabel(name)}</Label>
+        <Switch id={id} checked={value} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  if (typeof value === "string") {
+    return (
+      <div className="grid gap-2">
+        <Label htmlFor={id}>{formatParamLabel(name)}</Label>
+        <Input
+          id={id}
+          type={name.endsWith("_date") ? "date" : "text"}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return (
+      <div className="grid gap-2">
+        <Label htmlFor={id}>{formatParamLabel(name)}</Label>
+        <Input
+          id={id}
+          value={value.join(", ")}
+          onChange={(e) =>
+            onChange(
+              e.target.value
+                .split(",")
+                .map((v) => v.trim())
+                .filter(Boolean)
+            )
+          }
+        />
+        <p className="text-sm text-muted-foreground">Comma-separated list</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{formatParamLabel(name)}</Label>
+      <Textarea
+        id={id}
+        value={jsonText}
+        rows={3}
+        className="font-mono text-sm"
+        onChange={(e) => {
+          setJsonText(e.target.value);
+          try {
+            onChange(JSON.parse(e.target.value));
+            setJsonError(false);
+          } catch {
+            setJsonError(true);
+          }
+        }}
+      />
+      {jsonError && <p className="text-sm text-danger">Invalid JSON - changes not applied</p>}
+    </div>
+  );
+};
+
+const RiskRules = () => {
+  const { user, role } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ["risk-rules"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("risk_rules")
+        .select("*")
+        .order("evaluation_order", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        severity: row.severity as Severity,
+        weight: Number(row.weight),
+        parameters: (row.parameters || {}) as Record<string, unknown>,
+      })) as RiskRule[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: scoringMode } = useQuery({
+    queryKey: ["risk-engine-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("risk_engine_settings")
+        .select("scoring_mode")
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.scoring_mode as ScoringMode) || "strict";
+    },
+    enabled: !!user,
+  });
+
+  const updateScoringModeMutation = useMutation({
+    mutationFn: async (mode: ScoringMode) => {
+      const { error } = await supabase
+        .from("risk_engine_settings")
+        .update({ scoring_mode: mode, updated_by: user!.id })
+        .eq("id", true);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["risk-engine-settings"] });
+      toast.success("Scoring mode updated");
+    },
+    onError: () => {
+      toast.error("Failed to update scoring mode");
+    },
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: string; draft: RuleDraft }) => {
+      const { error } = await supabase
+        .from("risk_rules")
+        .update({
+          enabled: draft.enabled,
+          severity: draft.severity,
+          score: draft.score,
+          weight: draft.weight,
+          parameters: draft.parameters as Json,
+          updated_by: user!.id,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { id }) => {
+      setDrafts(({ [id]: _saved, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ["risk-rules"] });
+      toast.success("Rule updated successfully");
+    },
+    onError: () => {
+      toast.error("Failed to update rule");
+    },
+  });
+
+  const getDraft = (rule: RiskRule): RuleDraft =>
+    drafts[rule.id] ?? {
+      enabled: rule.enabled,
+      severity: rule.severity,
+      score: rule.score,
+      weight: rule.weight,
+      parameters: rule.parameters,
+    };
+
+  const updateDraft = (rule: RiskRule, changes: Partial<RuleDraft>) => {
+    setDrafts((prev) => ({ ...prev, [rule.id]: { ...getDraft(rule), ...changes } }));
+  };
+
+  if (role !== "admin") {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
+        <ShieldAlert className="h-12 w-12 mb-4 opacity-50" />
+        <p>Only administrators can manage risk rules</p>
+        <Button variant="link" onClick={() => navigate("/settings")}>
+          Back to Settings
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/settings")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Risk Rules</h1>
+          <p className="text-muted-foreground mt-1">
+            Configure the audit rules applied when transactions are analyzed
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Scoring Mode
+          </CardTitle>
+          <CardDescription>
+            {SCORING_MODE_DESCRIPTIONS[scoringMode || "strict"]}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={scoringMode || "strict"}
+            onValueChange={(mode) => updateScoringModeMutation.mutate(mode as ScoringMode)}
+            disabled={updateScoringModeMutation.isPending}
+          >
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="strict">Strict order (first rule wins)</SelectItem>
+              <SelectItem value="cumulative">Cumulative (weighted sum)</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {rules?.map((rule) => {
+        const draft = getDraft(rule);
+        const isDirty = !!drafts[rule.id];
+
+        return (
+          <Card key={rule.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle className="flex items-center gap-2">
+                    <SlidersHorizontal className="h-5 w-5" />
+                    Rule {rule.evaluation_order}: {rule.name}
+                  </CardTitle>
+                  <CardDescription>{rule.description}</CardDescription>
+                </div>
+                <Switch
+                  checked={draft.enabled}
+                  onCheckedChange={(enabled) => updateDraft(rule, { enabled })}
+                  aria-label={`Enable ${rule.name}`}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <Badge variant="outline" className="font-mono">{rule.rule_key}</Badge>
+                <Badge variant="secondary">Version {rule.version}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  Updated {format(new Date(rule.updated_at), "MMM d, yyyy 'at' h:mm a")}
+                </span>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="grid gap-2">
+                  <Label>Severity</Label>
+                  <Select
+                    value={draft.severity}
+                    onValueChange={(severity) => updateDraft(rule, { severity: severity as Severity })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="HIGH">High</SelectItem>
+                      <SelectItem value="MEDIUM">Medium</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor={`${rule.id}-score`}>Risk Score (0-100)</Label>
+                  <Input
+                    id={`${rule.id}-score`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.score}
+                    onChange={(e) =>
+                      updateDraft(rule, {
+                        score: Math.min(100, Math.max(0, Number(e.target.value) || 0)),
+                      })
+                    }
+                  />
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor={`${rule.id}-weight`}>Weight (cumulative mode)</Label>
+                  <Input
+                    id={`${rule.id}-weight`}
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={draft.weight}
+                    onChange={(e) =>
+                      updateDraft(rule, { weight: Math.max(0, Number(e.target.value) || 0) })
+                    }
+                  />
+                </div>
+              </div>
+
+              {Object.keys(draft.parameters).length > 0 && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {Object.entries(draft.parameters).map(([key, value]) => (
+                    <ParameterField
+                      key={`${rule.id}-${rule.version}-${key}`}
+                      id={`${rule.id}-${key}`}
+                      name={key}
+                      value={value}
+                      onChange={(next) =>
+                        updateDraft(rule, { parameters: { ...draft.parameters, [key]: next } })
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+
+              <Button
+                onClick={() => saveRuleMutation.mutate({ id: rule.id, draft })}
+                disabled={!isDirty || saveRuleMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveRuleMutation.isPending ? "Saving..." : "Save Rule"}
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <RuleSimulationCard
+        rules={(rules || []).map((rule) => ({ rule_key: rule.rule_key, ...getDraft(rule) }))}
+        scoringMode={scoringMode || "strict"}
+        hasDrafts={Object.keys(drafts).length > 0}
+      />
+
+      <CountryRiskCard />
+    </div>
+  );
+};
+
+export default RiskRules;
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
@@ -15,8 +16,13 @@ import {
   Shield,
   Save,
   LogOut,
+  SlidersHorizontal,
 } from "lucide-react";
 import { toast } from "sonner";
+import { HolidayCalendarCard } from "@/components/settings/HolidayCalendarCard";
+import { WatchlistCard } from "@/components/settings/WatchlistCard";
+import { AiProviderCard } from "@/components/settings/AiProviderCard";
+import { PromptTemplatesCard } from "@/components/settings/PromptTemplatesCard";
 
 interface Profile {
   id: string;
@@ -31,6 +37,7 @@ type AppRole = "admin" | "auditor" | "viewer";
 
 const Settings = () => {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
 
   const { data: profile, isLoading: profileLoading } = useQuery({
@@ -278,6 +285,40 @@ const Settings = () => {
         </CardContent>
       </Card>
 
+      {/* Risk Rule Configuration (admins only) */}
+      {userRole === "admin" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Risk Rules
+            </CardTitle>
+            <CardDescription>
+              Enable or disable audit rules and adjust their thresholds, severity and scores
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => navigate("/settings/rules")}>
+              Manage Risk Rules
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sanctions Watchlists (admins only) */}
+      {userRole === "admin" && <WatchlistCard />}
+
+      {/* AI Provider for the organization (admins only) */}
+      {userRole === "admin" && <AiProviderCard organization={profile?.organization ?? null} />}
+
+      {/* Prompt versions used by the AI provider (admins only) */}
+      {userRole === "admin" && <PromptTemplatesCard />}
+
+      {/* Holiday Calendar (auditors and admins) */}
+      {(userRole === "admin" || userRole === "auditor") && (
+        <HolidayCalendarCard organization={profile?.organization ?? null} />
+      )}
+
       {/* Account Actions */}
       <Card>
         <CardHeader>
@@ -21,12 +21,28 @@ import {
   CheckCircle,
   Clock,
   Save,
+  History,
+  ArrowRight,
 } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
 type RiskLevel = "low" | "medium" | "high";
 
+// How the audit observation and suggested action were written
+const EXPLANATION_SOURCE_LABELS: Record<string, string> = {
+  ai: "AI-generated",
+  ai_retry: "AI-generated (retried)",
+  template: "Template-generated",
+};
+
+interface RiskFactor {
+  type: string;
+  description: string;
+  severity: "HIGH" | "MEDIUM";
+  rule_version?: number;
+}
+
 const TransactionDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -41,7 +57,7 @@ const TransactionDetail = () => {
         .from("transactions")
         .select(`
           *,
-          risk_assessment:risk_assessments(*),
+          risk_assessment:risk_assessments(*, explanation_prompt:prompt_templates(version)),
           session:analysis_sessions(file_name)
         `)
         .eq("id", id!)
@@ -63,6 +79,22 @@ const TransactionDetail = () => {
     enabled: !!id,
   });
 
+  // Level changes recorded when the session was re-analysed
+  const { data: history } = useQuery({
+    queryKey: ["risk-assessment-history", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("risk_assessment_history")
+        .select("id, previous_level, new_level, previous_score, new_score, scoring_mode, created_at")
+        .eq("transaction_id", id!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
   const markReviewedMutation = useMutation({
     mutationFn: async (reviewed: boolean) => {
       const { error } = await supabase
@@ -125,6 +157,10 @@ const TransactionDetail = () => {
   const riskAssessment = transaction.risk_assessment;
   const riskLevel = riskAssessment?.risk_level as RiskLevel | undefined;
   const riskScore = riskAssessment?.risk_score || 0;
+  const riskFactors = (Array.isArray(riskAssessment?.risk_factors)
+    ? riskAssessment.risk_factors
+    : []) as unknown as RiskFactor[];
+  const ruleVersions = (riskAssessment?.rule_versions || {}) as Record<string, number>;
 
   const getRiskColor = (level: RiskLevel | undefined) => {
     switch (level) {
@@ -170,6 +206,8 @@ const TransactionDetail = () => {
           </h1>
           <p className="text-muted-foreground mt-1">
             From {(transaction.session as { file_name: string })?.file_name || "Unknown file"}
+            {transaction.source_sheet && ` · sheet "${transaction.source_sheet}"`}
+            {transaction.source_row !== null && ` · row ${transaction.source_row}`}
           </p>
         </div>
       </div>
@@ -222,7 +260,14 @@ const TransactionDetail = () => {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Country</p>
-                  <p className="font-medium">{transaction.vendor_country}</p>
+                  <p className="font-medium">
+                    {transaction.vendor_country}
+                    {transaction.vendor_country_code && (
+                      <span className="ml-2 font-mono text-sm text-muted-foreground">
+                        ({transaction.vendor_country_code})
+                      </span>
+                    )}
+                  </p>
                 </div>
               </div>
 
@@ -311,6 +356,40 @@ const TransactionDetail = () => {
 
                 <Separator />
 
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Triggered Rules</p>
+                  {riskFactors.length > 0 ? (
+                    riskFactors.map((factor, index) => (
+                      <div key={index} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="font-mono text-xs">
+                            {factor.type}
+                          </Badge>
+                          {factor.rule_version !== undefined && (
+                            <span className="text-xs text-muted-foreground">
+                              v{factor.rule_version}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{factor.description}</p>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No rule triggered</p>
+                  )}
+                  {Object.keys(ruleVersions).length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Scored with rule set:{" "}
+                      {Object.entries(ruleVersions)
+                        .map(([key, version]) => `${key} v${version}`)
+                        .join(", ")}
+                      {riskAssessment.scoring_mode && ` (${riskAssessment.scoring_mode} scoring)`}
+                    </p>
+                  )}
+                </div>
+
+                <Separator />
+
                 <div className="flex items-center gap-2">
                   {riskAssessment.reviewed ? (
                     <>
@@ -349,7 +428,26 @@ const TransactionDetail = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <Card>
             <CardHeader>
-              <CardTitle>Audit Observation</CardTitle>
+              <CardTitle className="flex items-center justify-between gap-2">
+                Audit Observation
+                {riskAssessment.explanation_source && (
+                  <Badge
+                    variant="outline"
+                    className="text-xs font-normal"
+                    title={[
+                      riskAssessment.explanation_model_id && riskAssessment.explanation_model_id !== "template"
+                        ? `Model: ${riskAssessment.explanation_model_id}`
+                        : null,
+                      riskAssessment.explanation_prompt ? `Prompt version: ${riskAssessment.explanation_prompt.version}` : null,
+                      riskAssessment.explanation_input_hash ? `Input hash: ${riskAssessment.explanation_input_hash}` : null,
+                    ]
+                      .filter(Boolean)
+                      .join("\n") || undefined}
+                  >
+                    {EXPLANATION_SOURCE_LABELS[riskAssessment.explanation_source] ?? riskAssessment.explanation_source}
+                  </Badge>
+                )}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <p className="text-foreground leading-relaxed">
@@ -403,6 +501,37 @@ const TransactionDetail = () => {
           </Card>
         </div>
       )}
+
+      {/* Risk level history from re-analysis */}
+      {history && history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Risk History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {history.map((entry) => (
+              <div key={entry.id} className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-muted-foreground w-40">
+                  {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                </span>
+                <Badge className={`${getRiskBgColor(entry.previous_level)} ${getRiskColor(entry.previous_level)} capitalize`}>
+                  {entry.previous_level} ({entry.previous_score})
+                </Badge>
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <Badge className={`${getRiskBgColor(entry.new_level)} ${getRiskColor(entry.new_level)} capitalize`}>
+                  {entry.new_level} ({entry.new_score})
+                </Badge>
+                {entry.scoring_mode && (
+                  <span className="text-xs text-muted-foreground">{entry.scoring_mode} scoring</span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
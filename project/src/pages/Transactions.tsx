@@ -32,10 +32,11 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Search, Filter, ArrowUpDown, Trash2 } from "lucide-react";
+import { Search, Filter, ArrowUpDown, Trash2, FileSpreadsheet } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { downloadSourceFile } from "@/lib/import/sourceFile";
 
 type RiskLevel = "low" | "medium" | "high";
 
@@ -46,6 +47,7 @@ interface TransactionWithRisk {
   amount: number;
   vendor_name: string;
   vendor_country: string;
+  vendor_country_code: string | null;
   department: string;
   payment_method: string;
   description: string | null;
@@ -155,6 +157,7 @@ const Transactions = () => {
       await queryClient.invalidateQueries({ queryKey: ["departments"] });
       await queryClient.invalidateQueries({ queryKey: ["dashboard"] });
       await queryClient.invalidateQueries({ queryKey: ["analysis-sessions"] });
+      await queryClient.invalidateQueries({ queryKey: ["source-files"] });
 
       toast.success("All transactions cleared successfully");
     } catch (error) {
@@ -220,6 +223,34 @@ const Transactions = () => {
     enabled: !!user,
   });
 
+  // Sessions whose original upload was archived, for downloading the source evidence
+  const { data: sourceFiles } = useQuery({
+    queryKey: ["source-files", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("analysis_sessions")
+        .select("id, file_name, created_at, source_file_path")
+        .eq("user_id", user!.id)
+        .not("source_file_path", "is", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const downloadOriginal = async (sessionId: string) => {
+    const path = sourceFiles?.find((s) => s.id === sessionId)?.source_file_path;
+    if (!path) return;
+    try {
+      await downloadSourceFile(path);
+      toast.success("Original file downloaded");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download the original file");
+    }
+  };
+
   const filteredTransactions = transactions
     ?.filter((t) => {
       const matchesSearch =
@@ -303,35 +334,53 @@ const Transactions = () => {
             View and filter all analyzed transactions
           </p>
         </div>
-        
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button 
-              variant="destructive" 
-              disabled={!transactions || transactions.length === 0 || isClearing}
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              {isClearing ? "Clearing..." : "Clear All Transactions"}
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Clear All Transactions</AlertDialogTitle>
-              <AlertDialogDescription>
-                This will permanently delete all transactions, risk assessments, audit reports, and analysis sessions. This action cannot be undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction 
-                onClick={handleClearAllTransactions}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+
+        <div className="flex items-center gap-2">
+          {sourceFiles && sourceFiles.length > 0 && (
+            <Select value="" onValueChange={downloadOriginal}>
+              <SelectTrigger className="w-[220px]">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Original files" />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceFiles.map((session) => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {session.file_name} ({format(new Date(session.created_at), "MMM d, yyyy")})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button 
+                variant="destructive" 
+                disabled={!transactions || transactions.length === 0 || isClearing}
               >
-                Clear All
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+                <Trash2 className="h-4 w-4 mr-2" />
+                {isClearing ? "Clearing..." : "Clear All Transactions"}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear All Transactions</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will permanently delete all transactions, risk assessments, audit reports, and analysis sessions. This action cannot be undone. Archived original files are kept as audit evidence.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction 
+                  onClick={handleClearAllTransactions}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Clear All
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
       </div>
 
       <Card>
@@ -455,6 +504,11 @@ const Transactions = () => {
                         <div className="font-medium">{transaction.vendor_name}</div>
                         <div className="text-sm text-muted-foreground">
                           {transaction.vendor_country}
+                          {transaction.vendor_country_code && (
+                            <Badge variant="outline" className="ml-2 font-mono text-xs">
+                              {transaction.vendor_country_code}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                     </TableCell>
@@ -1,50 +1,60 @@
-import { useState, useCallback } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Upload as UploadIcon, FileSpreadsheet, CheckCircle, AlertCircle } from "lucide-react";
+import { Upload as UploadIcon, FileSpreadsheet, CheckCircle, AlertCircle, AlertTriangle, ArrowLeft } from "lucide-react";
+import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
-import * as XLSX from "xlsx";
-
-interface ParsedTransaction {
-  transaction_id: string;
-  transaction_date: string;
-  amount: number;
-  vendor_name: string;
-  vendor_country: string;
-  payment_method: string;
-  department: string;
-  description: string;
-}
-
-// Maximum file size: 10MB
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
+import { ColumnMappingStep } from "@/components/upload/ColumnMappingStep";
+import { SheetSelection, type SheetImportMode } from "@/components/upload/SheetSelection";
+import { ValidationPreview } from "@/components/upload/ValidationPreview";
+import { readSheets, readWorkbook, type ParsedSheet, type Workbook } from "@/lib/import/sheet";
+import {
+  detectMapping,
+  missingRequiredFields,
+  type ColumnMapping,
+  type ParsedTransaction,
+} from "@/lib/import/mapping";
+import { buildImportRows, hasErrors, type ImportRow } from "@/lib/import/validation";
+import {
+  archiveSourceFile,
+  findPreviousUploads,
+  sha256Hex,
+  type PreviousUpload,
+  type SourceFile,
+} from "@/lib/import/sourceFile";
+
+// Maximum file size: 100MB
+const MAX_FILE_SIZE = 100 * 1024 * 1024;
 // Maximum transactions per file
-const MAX_TRANSACTIONS = 10000;
-// Required columns for validation
-const REQUIRED_COLUMNS = ["transaction_id", "transaction_date", "amount", "vendor_name"];
+const MAX_TRANSACTIONS = 500000;
+// Session names are limited by the ingest-session function
+const MAX_SESSION_NAME_LENGTH = 255;
+// Rows sent per ingest-session request
+const CHUNK_SIZE = 2000;
+// Session progress polling while the server analyses the file
+const POLL_INTERVAL_MS = 2000;
+// Give up waiting when the session makes no progress for this long (it can be resumed from the dashboard)
+const STALL_TIMEOUT_MS = 5 * 60 * 1000;
+// Spreadsheets, plus bank statements (MT940, camt.053, OFX) and ledger exports (Tally XML, QuickBooks IIF,
+// SAP FBL1N lists) whose format is recognised from the content
+const ACCEPTED_EXTENSIONS = ["csv", "xlsx", "xls", "sta", "mt940", "940", "txt", "xml", "ofx", "qfx", "iif"];
 // Valid MIME types for uploads
 const VALID_MIME_TYPES = [
   'text/csv',
   'application/vnd.ms-excel',
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   'application/octet-stream', // Some browsers report this for xlsx
+  'text/plain',
+  'text/xml',
+  'application/xml',
+  'application/x-ofx',
+  'application/vnd.intu.qfx',
 ];
 
-// Sanitize cell content to prevent formula injection
-const sanitizeCell = (value: string): string => {
-  if (!value || typeof value !== 'string') return value;
-  // Formulas starting with =, +, -, @ can execute in Excel
-  const dangerousPrefix = /^[=+\-@\t\r]/;
-  if (dangerousPrefix.test(value)) {
-    return "'" + value; // Prefix with single quote to treat as text
-  }
-  return value;
-};
-
 // Validate MIME type matches expected file types
 const validateMimeType = (file: File): boolean => {
   // Some browsers don't report MIME type correctly, so we also check extension
@@ -59,6 +69,19 @@ export default function Upload() {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [status, setStatus] = useState<"idle" | "parsing" | "uploading" | "analyzing" | "complete" | "error">("idle");
+  const [detail, setDetail] = useState("");
+  // Which session of a per-sheet import is in progress
+  const [sessionLabel, setSessionLabel] = useState("");
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [sheetMode, setSheetMode] = useState<SheetImportMode>("combined");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  // Set once the mapping is confirmed; rows are fixed or excluded here before anything is uploaded
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  // SHA-256 of the chosen file, and earlier sessions made from the same content
+  const [sourceHash, setSourceHash] = useState<string | null>(null);
+  const [previousUploads, setPreviousUploads] = useState<PreviousUpload[]>([]);
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -68,8 +91,8 @@ export default function Upload() {
       return `File size exceeds maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)}MB`;
     }
     const extension = file.name.split('.').pop()?.toLowerCase();
-    if (!extension || !['csv', 'xlsx', 'xls'].includes(extension)) {
-      return "Invalid file type. Only CSV and Excel files are accepted";
+    if (!extension || !ACCEPTED_EXTENSIONS.includes(extension)) {
+      return "Invalid file type. Only CSV, Excel, bank statement and accounting export files are accepted";
     }
     // Validate MIME type to prevent disguised malicious files
     if (!validateMimeType(file)) {
@@ -80,243 +103,243 @@ export default function Upload() {
 
   const validateTransactions = (transactions: ParsedTransaction[]): string | null => {
     if (transactions.length === 0) {
-      return "No valid transactions found in file";
+      return "No rows selected for import";
     }
     if (transactions.length > MAX_TRANSACTIONS) {
       return `File contains too many transactions. Maximum allowed: ${MAX_TRANSACTIONS}`;
     }
-    // Check that required fields are present in at least one transaction
-    const firstTx = transactions[0];
-    for (const col of REQUIRED_COLUMNS) {
-      const value = firstTx[col as keyof ParsedTransaction];
-      if (value === undefined || value === null || String(value).trim() === '') {
-        return `Missing required column: ${col}`;
-      }
-    }
-    // Validate individual transactions
-    for (let i = 0; i < transactions.length; i++) {
-      const tx = transactions[i];
-      if (typeof tx.amount !== 'number' || !Number.isFinite(tx.amount) || tx.amount < 0) {
-        return `Invalid amount in row ${i + 1}`;
-      }
-      if (!tx.transaction_date || !/^\d{4}-\d{2}-\d{2}$/.test(tx.transaction_date)) {
-        return `Invalid date format in row ${i + 1}. Expected YYYY-MM-DD`;
-      }
-      // Sanitize text fields to prevent injection
-      if (tx.vendor_name && tx.vendor_name.length > 500) {
-        return `Vendor name too long in row ${i + 1}. Maximum 500 characters`;
-      }
-      if (tx.description && tx.description.length > 2000) {
-        return `Description too long in row ${i + 1}. Maximum 2000 characters`;
-      }
-    }
     return null;
   };
 
-  const parseFile = async (file: File): Promise<ParsedTransaction[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: "binary" });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(sheet);
-
-          const pick = (row: any, keys: string[]) => {
-            for (const k of keys) {
-              const v = row?.[k];
-              if (v !== undefined && v !== null && String(v).trim() !== "") return v;
-            }
-            return undefined;
-          };
-
-          const toText = (v: unknown) => {
-            const text = v === undefined || v === null ? "" : String(v).trim();
-            return sanitizeCell(text); // Sanitize to prevent formula injection
-          };
-
-          const toNumber = (v: unknown) => {
-            const n = typeof v === "number" ? v : parseFloat(String(v ?? "0"));
-            return Number.isFinite(n) ? n : 0;
-          };
-
-          const toISODate = (v: unknown) => {
-            // Handles: ISO strings, "MM/DD/YYYY", JS Date, and Excel serial numbers
-            if (v instanceof Date && !Number.isNaN(v.getTime())) {
-              return v.toISOString().split("T")[0];
-            }
-
-            if (typeof v === "number" && Number.isFinite(v)) {
-              const parsed = XLSX.SSF.parse_date_code(v);
-              if (parsed?.y && parsed?.m && parsed?.d) {
-                const yyyy = String(parsed.y).padStart(4, "0");
-                const mm = String(parsed.m).padStart(2, "0");
-                const dd = String(parsed.d).padStart(2, "0");
-                return `${yyyy}-${mm}-${dd}`;
-              }
-            }
-
-            const s = toText(v);
-            if (!s) return new Date().toISOString().split("T")[0];
-
-            const d = new Date(s);
-            if (!Number.isNaN(d.getTime())) return d.toISOString().split("T")[0];
-
-            // Fallback: keep as-is
-            return s;
-          };
-
-          const transactions: ParsedTransaction[] = jsonData.map((row: any) => ({
-            transaction_id: toText(
-              pick(row, [
-                "Transaction ID",
-                "Transaction_Id",
-                "Transaction_ID",
-                "transaction_id",
-                "TXN",
-                "Txn",
-                "txn",
-              ])
-            ),
-            transaction_date: toISODate(
-              pick(row, [
-                "Date",
-                "Transaction Date",
-                "Transaction_Date",
-                "transaction_date",
-              ])
-            ),
-            amount: toNumber(pick(row, ["Amount", "amount"])),
-            // IMPORTANT: support Vendor_Name column (identified vendors)
-            vendor_name: toText(
-              pick(row, ["Vendor Name", "Vendor_Name", "vendor_name", "Vendor", "vendor"])
-            ),
-            vendor_country: toText(
-              pick(row, ["Vendor Country", "Vendor_Country", "vendor_country", "Country", "country"])
-            ),
-            payment_method: toText(
-              pick(row, ["Payment Method", "Payment_Method", "payment_method", "Method", "method"])
-            ),
-            department: toText(pick(row, ["Department", "department"])),
-            description: toText(pick(row, ["Description", "description"])),
-          }));
-
-          resolve(transactions);
-        } catch (err) {
-          reject(err);
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsBinaryString(file);
-    });
+  // Read the chosen sheets and guess the column mapping from their headers
+  const loadSheets = (book: Workbook, names: string[]) => {
+    const parsed = readSheets(book, names);
+    if (parsed.headers.length === 0) throw new Error("No header row found in the selected sheets");
+    setSheet(parsed);
+    setMapping(detectMapping(parsed.headers));
+    setImportRows(null);
   };
 
-  const handleUpload = async () => {
-    if (!file || !user) return;
-
-    // Validate file before processing
-    const fileError = validateFile(file);
+  // Read the workbook so its sheets and columns can be chosen and mapped before upload
+  const selectFile = async (selected: File) => {
+    setFile(selected);
+    setWorkbook(null);
+    setSelectedSheets([]);
+    setSheetMode("combined");
+    setSheet(null);
+    setMapping({});
+    setImportRows(null);
+    setSourceHash(null);
+    setPreviousUploads([]);
+    setStatus("idle");
+
+    const fileError = validateFile(selected);
     if (fileError) {
       toast({ title: "Validation Error", description: fileError, variant: "destructive" });
       return;
     }
 
-    setUploading(true);
     setStatus("parsing");
-    setProgress(10);
-
     try {
-      const transactions = await parseFile(file);
-      
-      // Validate parsed transactions
-      const validationError = validateTransactions(transactions);
-      if (validationError) {
-        throw new Error(validationError);
+      const book = await readWorkbook(selected);
+      // Start with every account or company of a statement or ledger export, or the first spreadsheet
+      // sheet that has data; the selection can be changed afterwards
+      const first = book.sheets.find((s) => s.rowCount > 0) ?? book.sheets[0];
+      if (!first) {
+        throw new Error(book.format ? `The ${book.format.label} contains no entries` : "The file contains no sheets");
       }
+      const names = book.format ? book.sheets.map((s) => s.name) : [first.name];
+      setWorkbook(book);
+      setSelectedSheets(names);
+      loadSheets(book, names);
+      setStatus("idle");
 
-      setStatus("uploading");
-      setProgress(30);
+      // Identical content uploaded before is only a warning: the user may be re-running it on purpose
+      const hash = await sha256Hex(selected);
+      setSourceHash(hash);
+      if (user) {
+        findPreviousUploads(user.id, hash)
+          .then(setPreviousUploads)
+          .catch((err) => console.error("Duplicate upload check failed:", err));
+      }
+    } catch (err) {
+      console.error(err);
+      setStatus("error");
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "The file could not be read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeSheets = (names: string[]) => {
+    if (!workbook) return;
+    setSelectedSheets(names);
+    if (names.length === 0) {
+      setSheet(null);
+      setImportRows(null);
+      return;
+    }
+    try {
+      loadSheets(workbook, names);
+    } catch (err) {
+      setSheet(null);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "The sheets could not be read",
+        variant: "destructive",
+      });
+    }
+  };
 
-      // Create analysis session
-      const { data: session, error: sessionError } = await supabase
+  // Send rows in chunks, continuing an interrupted upload of the same file when there is one
+  const uploadRows = async (fileName: string, transactions: ParsedTransaction[], source: SourceFile) => {
+    const { data: unfinished } = await supabase
+      .from("analysis_sessions")
+      .select("id, uploaded_rows")
+      .eq("user_id", user!.id)
+      .eq("file_name", fileName)
+      .eq("source_file_sha256", source.sha256)
+      .eq("total_transactions", transactions.length)
+      .eq("status", "processing")
+      .eq("stage", "uploading")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let sessionId = unfinished?.id;
+    let uploaded = unfinished?.uploaded_rows ?? 0;
+    if (!sessionId) {
+      const { data, error } = await supabase.functions.invoke("ingest-session", {
+        body: { action: "start", fileName, totalRows: transactions.length, sourceFile: source },
+      });
+      if (error) throw error;
+      sessionId = data.sessionId as string;
+    }
+
+    // Rows are sent in file order, so the stored count is also the resume position
+    while (uploaded < transactions.length) {
+      setDetail(`${uploaded.toLocaleString()} of ${transactions.length.toLocaleString()} rows uploaded`);
+      setProgress(10 + Math.round((uploaded / transactions.length) * 40));
+
+      const { error } = await supabase.functions.invoke("ingest-session", {
+        body: { action: "append", sessionId, transactions: transactions.slice(uploaded, uploaded + CHUNK_SIZE) },
+      });
+      if (error) throw error;
+      uploaded = Math.min(uploaded + CHUNK_SIZE, transactions.length);
+    }
+    return sessionId;
+  };
+
+  // Poll the session until the background analysis completes or fails
+  const waitForSession = async (sessionId: string, total: number) => {
+    let lastProgress = -1;
+    let lastChangeAt = Date.now();
+    while (Date.now() - lastChangeAt < STALL_TIMEOUT_MS) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+      const { data: session, error } = await supabase
         .from("analysis_sessions")
-        .insert({
-          user_id: user.id,
-          file_name: file.name,
-          total_transactions: transactions.length,
-          status: "processing",
-        })
-        .select()
+        .select("status, stage, error_message, analyzed_rows, explained_rows")
+        .eq("id", sessionId)
         .single();
 
-      if (sessionError) throw sessionError;
+      if (error) throw error;
+      if (session.status !== "processing") return session;
+
+      const rowsDone = session.analyzed_rows + session.explained_rows;
+      if (rowsDone !== lastProgress) {
+        lastProgress = rowsDone;
+        lastChangeAt = Date.now();
+      }
+      if (session.stage === "explaining") {
+        setDetail(`Writing audit explanations (${session.explained_rows.toLocaleString()} flagged rows done)`);
+        setProgress(90);
+      } else {
+        setDetail(`${session.analyzed_rows.toLocaleString()} of ${total.toLocaleString()} rows scored`);
+        setProgress(50 + Math.round((session.analyzed_rows / total) * 40));
+      }
+    }
+    throw new Error("Analysis has stopped making progress. Resume it from the dashboard.");
+  };
+
+  // Convert every row with the confirmed mapping and show the validation preview
+  const reviewRows = () => {
+    if (!sheet) return;
+    setImportRows(buildImportRows(sheet, mapping));
+    setStatus("idle");
+  };
 
-      // Insert transactions
-      const txWithSession = transactions.map((tx) => ({
-        ...tx,
-        session_id: session.id,
-      }));
+  const handleUpload = async () => {
+    if (!file || !importRows || !user) return;
 
-      const { data: insertedTx, error: txError } = await supabase
-        .from("transactions")
-        .insert(txWithSession)
-        .select();
+    setUploading(true);
+    setDetail("");
+    setProgress(5);
 
-      if (txError) throw txError;
+    try {
+      const included = importRows.filter((row) => !row.excluded);
+      if (included.some(hasErrors)) {
+        throw new Error("Fix or exclude the rows with errors before uploading");
+      }
+      const transactions = included.map((row) => row.transaction);
 
-      setProgress(50);
-      setStatus("analyzing");
+      const validationError = validateTransactions(transactions);
+      if (validationError) {
+        throw new Error(validationError);
+      }
 
-      // Call AI analysis
-      const { data: analysisResult, error: analysisError } = await supabase.functions.invoke(
-        "analyze-transactions",
-        {
-          body: { transactions: insertedTx, sessionId: session.id },
-        }
-      );
-
-      if (analysisError) throw analysisError;
-
-      setProgress(80);
-
-      // Store risk assessments
-      if (analysisResult?.assessments) {
-        const { error: riskError } = await supabase.from("risk_assessments").insert(
-          analysisResult.assessments.map((a: any) => ({
-            transaction_id: a.transaction_id,
-            risk_score: a.risk_score,
-            risk_level: a.risk_level,
-            risk_factors: a.risk_factors,
-            audit_observation: a.audit_observation,
-            risk_reason: a.risk_reason,
-            suggested_action: a.suggested_action,
-          }))
-        );
+      // Sessions are named after the file, with the sheet appended when each sheet gets its own
+      const sessions =
+        sheetMode === "per-sheet" && selectedSheets.length > 1
+          ? selectedSheets
+              .map((name) => ({
+                label: name,
+                fileName: `${file.name} [${name}]`.slice(0, MAX_SESSION_NAME_LENGTH),
+                transactions: transactions.filter((tx) => tx.source_sheet === name),
+              }))
+              .filter((batch) => batch.transactions.length > 0)
+          : [{ label: "", fileName: file.name, transactions }];
+
+      // The original is archived before any session is created, so every session links to it
+      setStatus("uploading");
+      setDetail("Archiving the original file");
+      const source = await archiveSourceFile(user.id, file, sourceHash ?? (await sha256Hex(file)));
 
-        if (riskError) throw riskError;
-
-        // Update session with counts
-        const high = analysisResult.assessments.filter((a: any) => a.risk_level === "high").length;
-        const medium = analysisResult.assessments.filter((a: any) => a.risk_level === "medium").length;
-        const low = analysisResult.assessments.filter((a: any) => a.risk_level === "low").length;
-
-        await supabase
-          .from("analysis_sessions")
-          .update({
-            high_risk_count: high,
-            medium_risk_count: medium,
-            low_risk_count: low,
-            status: "completed",
-            completed_at: new Date().toISOString(),
-          })
-          .eq("id", session.id);
+      for (const [index, batch] of sessions.entries()) {
+        setSessionLabel(
+          sessions.length > 1 ? `Sheet "${batch.label}" (${index + 1} of ${sessions.length})` : ""
+        );
+        setStatus("uploading");
+        setProgress(10);
+        const sessionId = await uploadRows(batch.fileName, batch.transactions, source);
+
+        // Analysis runs in the background on the server; closing the tab does not stop it
+        setStatus("analyzing");
+        setDetail("");
+        setProgress(50);
+        const { error: analyzeError } = await supabase.functions.invoke("ingest-session", {
+          body: { action: "analyze", sessionId },
+        });
+        if (analyzeError) throw analyzeError;
+
+        const session = await waitForSession(sessionId, batch.transactions.length);
+        if (session.status === "failed") {
+          throw new Error(session.error_message || "Analysis failed. Please try again.");
+        }
       }
 
+      setSessionLabel("");
       setProgress(100);
       setStatus("complete");
-      toast({ title: "Analysis Complete", description: `${transactions.length} transactions analyzed` });
+      toast({
+        title: "Analysis Complete",
+        description:
+          sessions.length > 1
+            ? `${transactions.length} transactions analyzed in ${sessions.length} sessions`
+            : `${transactions.length} transactions analyzed`,
+      });
 
       setTimeout(() => navigate("/transactions"), 1500);
     } catch (err: any) {
@@ -328,27 +351,34 @@ export default function Upload() {
     }
   };
 
-  const onDrop = useCallback((e: React.DragEvent) => {
+  const onDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && (droppedFile.name.endsWith(".csv") || droppedFile.name.endsWith(".xlsx"))) {
-      setFile(droppedFile);
-      setStatus("idle");
+    if (droppedFile && ACCEPTED_EXTENSIONS.includes(droppedFile.name.split(".").pop()?.toLowerCase() ?? "")) {
+      selectFile(droppedFile);
     }
-  }, []);
+  };
+
+  const missingFields = missingRequiredFields(mapping);
+  const includedRows = importRows?.filter((row) => !row.excluded) ?? [];
+  const errorRows = includedRows.filter(hasErrors).length;
 
   return (
-    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+    <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
       <div>
         <h2 className="text-2xl font-bold text-foreground">Upload Transactions</h2>
-        <p className="text-muted-foreground">Upload CSV or Excel files for AI-powered risk analysis</p>
+        <p className="text-muted-foreground">Upload ledgers or bank statements for AI-powered risk analysis</p>
       </div>
 
       <Card>
         <CardHeader>
           <CardTitle>File Upload</CardTitle>
           <CardDescription>
-            Required columns: Transaction ID, Date, Amount, Vendor Name, Vendor Country, Payment Method, Department, Description
+            Any column layout works: after choosing a file you match its columns to Transaction ID, Date, Amount,
+            Vendor Name, Vendor Country, Payment Method, Department and Description. MT940, camt.053 and OFX bank
+            statements are read directly, with the counterparty as vendor and money out as a negative amount. Tally
+            XML, QuickBooks IIF and SAP FBL1N exports are read directly too, with the cost centre as department and
+            money paid or owed to a vendor as a positive amount.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -364,26 +394,90 @@ export default function Upload() {
                 <FileSpreadsheet className="h-8 w-8 text-success" />
                 <div>
                   <p className="font-medium">{file.name}</p>
-                  <p className="text-sm text-muted-foreground">{(file.size / 1024).toFixed(1)} KB</p>
+                  <p className="text-sm text-muted-foreground">
+                    {(file.size / 1024).toFixed(1)} KB
+                    {workbook?.format && ` · ${workbook.format.label}`}
+                  </p>
                 </div>
               </div>
             ) : (
               <div>
                 <UploadIcon className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
                 <p className="font-medium">Drop your file here or click to browse</p>
-                <p className="text-sm text-muted-foreground mt-1">CSV or Excel files only</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  CSV, Excel, bank statement or accounting export files up to 100MB. An interrupted upload of the same file resumes where it stopped.
+                </p>
               </div>
             )}
             <input
               type="file"
-              accept=".csv,.xlsx,.xls"
+              accept={ACCEPTED_EXTENSIONS.map((ext) => `.${ext}`).join(",")}
               onChange={(e) => {
-                if (e.target.files?.[0]) setFile(e.target.files[0]);
+                if (e.target.files?.[0]) selectFile(e.target.files[0]);
               }}
               className="absolute inset-0 opacity-0 cursor-pointer"
             />
           </div>
 
+          {status === "parsing" && <p className="text-sm text-muted-foreground">Reading file...</p>}
+
+          {previousUploads.length > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-warning/50 bg-warning/5 p-3 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-warning flex-shrink-0" />
+              <div>
+                <p className="font-medium">This file has been uploaded before</p>
+                <ul className="text-muted-foreground">
+                  {previousUploads.map((session) => (
+                    <li key={session.id}>
+                      {session.file_name} on {format(new Date(session.created_at), "MMM d, yyyy 'at' h:mm a")}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-muted-foreground">Uploading it again creates a new session with the same transactions.</p>
+              </div>
+            </div>
+          )}
+
+          {workbook && workbook.sheets.length > 1 && (
+            <SheetSelection
+              sheets={workbook.sheets}
+              selected={selectedSheets}
+              onSelectedChange={changeSheets}
+              label={
+                workbook.format?.kind === "statement"
+                  ? "Accounts to import"
+                  : workbook.format?.kind === "ledger"
+                    ? "Companies to import"
+                    : "Sheets to import"
+              }
+              mode={sheetMode}
+              onModeChange={setSheetMode}
+              disabled={!!importRows || uploading}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {sheet && file && !importRows && (
+        <ColumnMappingStep
+          key={`${file.name}-${file.size}-${file.lastModified}-${selectedSheets.join("|")}`}
+          sheet={sheet}
+          mapping={mapping}
+          onChange={setMapping}
+        />
+      )}
+
+      {file && importRows && (
+        <ValidationPreview
+          key={`${file.name}-${file.size}-${file.lastModified}`}
+          fileName={file.name}
+          rows={importRows}
+          onChange={setImportRows}
+        />
+      )}
+
+      <Card>
+        <CardContent className="space-y-4 pt-6">
           {uploading && (
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
@@ -391,6 +485,8 @@ export default function Upload() {
                 <span>{progress}%</span>
               </div>
               <Progress value={progress} />
+              {sessionLabel && <p className="text-xs text-muted-foreground">{sessionLabel}</p>}
+              {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
             </div>
           )}
 
@@ -408,9 +504,45 @@ export default function Upload() {
             </div>
           )}
 
-          <Button onClick={handleUpload} disabled={!file || uploading} className="w-full">
-            {uploading ? "Processing..." : "Analyze Transactions"}
-          </Button>
+          {workbook && selectedSheets.length === 0 && (
+            <p className="text-sm text-muted-foreground">Choose at least one sheet to import</p>
+          )}
+
+          {sheet && !importRows && missingFields.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Map the required fields to continue: {missingFields.map((f) => f.label).join(", ")}
+            </p>
+          )}
+
+          {importRows && errorRows > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {errorRows.toLocaleString()} rows still have errors. Fix or exclude them to continue.
+            </p>
+          )}
+
+          {importRows ? (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" onClick={() => setImportRows(null)} disabled={uploading}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Mapping
+              </Button>
+              <Button
+                onClick={handleUpload}
+                disabled={includedRows.length === 0 || errorRows > 0 || uploading}
+                className="flex-1"
+              >
+                {uploading ? "Processing..." : `Analyze ${includedRows.length.toLocaleString()} Transactions`}
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={reviewRows}
+              disabled={!sheet || missingFields.length > 0 || uploading}
+              className="w-full"
+            >
+              Review Rows
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
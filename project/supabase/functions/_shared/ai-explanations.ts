@@ -0,0 +1,255 @@
+// AI-written audit explanations for flagged transactions (risk_reason stays rule-based)
+import { z } from "https://esm.sh/zod@3";
+import { parseJsonReply, type AiProvider } from "./ai-provider.ts";
+import { templateExplanation } from "./audit-templates.ts";
+import { hashInput, renderPrompt, type PromptTemplate } from "./prompts.ts";
+import { createRedactor } from "./redaction.ts";
+
+// Where an explanation came from: the first prompt, a retry for rows the model skipped or answered
+// invalidly, or the template fallback
+export type ExplanationSource = "ai" | "ai_retry" | "template";
+
+export interface AuditExplanation {
+  transaction_id: string;
+  audit_observation: string;
+  risk_reason: string;
+  suggested_action: string;
+  explanation_source: ExplanationSource;
+  // Prompt version (null for templates) and model that wrote the text, and the hash of its input row
+  explanation_prompt_id: string | null;
+  explanation_model_id: string;
+  explanation_input_hash: string;
+}
+
+// An explanation before its provenance is attached
+type DraftExplanation = Omit<
+  AuditExplanation,
+  "explanation_prompt_id" | "explanation_model_id" | "explanation_input_hash"
+>;
+
+// A flagged assessment with the transaction it belongs to
+export interface FlaggedTransaction {
+  transaction_id: string;
+  risk_level: string;
+  risk_score: number;
+  risk_factors: unknown;
+  risk_reason: string | null;
+  transaction?: {
+    transaction_id?: string;
+    transaction_date?: string;
+    amount?: number;
+    vendor_name?: string;
+  } | null;
+}
+
+// Every requested row gets an explanation. providerStatus is set when the provider stopped with a
+// rate limit or exhausted credits, so callers can surface it; rows from that point on were written
+// by the templates.
+export interface ExplanationOutcome {
+  explanations: AuditExplanation[];
+  providerStatus: number | null;
+}
+
+// Result of a single prompt; ok: false carries the provider status
+type PromptOutcome =
+  | { ok: true; explanations: DraftExplanation[] }
+  | { ok: false; status: number };
+
+// Flagged rows per prompt; larger inputs are split so one bad reply cannot cost every explanation
+const PROMPT_BATCH_SIZE = 25;
+// Further prompts for the rows still unanswered after the first one
+const MAX_RETRIES = 2;
+// With less time than this left before the caller's deadline, no further prompt is sent
+const MIN_PROMPT_MS = 10 * 1000;
+
+// One item of the model's reply. Items are validated one by one, so a single malformed entry only
+// sends that row back for a retry.
+const explanationSchema = z
+  .object({
+    transaction_id: z.string().min(1),
+    audit_observation: z.string().trim().min(1).max(2000),
+    risk_reason: z.string().trim().min(1).max(2000),
+    suggested_action: z.string().trim().min(1).max(1000),
+  })
+  .strict();
+
+// Explanations written from the rule results alone (see audit-templates.ts)
+function templateExplanations(txDetails: FlaggedTransaction[]): DraftExplanation[] {
+  return txDetails.map((detail) => {
+    const factors = Array.isArray(detail.risk_factors)
+      ? (detail.risk_factors as { description?: string }[]).map((f) => f.description).filter(Boolean)
+      : [];
+    return {
+      transaction_id: detail.transaction_id,
+      ...templateExplanation(detail),
+      risk_reason: detail.risk_reason || factors.join("; ") || "Flagged by the configured risk rules.",
+      explanation_source: "template",
+    };
+  });
+}
+
+// Valid reply items for the requested rows, keyed by transaction_id; anything else is dropped
+function validReplyItems(reply: unknown, requested: Set<string>): Map<string, z.infer<typeof explanationSchema>> {
+  const items = new Map<string, z.infer<typeof explanationSchema>>();
+  if (!Array.isArray(reply)) {
+    console.error("AI response is not an array");
+    return items;
+  }
+
+  let invalid = 0;
+  for (const item of reply) {
+    const result = explanationSchema.safeParse(item);
+    if (result.success && requested.has(result.data.transaction_id) && !items.has(result.data.transaction_id)) {
+      items.set(result.data.transaction_id, result.data);
+    } else {
+      invalid++;
+    }
+  }
+  if (invalid > 0) console.error(`Ignored ${invalid} invalid item(s) in the AI response`);
+  return items;
+}
+
+// One prompt for one batch. A reply that cannot be parsed yields no explanations, so every row of
+// the batch is retried.
+async function promptExplanations(
+  provider: Extract<AiProvider, { complete: unknown }>,
+  prompt: PromptTemplate,
+  txDetails: FlaggedTransaction[],
+  source: ExplanationSource,
+  timeoutMs?: number
+): Promise<PromptOutcome> {
+  // Vendor names (including those cited as evidence) go to the model as pseudonyms
+  const vendorNames = txDetails.flatMap((detail) => {
+    const evidenceNames = Array.isArray(detail.risk_factors)
+      ? (detail.risk_factors as { evidence?: { matched_vendor_names?: unknown } }[])
+          .flatMap((f) => (Array.isArray(f.evidence?.matched_vendor_names) ? f.evidence.matched_vendor_names : []))
+          .map(String)
+      : [];
+    return [detail.transaction?.vendor_name ?? "", ...evidenceNames];
+  });
+  const redactor = createRedactor(vendorNames, provider.maskedFields);
+
+  const outcome = await provider.complete(
+    [
+      { role: "system", content: prompt.system_prompt },
+      {
+        role: "user",
+        content: renderPrompt(prompt.user_prompt, {
+          transactions: JSON.stringify(redactor.redact(txDetails), null, 2),
+        }),
+      },
+    ],
+    prompt.temperature,
+    timeoutMs
+  );
+
+  if (!outcome.ok) return outcome;
+
+  let reply: unknown = null;
+  try {
+    reply = parseJsonReply(outcome.content);
+  } catch (parseError) {
+    console.error("Failed to parse AI response:", parseError);
+  }
+
+  const items = validReplyItems(reply, new Set(txDetails.map((detail) => detail.transaction_id)));
+  return {
+    ok: true,
+    explanations: [...items.values()].map((item) => ({
+      ...redactor.restore(item),
+      // The pseudonymiser leaves record keys alone, but the reply's copy is not trusted either way
+      transaction_id: item.transaction_id,
+      explanation_source: source,
+    })),
+  };
+}
+
+// Ask the provider for audit-ready explanations with professional audit behavior rules. Rows are
+// sent in bounded batches; rows the model skips or answers invalidly are asked again, and whatever
+// is still missing after the retries gets a template explanation. After a rate limit or exhausted
+// credits the provider is not called again and the remaining rows use the templates too. The same
+// happens once the optional deadline (epoch ms) is close: each prompt may only wait for the time left.
+export async function requestAuditExplanations(
+  provider: AiProvider,
+  prompt: PromptTemplate,
+  txDetails: FlaggedTransaction[],
+  deadline?: number
+): Promise<ExplanationOutcome> {
+  if (provider.kind === "template") {
+    return {
+      explanations: await withProvenance(templateExplanations(txDetails), txDetails, provider, prompt),
+      providerStatus: null,
+    };
+  }
+
+  const explanations: DraftExplanation[] = [];
+  let providerStatus: number | null = null;
+  for (let i = 0; i < txDetails.length; i += PROMPT_BATCH_SIZE) {
+    let pending = txDetails.slice(i, i + PROMPT_BATCH_SIZE);
+
+    for (let attempt = 0; attempt <= MAX_RETRIES && pending.length > 0 && providerStatus === null; attempt++) {
+      const timeLeft = deadline === undefined ? undefined : deadline - Date.now();
+      if (timeLeft !== undefined && timeLeft < MIN_PROMPT_MS) {
+        console.log(`Out of time, using templates for ${pending.length} transaction(s)`);
+        break;
+      }
+      const outcome = await promptExplanations(provider, prompt, pending, attempt === 0 ? "ai" : "ai_retry", timeLeft);
+      if (!outcome.ok) {
+        if (outcome.status === 429 || outcome.status === 402) providerStatus = outcome.status;
+        break;
+      }
+
+      explanations.push(...outcome.explanations);
+      const answered = new Set(outcome.explanations.map((e) => e.transaction_id));
+      pending = pending.filter((detail) => !answered.has(detail.transaction_id));
+      if (pending.length > 0 && attempt < MAX_RETRIES) {
+        console.log(`Retrying AI explanations for ${pending.length} transaction(s)`);
+      }
+    }
+
+    explanations.push(...templateExplanations(pending));
+  }
+  return { explanations: await withProvenance(explanations, txDetails, provider, prompt), providerStatus };
+}
+
+// Record what wrote each explanation. The input hash covers the row as passed in, before redaction,
+// so it can be recomputed from the stored transaction and assessment.
+async function withProvenance(
+  drafts: DraftExplanation[],
+  txDetails: FlaggedTransaction[],
+  provider: AiProvider,
+  prompt: PromptTemplate
+): Promise<AuditExplanation[]> {
+  const hashes = new Map(
+    await Promise.all(txDetails.map(async (detail) => [detail.transaction_id, await hashInput(detail)] as const))
+  );
+  return drafts.map((draft) => {
+    const fromTemplate = draft.explanation_source === "template";
+    return {
+      ...draft,
+      explanation_prompt_id: fromTemplate ? null : prompt.id,
+      explanation_model_id: fromTemplate ? "template" : provider.model,
+      explanation_input_hash: hashes.get(draft.transaction_id) ?? "",
+    };
+  });
+}
+
+// Merge AI explanations into the assessments (keep risk_reason strictly rule-based)
+export function mergeExplanations(
+  assessments: { transaction_id: string }[],
+  explanations: AuditExplanation[]
+): void {
+  for (const explanation of explanations) {
+    const assessment = assessments.find((a) => a.transaction_id === explanation.transaction_id);
+    if (assessment) {
+      Object.assign(assessment, {
+        audit_observation: explanation.audit_observation,
+        suggested_action: explanation.suggested_action,
+        explanation_source: explanation.explanation_source,
+        explanation_prompt_id: explanation.explanation_prompt_id,
+        explanation_model_id: explanation.explanation_model_id,
+        explanation_input_hash: explanation.explanation_input_hash,
+      });
+    }
+  }
+}
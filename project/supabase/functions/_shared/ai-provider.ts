@@ -0,0 +1,169 @@
+// AI provider layer: the hosted gateway, any OpenAI-compatible endpoint (including a self-hosted
+// model) or the template provider, which writes its text without calling a model
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AiProviderKind = "gateway" | "openai_compatible" | "local" | "template";
+
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+// ok: false carries the HTTP status (0 when the endpoint could not be reached) so callers can
+// surface rate limits and exhausted credits
+export type CompletionOutcome =
+  | { ok: true; content: string }
+  | { ok: false; status: number };
+
+export type AiProvider =
+  | { kind: "template"; model: "template" }
+  | {
+      kind: Exclude<AiProviderKind, "template">;
+      model: string;
+      // Transaction fields the organisation withholds from the model (see redaction.ts)
+      maskedFields: string[];
+      // timeoutMs shortens the default request timeout, e.g. to what is left of an analysis step
+      complete: (messages: ChatMessage[], temperature: number, timeoutMs?: number) => Promise<CompletionOutcome>;
+    };
+
+// One row of ai_provider_settings
+interface AiProviderSettings {
+  provider: AiProviderKind;
+  base_url: string | null;
+  model: string | null;
+  api_key_secret: string | null;
+  masked_fields: string[] | null;
+}
+
+const GATEWAY_URL = "https://ai.gateway.lovable.dev/v1";
+const GATEWAY_MODEL = "google/gemini-3-flash-preview";
+const GATEWAY_KEY_SECRET = "LOVABLE_API_KEY";
+// Self-hosted models on modest hardware can take minutes for a batch of explanations
+const REQUEST_TIMEOUT_MS = 180 * 1000;
+
+export const TEMPLATE_PROVIDER: AiProvider = { kind: "template", model: "template" };
+
+// Client for the OpenAI chat completions API shape, which the gateway, hosted vendors and local
+// servers (Ollama, vLLM, llama.cpp, LM Studio) all expose
+function openAiCompatible(
+  kind: Exclude<AiProviderKind, "template">,
+  baseUrl: string,
+  model: string,
+  apiKey: string | undefined,
+  maskedFields: string[]
+): AiProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    kind,
+    model,
+    maskedFields,
+    complete: async (messages, temperature, timeoutMs = REQUEST_TIMEOUT_MS) => {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ model, messages, temperature }),
+          signal: AbortSignal.timeout(Math.max(1, Math.min(timeoutMs, REQUEST_TIMEOUT_MS))),
+        });
+      } catch (error) {
+        console.error(`AI provider ${kind} unreachable:`, error);
+        return { ok: false, status: 0 };
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("AI API error:", response.status, errorText);
+        return { ok: false, status: response.status };
+      }
+
+      // A proxy or misconfigured server can answer 200 with an HTML page
+      let data: { choices?: { message?: { content?: string } }[] };
+      try {
+        data = await response.json();
+      } catch (error) {
+        console.error(`AI provider ${kind} returned a body that is not JSON:`, error);
+        return { ok: false, status: response.status };
+      }
+      return { ok: true, content: data.choices?.[0]?.message?.content ?? "" };
+    },
+  };
+}
+
+// Turn a settings row into a provider. A provider that cannot be used (no URL, missing key) falls
+// back to the template provider, so explanations and reports are still written without sending data out.
+export function resolveAiProvider(settings: AiProviderSettings | null): AiProvider {
+  const kind = settings?.provider ?? "gateway";
+  if (kind === "template") return TEMPLATE_PROVIDER;
+
+  if (kind === "gateway") {
+    const apiKey = Deno.env.get(GATEWAY_KEY_SECRET);
+    if (!apiKey) {
+      console.error(`${GATEWAY_KEY_SECRET} is not configured, using the template provider`);
+      return TEMPLATE_PROVIDER;
+    }
+    return openAiCompatible(kind, GATEWAY_URL, settings?.model || GATEWAY_MODEL, apiKey, settings?.masked_fields ?? []);
+  }
+
+  const baseUrl = settings?.base_url?.trim() ?? "";
+  const model = settings?.model?.trim() ?? "";
+  // Only AI_* secrets may be read, matching the check constraint on the settings table
+  const secret = settings?.api_key_secret && /^AI_[A-Z0-9_]+$/.test(settings.api_key_secret)
+    ? settings.api_key_secret
+    : null;
+  const apiKey = secret ? Deno.env.get(secret) : undefined;
+
+  // Third-party endpoints must use TLS and a key; a local model may run over plain HTTP without one
+  const validUrl = kind === "local" ? /^https?:\/\//.test(baseUrl) : baseUrl.startsWith("https://");
+  if (!validUrl || !model || (kind === "openai_compatible" && !apiKey)) {
+    console.error(`AI provider ${kind} is not fully configured, using the template provider`);
+    return TEMPLATE_PROVIDER;
+  }
+  return openAiCompatible(kind, baseUrl, model, apiKey, settings?.masked_fields ?? []);
+}
+
+// Providers that send data to a third party; an admin can forbid them for every organisation
+const EXTERNAL_KINDS: AiProviderKind[] = ["gateway", "openai_compatible"];
+
+// Provider for the user's organisation, falling back to the default row (no organisation) and then
+// to the gateway. Fails closed: when the settings cannot be read, or external providers are switched
+// off (risk_engine_settings.external_ai_allowed, which only admins can change, unlike the free-text
+// profiles.organization), the template provider is used and nothing leaves the system.
+export async function loadAiProvider(supabase: SupabaseClient, userId: string): Promise<AiProvider> {
+  const [profileResult, settingsResult, engineResult] = await Promise.all([
+    supabase.from("profiles").select("organization").eq("user_id", userId).maybeSingle(),
+    supabase
+      .from("ai_provider_settings")
+      .select("organization, provider, base_url, model, api_key_secret, masked_fields"),
+    supabase.from("risk_engine_settings").select("external_ai_allowed").maybeSingle(),
+  ]);
+  if (profileResult.error || settingsResult.error || engineResult.error) {
+    console.error(
+      "Failed to fetch AI provider settings, using the template provider:",
+      profileResult.error ?? settingsResult.error ?? engineResult.error
+    );
+    return TEMPLATE_PROVIDER;
+  }
+
+  const organization = profileResult.data?.organization?.trim() || null;
+  const rows = (settingsResult.data || []) as (AiProviderSettings & { organization: string | null })[];
+  const settings =
+    (organization && rows.find((r) => r.organization === organization)) ||
+    rows.find((r) => r.organization === null) ||
+    null;
+
+  const provider = resolveAiProvider(settings);
+  if (EXTERNAL_KINDS.includes(provider.kind) && engineResult.data?.external_ai_allowed !== true) {
+    console.log(`External AI providers are switched off, using the template provider instead of ${provider.kind}`);
+    return TEMPLATE_PROVIDER;
+  }
+  return provider;
+}
+
+// Models sometimes wrap JSON replies in markdown fences despite being asked not to
+export function parseJsonReply(content: string): unknown {
+  return JSON.parse(content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim());
+}
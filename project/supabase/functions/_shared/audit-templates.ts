@@ -0,0 +1,216 @@
+// Deterministic audit text written from the rule results alone: explanations for flagged
+// transactions and the session report narrative. Used when no model is configured and whenever the
+// model is unavailable; callers record the output as template-generated.
+import { formatConformity, type BenfordResult } from "./benford.ts";
+
+// One entry per risk_factors.type (the risk_rules.rule_key)
+interface FactorTemplate {
+  // Short statement of what the rule found, followed by the rule's own detail in the observation
+  finding: string;
+  action: string;
+  // The control the finding bears on, named in the report narrative
+  control: string;
+}
+
+const FACTOR_TEMPLATES: Record<string, FactorTemplate> = {
+  duplicate_transaction: {
+    finding: "Possible duplicate payment",
+    action: "Confirm with accounts payable whether the payment was made more than once and recover any duplicate from the vendor.",
+    control: "duplicate invoice checks before payment",
+  },
+  high_value_transaction: {
+    finding: "Payment above the high-value threshold",
+    action: "Check that the payment was approved at the authority level its amount requires and agrees to a signed contract or purchase order.",
+    control: "approval limits for large payments",
+  },
+  vendor_country_risk: {
+    finding: "Vendor located in a higher-risk jurisdiction",
+    action: "Verify the vendor's registration and beneficial ownership and confirm the payment complies with sanctions and export restrictions.",
+    control: "due diligence on vendors in higher-risk jurisdictions",
+  },
+  frequency_risk: {
+    finding: "Several payments to one vendor on the same day",
+    action: "Obtain the invoice for each same-day payment and confirm they relate to separate goods or services.",
+    control: "review of multiple same-day payments",
+  },
+  split_transaction: {
+    finding: "Possible split payment below an approval threshold",
+    action: "Compare the related payments with the underlying invoice or purchase order and confirm the approval limit was not circumvented.",
+    control: "enforcement of approval thresholds",
+  },
+  near_duplicate_transaction: {
+    finding: "Possible duplicate payment under a variant vendor name",
+    action: "Check whether the vendor records refer to the same supplier and whether one invoice was paid under both.",
+    control: "vendor master data maintenance",
+  },
+  vendor_amount_outlier: {
+    finding: "Amount unusual for this vendor",
+    action: "Obtain the invoice and document why the amount differs from the vendor's usual payments.",
+    control: "monitoring of vendor payment patterns",
+  },
+  off_calendar_posting: {
+    finding: "Payment posted outside normal business days",
+    action: "Identify who posted and approved the entry and confirm why it was recorded outside normal business days.",
+    control: "posting cut-off and period-close controls",
+  },
+  round_amount: {
+    finding: "Round-sum payment",
+    action: "Obtain the invoice supporting the round amount and confirm it is for goods or services received rather than an estimate or advance.",
+    control: "invoice matching for round-sum payments",
+  },
+  repeating_amount: {
+    finding: "Identical amount paid to one vendor on several dates",
+    action: "Confirm the repeated payments are covered by a contract for recurring charges and that each was separately invoiced.",
+    control: "contract coverage of recurring payments",
+  },
+  watchlist_match: {
+    finding: "Vendor name resembles a sanctions or watchlist entry",
+    action: "Escalate to compliance to confirm or rule out the match before any further payment to this vendor.",
+    control: "sanctions and watchlist screening of vendors",
+  },
+};
+
+// Rules added to the catalogue later have no template of their own yet
+const FALLBACK_ACTIONS: Record<string, string> = {
+  high: "Obtain the supporting invoice, contract and payment approval and confirm them before the payment is accepted.",
+  medium: "Review the supporting documentation for this payment and record the outcome of the review.",
+};
+
+interface TemplateFactor {
+  type?: string;
+  description?: string;
+}
+
+export interface TemplateInput {
+  risk_level: string;
+  risk_score: number;
+  risk_factors: unknown;
+  transaction?: {
+    transaction_id?: string;
+    transaction_date?: string;
+    amount?: number;
+    vendor_name?: string;
+  } | null;
+}
+
+// Rule descriptions read "HIGH-VALUE TRANSACTION (Rule 2): Amount ₹... exceeds ₹..."; the part after
+// the label carries the figures
+const ruleDetail = (description: string) => description.replace(/^[^:]*\(Rule \d+\):\s*/, "").replace(/\.$/, "");
+
+const formatAmount = (amount: unknown) =>
+  `₹${Number(amount ?? 0).toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
+
+export function templateExplanation(detail: TemplateInput): { audit_observation: string; suggested_action: string } {
+  const tx = detail.transaction ?? {};
+  const factors = (Array.isArray(detail.risk_factors) ? detail.risk_factors : []) as TemplateFactor[];
+
+  const findings = factors.map((factor) => {
+    const finding = FACTOR_TEMPLATES[factor.type ?? ""]?.finding ?? "Flagged by a configured risk rule";
+    return factor.description ? `${finding}: ${ruleDetail(factor.description)}.` : `${finding}.`;
+  });
+  const actions = [
+    ...new Set(factors.map((factor) => FACTOR_TEMPLATES[factor.type ?? ""]?.action).filter(Boolean)),
+  ];
+
+  return {
+    audit_observation: [
+      `Transaction ${tx.transaction_id ?? ""} of ${formatAmount(tx.amount)} to ${tx.vendor_name ?? "the vendor"} dated ` +
+        `${tx.transaction_date ?? "(no date)"} scored ${detail.risk_score} and is classified ${detail.risk_level} risk.`,
+      ...findings,
+    ].join(" "),
+    suggested_action: actions.length > 0
+      ? actions.join(" ")
+      : FALLBACK_ACTIONS[detail.risk_level] ?? FALLBACK_ACTIONS.medium,
+  };
+}
+
+export interface SessionStats {
+  totalTransactions: number;
+  highRiskCount: number;
+  mediumRiskCount: number;
+  lowRiskCount: number;
+  topVendors: { name: string; count: number; totalAmount: number }[];
+  topRiskFactors: { type: string; count: number }[];
+  departmentBreakdown: { department: string; count: number; riskScore: number }[];
+  benford: BenfordResult;
+}
+
+// The parts of a risk_rules row the report narrative cites
+export interface ReportRule {
+  rule_key: string;
+  name: string;
+  description: string | null;
+  severity: "HIGH" | "MEDIUM";
+}
+
+export const percentOf = (count: number, total: number) =>
+  (total > 0 ? ((count / total) * 100).toFixed(1) : "0.0");
+
+const listOf = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+// The full report in the shape the Reports page displays, written from the exact statistics
+export function buildTemplateReport(stats: SessionStats, rules: ReportRule[], fileName: string) {
+  const ruleName = (type: string) => rules.find((r) => r.rule_key === type)?.name ?? type;
+  const flagged = stats.highRiskCount + stats.mediumRiskCount;
+  const highShare = percentOf(stats.highRiskCount, stats.totalTransactions);
+  const factorList = stats.topRiskFactors.map((f) => `${ruleName(f.type)} (${f.count})`);
+  const controls = [
+    ...new Set(stats.topRiskFactors.map((f) => FACTOR_TEMPLATES[f.type]?.control).filter((c): c is string => !!c)),
+  ];
+
+  const posture = stats.highRiskCount > 0 && Number(highShare) >= 5
+    ? "Unsatisfactory"
+    : flagged > 0
+      ? "Needs Improvement"
+      : "Satisfactory";
+
+  const findings = [
+    `The analysis of ${stats.totalTransactions} transactions from ${fileName} identified ${stats.highRiskCount} high-risk ` +
+      `(${highShare}%) and ${stats.mediumRiskCount} medium-risk ` +
+      `(${percentOf(stats.mediumRiskCount, stats.totalTransactions)}%) transactions; ` +
+      `${stats.lowRiskCount} transactions were classified low risk.`,
+    factorList.length > 0
+      ? `The risk rules triggered most often were ${listOf(factorList)}.`
+      : "No risk rules were triggered.",
+    controls.length > 0 ? `These findings indicate control weaknesses to review in ${listOf(controls)}.` : "",
+  ];
+
+  const vendors = stats.topVendors
+    .slice(0, 3)
+    .map((v) => `${v.name} (${v.count} transactions, ₹${v.totalAmount.toLocaleString()})`);
+  const riskiestDepartment = stats.departmentBreakdown[0];
+  const context = [
+    vendors.length > 0 ? `The largest vendors by value were ${listOf(vendors)}.` : "",
+    riskiestDepartment && riskiestDepartment.riskScore > 0
+      ? `${riskiestDepartment.department} had the highest average risk score (${riskiestDepartment.riskScore.toFixed(0)}) ` +
+        `across ${riskiestDepartment.count} transactions.`
+      : "",
+    `The Benford's Law first-digit test over ${stats.benford.sample_size} amounts shows ` +
+      `${formatConformity(stats.benford.conformity).toLowerCase()}.`,
+  ];
+
+  const limitations =
+    "This report was generated from templates using the rule results and exact session statistics; " +
+    "no AI model was used. Flagged transactions require follow-up before any conclusion is drawn.";
+
+  return {
+    executive_summary: [findings, context]
+      .map((sentences) => sentences.filter(Boolean).join(" "))
+      .concat(limitations)
+      .join("\n\n"),
+    risk_posture: `${posture} - ${stats.highRiskCount} high-risk and ${stats.mediumRiskCount} medium-risk transactions of ${stats.totalTransactions}`,
+    key_risk_themes: stats.topRiskFactors.map((f) => ({ theme: ruleName(f.type), count: f.count })),
+    areas_of_attention: stats.topRiskFactors.map((f) => {
+      const rule = rules.find((r) => r.rule_key === f.type);
+      const action = FACTOR_TEMPLATES[f.type]?.action ??
+        "Obtain and review the supporting documentation for these payments.";
+      return {
+        area: ruleName(f.type),
+        priority: rule?.severity === "HIGH" ? "High" : "Medium",
+        description: `${f.count} transactions triggered this rule` +
+          `${rule?.description ? `: ${rule.description.replace(/\.$/, "")}` : ""}. ${action}`,
+      };
+    }),
+  };
+}
@@ -0,0 +1,157 @@
+// Benford's Law first-digit test
+// Conformity thresholds for the mean absolute deviation follow Nigrini's first-digit table.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface BenfordDigit {
+  digit: number;
+  observed_count: number;
+  observed_pct: number;
+  expected_pct: number;
+  z_score: number;
+  significant: boolean;
+}
+
+export type BenfordConformity =
+  | "close_conformity"
+  | "acceptable_conformity"
+  | "marginal_conformity"
+  | "nonconformity"
+  | "insufficient_data";
+
+export interface BenfordResult {
+  sample_size: number;
+  digits: BenfordDigit[];
+  chi_square: number;
+  chi_square_critical: number;
+  mad: number;
+  conformity: BenfordConformity;
+}
+
+export interface BenfordGroupResult extends BenfordResult {
+  group: string;
+}
+
+// Amounts below this are excluded; small values distort the first-digit distribution
+const MIN_AMOUNT = 10;
+// Below this sample size the test has too little power to be meaningful
+export const MIN_SAMPLE_SIZE = 50;
+// Chi-square critical value for 8 degrees of freedom at the 5% significance level
+const CHI_SQUARE_CRITICAL_5PCT = 15.507;
+// Two-tailed z critical value at the 5% significance level
+const Z_CRITICAL_5PCT = 1.96;
+
+const EXPECTED = Array.from({ length: 9 }, (_, i) => Math.log10(1 + 1 / (i + 1)));
+
+function leadingDigit(amount: number): number | null {
+  const value = Math.abs(amount);
+  if (!Number.isFinite(value) || value < MIN_AMOUNT) return null;
+  return Number(value.toExponential()[0]);
+}
+
+function classifyMad(mad: number): BenfordConformity {
+  if (mad <= 0.006) return "close_conformity";
+  if (mad <= 0.012) return "acceptable_conformity";
+  if (mad <= 0.015) return "marginal_conformity";
+  return "nonconformity";
+}
+
+const round = (value: number, places = 4) => Number(value.toFixed(places));
+
+export function computeBenford(amounts: number[]): BenfordResult {
+  const counts = new Array(9).fill(0);
+  for (const amount of amounts) {
+    const digit = leadingDigit(Number(amount));
+    if (digit) counts[digit - 1]++;
+  }
+
+  const n = counts.reduce((sum, c) => sum + c, 0);
+  let chiSquare = 0;
+  let absDeviation = 0;
+
+  const digits: BenfordDigit[] = counts.map((count, i) => {
+    const expected = EXPECTED[i];
+    const observed = n > 0 ? count / n : 0;
+    let z = 0;
+
+    if (n > 0) {
+      const expectedCount = expected * n;
+      chiSquare += (count - expectedCount) ** 2 / expectedCount;
+      absDeviation += Math.abs(observed - expected);
+      // Z-statistic with continuity correction
+      const correction = 1 / (2 * n);
+      const deviation = Math.max(0, Math.abs(observed - expected) - correction);
+      z = deviation / Math.sqrt((expected * (1 - expected)) / n);
+    }
+
+    return {
+      digit: i + 1,
+      observed_count: count,
+      observed_pct: round(observed * 100, 2),
+      expected_pct: round(expected * 100, 2),
+      z_score: round(z, 2),
+      significant: n >= MIN_SAMPLE_SIZE && z > Z_CRITICAL_5PCT,
+    };
+  });
+
+  const mad = n > 0 ? absDeviation / 9 : 0;
+
+  return {
+    sample_size: n,
+    digits,
+    chi_square: round(chiSquare, 2),
+    chi_square_critical: CHI_SQUARE_CRITICAL_5PCT,
+    mad: round(mad, 4),
+    conformity: n >= MIN_SAMPLE_SIZE ? classifyMad(mad) : "insufficient_data",
+  };
+}
+
+// Run the test separately for each group (e.g. vendor or department), largest groups first
+export function computeBenfordByGroup<T>(
+  rows: T[],
+  groupOf: (row: T) => string,
+  amountOf: (row: T) => number
+): BenfordGroupResult[] {
+  const groups = new Map<string, number[]>();
+  for (const row of rows) {
+    const key = groupOf(row).trim() || "Unknown";
+    const existing = groups.get(key) || [];
+    existing.push(amountOf(row));
+    groups.set(key, existing);
+  }
+
+  return Array.from(groups.entries())
+    .map(([group, amounts]) => ({ group, ...computeBenford(amounts) }))
+    .sort((a, b) => b.sample_size - a.sample_size);
+}
+
+// A session amount with the columns the test is grouped by
+export interface SessionAmountRow {
+  id: string;
+  amount: number;
+  vendor_name: string | null;
+  department: string | null;
+}
+
+const PAGE_SIZE = 1000;
+
+// Fetch every transaction amount of the session, paging past the default row limit, so the
+// Benford page and the audit report test the same amounts
+export async function fetchSessionAmounts(supabase: SupabaseClient, sessionId: string): Promise<SessionAmountRow[]> {
+  const rows: SessionAmountRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, amount, vendor_name, department")
+      .eq("session_id", sessionId)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error("Failed to fetch transactions");
+    rows.push(...((data || []) as SessionAmountRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function formatConformity(conformity: BenfordConformity): string {
+  return conformity.replace(/_/g, " ");
+}
@@ -0,0 +1,39 @@
+// Country normalisation against the country_risk reference table
+
+export type CountryTier = "low" | "medium" | "high" | "prohibited";
+
+export interface CountryRisk {
+  iso_code: string;
+  name: string;
+  aliases: string[] | null;
+  tier: CountryTier;
+}
+
+// Comparison key for free-text country names: "U.A.E." -> "UAE", "The Bahamas" -> "BAHAMAS"
+// (mirrors public.country_key in the database)
+export function countryKey(value: string | null | undefined): string {
+  return (value ?? "")
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/[^\p{L} ]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^THE /, "");
+}
+
+// Map every ISO code, name key and alias key to its country
+export function buildCountryLookup(countries: CountryRisk[]): Map<string, CountryRisk> {
+  const lookup = new Map<string, CountryRisk>();
+  // Names and aliases first so an ISO code always wins over an alias that happens to look like one
+  for (const country of countries) {
+    for (const alias of country.aliases || []) lookup.set(countryKey(alias), country);
+    lookup.set(countryKey(country.name), country);
+  }
+  for (const country of countries) lookup.set(country.iso_code.toUpperCase(), country);
+  lookup.delete("");
+  return lookup;
+}
+
+export function resolveCountry(lookup: Map<string, CountryRisk>, value: string | null | undefined): CountryRisk | null {
+  return lookup.get(countryKey(value)) ?? null;
+}
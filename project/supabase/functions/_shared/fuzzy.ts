@@ -0,0 +1,55 @@
+// Fuzzy string matching helpers for vendor and entity names
+
+// Legal-form tokens that do not distinguish one vendor from another
+export const DEFAULT_LEGAL_SUFFIXES = [
+  "PVT", "PRIVATE", "LTD", "LIMITED", "LLC", "LLP", "INC", "INCORPORATED",
+  "CORP", "CORPORATION", "CO", "COMPANY", "PLC", "GMBH", "AG", "SA", "BV", "PTE",
+];
+
+// Upper-case, strip punctuation and collapse whitespace: "Acme Pvt. Ltd." -> "ACME PVT LTD"
+export function normalizeText(value: string): string {
+  return (value ?? "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Normalise a vendor name and drop legal-form tokens: "ACME PVT. LTD." -> "ACME"
+export function normalizeVendorName(value: string, legalSuffixes: string[] = DEFAULT_LEGAL_SUFFIXES): string {
+  const suffixes = new Set(legalSuffixes.map((s) => normalizeText(s)));
+  const tokens = normalizeText(value).split(" ").filter(Boolean);
+  const kept = tokens.filter((t) => !suffixes.has(t));
+  // Never reduce a name to nothing (e.g. a vendor literally called "Company")
+  return (kept.length > 0 ? kept : tokens).join(" ");
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Edit-distance similarity in [0, 1] (1 = identical)
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+// Similarity that ignores word order: "SMITH JOHN" matches "JOHN SMITH"
+export function tokenSortSimilarity(a: string, b: string): number {
+  const sortTokens = (value: string) => value.split(" ").filter(Boolean).sort().join(" ");
+  return Math.max(similarity(a, b), similarity(sortTokens(a), sortTokens(b)));
+}
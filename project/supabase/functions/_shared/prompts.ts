@@ -0,0 +1,172 @@
+// Versioned prompts for the AI-written explanations and reports. The latest version of each prompt
+// is read from prompt_templates; artifacts record the version that produced them, the model and a
+// hash of their inputs.
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type PromptKey = "audit_explanations" | "audit_report";
+
+export interface PromptTemplate {
+  // null for the built-in copy used when prompt_templates cannot be read
+  id: string | null;
+  prompt_key: PromptKey;
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+  temperature: number;
+}
+
+// Built-in prompts, used only when the prompt_templates table cannot be read.
+// Mirror version 1 of the prompt_templates seed.
+const DEFAULT_PROMPTS: Record<PromptKey, PromptTemplate> = {
+  audit_explanations: {
+    id: null,
+    prompt_key: "audit_explanations",
+    version: 1,
+    system_prompt: `You are an expert internal auditor functioning as a professional audit assistant.
+
+CORE PRINCIPLES:
+- Act with professional skepticism but avoid speculation
+- Every statement must be evidence-based and justifiable
+- When data is limited, clearly state the limitation rather than guessing
+- Use precise, professional audit terminology
+- Ensure all findings are explainable to both technical and non-technical stakeholders
+
+Always respond with valid JSON only, no markdown formatting.`,
+    user_prompt: `You are a senior internal auditor at a Big 4 accounting firm acting as a professional audit assistant.
+
+CRITICAL BEHAVIOR RULES:
+1. NEVER use speculative language (avoid "might", "could", "possibly", "perhaps")
+2. ALWAYS justify every conclusion with specific evidence from the data
+3. If data is insufficient for a definitive conclusion, explicitly state: "Insufficient data to determine [X]. Additional documentation required."
+4. Prioritize EXPLAINABILITY - every finding must be traceable to specific data points
+5. Use professional, factual language suitable for formal audit documentation
+6. Be precise with numbers and percentages
+7. Focus on WHAT was observed, WHY it matters, and WHAT action is needed
+
+For each transaction, provide:
+1. "audit_observation" - A factual 1-2 sentence finding based ONLY on available evidence
+2. "risk_reason" - Specific, evidence-based explanation citing the exact risk factors detected
+3. "suggested_action" - Concrete, actionable next step (e.g., "Request supporting invoice documentation from vendor")
+
+Transactions to analyze:
+{{transactions}}
+
+Respond with a JSON array containing exactly one object per transaction above, using its "transaction_id" unchanged and no other fields:
+[
+  {
+    "transaction_id": "uuid",
+    "audit_observation": "string",
+    "risk_reason": "string",
+    "suggested_action": "string"
+  }
+]`,
+    temperature: 0.3,
+  },
+  audit_report: {
+    id: null,
+    prompt_key: "audit_report",
+    version: 1,
+    system_prompt: `You are an expert internal auditor functioning as a professional audit assistant.
+
+CORE PRINCIPLES:
+- Act as a trusted advisor providing factual, evidence-based insights
+- Never speculate - every statement must be traceable to specific data
+- Acknowledge data limitations explicitly rather than overstating conclusions
+- Use professional audit terminology appropriate for executive audiences
+- Ensure findings are SCALABLE and suitable for enterprise audit programs
+- Prioritize clarity and explainability over complexity
+
+Always respond with valid JSON only, no markdown formatting.`,
+    user_prompt: `You are a senior internal auditor at a Big 4 consulting firm acting as a professional audit assistant.
+
+CRITICAL BEHAVIOR RULES:
+1. ALL statistics below are EXACT COUNTS derived from the final classified transaction table - DO NOT infer, estimate, or round these numbers
+2. Use ONLY the exact figures provided - never approximate or use phrases like "approximately", "around", "nearly"
+3. NEVER use speculative language - avoid words like "might", "could", "possibly", "may indicate"
+4. Every numerical statement must match the exact counts provided below
+5. Reference SPECIFIC RISK RULES that triggered findings:
+{{rules}}
+6. Focus on CONTROL WEAKNESSES implied by the findings (e.g., payment authorization, vendor monitoring)
+7. Treat the Benford's Law test as supporting evidence only - cite it when conformity is marginal or nonconformity, never as proof of fraud on its own
+
+EXAMPLE EXECUTIVE SUMMARY STYLE:
+"The analysis of {{total_transactions}} transactions identified {{high_risk_count}} high-risk and {{medium_risk_count}} medium-risk transactions. High-risk flags were triggered by [specific Rule 1/2 conditions]. Medium-risk flags were triggered by [specific Rule 2/3/4 conditions]. These findings indicate potential control weaknesses in payment authorization and vendor monitoring processes."
+
+DATA LIMITATIONS:
+- Analysis is based on exactly {{total_transactions}} transactions from file: {{file_name}}
+- Risk levels are assigned using predefined audit rules, not historical baselines
+{{scoring_note}}
+- Further investigation may be required to confirm initial findings
+
+FILE ANALYZED: {{file_name}}
+ANALYSIS DATE: {{analysis_date}}
+
+===== EXACT STATISTICS FROM CLASSIFIED TABLE (DO NOT MODIFY) =====
+Total Transactions: {{total_transactions}}
+High Risk Count: {{high_risk_count}} ({{high_risk_pct}}%)
+Medium Risk Count: {{medium_risk_count}} ({{medium_risk_pct}}%)
+Low Risk Count: {{low_risk_count}} ({{low_risk_pct}}%)
+
+RISK FACTORS (exact counts from rule triggers):
+{{risk_factors}}
+
+VENDOR ANALYSIS (exact from transaction table):
+{{vendors}}
+
+DEPARTMENT BREAKDOWN (exact from transaction table):
+{{departments}}
+
+BENFORD'S LAW FIRST-DIGIT TEST (exact, amounts >= 10):
+Sample size: {{benford_sample_size}}
+Chi-square: {{benford_chi_square}} (critical value at 5%: {{benford_chi_square_critical}})
+Mean absolute deviation: {{benford_mad}} - {{benford_conformity}}
+Digits deviating significantly (z > 1.96): {{benford_significant_digits}}
+================================================================
+
+Generate a professional audit report with these EXACT sections:
+1. "executive_summary" - 2-3 paragraphs using ONLY the exact statistics above. State which specific rules triggered the high/medium risk flags. Mention control weaknesses.
+2. "risk_posture" - "Satisfactory", "Needs Improvement", or "Unsatisfactory" WITH justification citing specific rule violations and exact counts
+3. "key_risk_themes" - Array of 3-5 themes based on the SPECIFIC RULES that triggered ({{rule_keys}})
+4. "areas_of_attention" - Array of 3-5 items with "area", "priority" (High/Medium/Low), and actionable "recommendation" addressing control gaps
+
+Respond with valid JSON only:
+{
+  "executive_summary": "string",
+  "risk_posture": "string",
+  "key_risk_themes": [{"title": "string", "description": "string"}],
+  "areas_of_attention": [{"area": "string", "priority": "High|Medium|Low", "recommendation": "string"}]
+}`,
+    temperature: 0.4,
+  },
+};
+
+// Latest version of a prompt
+export async function loadPromptTemplate(supabase: SupabaseClient, key: PromptKey): Promise<PromptTemplate> {
+  const { data, error } = await supabase
+    .from("prompt_templates")
+    .select("id, prompt_key, version, system_prompt, user_prompt, temperature")
+    .eq("prompt_key", key)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error(`Failed to fetch prompt ${key}, using the built-in version:`, error);
+    return DEFAULT_PROMPTS[key];
+  }
+  return { ...data, temperature: Number(data.temperature) } as PromptTemplate;
+}
+
+// Fill the {{name}} placeholders of a prompt; placeholders without a value are left as written
+export function renderPrompt(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+// SHA-256 of the JSON form of an artifact's inputs, so the text can be tied to exactly what it was
+// written from
+export async function hashInput(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(value)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,105 @@
+// Redaction of data sent to an AI model: vendor names become stable pseudonyms that are mapped
+// back in the reply, identifiers such as account numbers, emails, phone numbers, PAN and GSTIN are
+// stripped from free text, and fields configured per organisation are masked entirely
+
+// Transaction fields an organisation can choose to withhold from the model. They are masked on
+// the nested transaction object only; the top-level transaction_id is the record key the reply echoes.
+export const MASKABLE_FIELDS = [
+  "transaction_id",
+  "vendor_country",
+  "payment_method",
+  "department",
+  "description",
+] as const;
+export type MaskableField = typeof MASKABLE_FIELDS[number];
+
+// Order matters: GSTIN contains a PAN, and an IBAN or phone number would otherwise be cut up
+// by the plain digit-run pattern
+const SENSITIVE_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, replacement: "[EMAIL]" },
+  { pattern: /\b\d{2}[A-Z]{5}\d{4}[A-Z][A-Z0-9]Z[A-Z0-9]\b/gi, replacement: "[GSTIN]" },
+  { pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/gi, replacement: "[PAN]" },
+  { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g, replacement: "[ACCOUNT]" },
+  { pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g, replacement: "[IFSC]" },
+  { pattern: /\+\d{1,3}[\s-]?\d(?:[\s-]?\d){6,13}\b/g, replacement: "[PHONE]" },
+  { pattern: /\b[6-9]\d{9}\b/g, replacement: "[PHONE]" },
+  { pattern: /\b\d(?:[\s-]?\d){8,17}\b/g, replacement: "[ACCOUNT]" },
+];
+
+// Keys whose values are record identifiers the reply must echo back unchanged
+const PRESERVED_KEYS = new Set(["id", "transaction_id", "session_id"]);
+
+const PSEUDONYM = /VENDOR_\d{4}/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function scrubSensitiveText(text: string): string {
+  return SENSITIVE_PATTERNS.reduce((result, { pattern, replacement }) => result.replace(pattern, replacement), text);
+}
+
+export interface Redactor {
+  // Copy of the value with vendor names pseudonymised and sensitive text removed
+  redact<T>(value: T): T;
+  // Put the real vendor names back into the text (or every string of a parsed reply) written by the model
+  restore<T>(value: T): T;
+}
+
+// vendorNames are the names to pseudonymise wherever they appear, including inside descriptions,
+// rule reasons and evidence
+export function createRedactor(vendorNames: string[], maskedFields: readonly string[] = []): Redactor {
+  const pseudonyms = new Map<string, string>();
+  const originals = new Map<string, string>();
+  for (const name of vendorNames) {
+    const key = name.trim().toUpperCase();
+    if (!key || pseudonyms.has(key)) continue;
+    const pseudonym = `VENDOR_${String(pseudonyms.size + 1).padStart(4, "0")}`;
+    pseudonyms.set(key, pseudonym);
+    originals.set(pseudonym, name.trim());
+  }
+
+  // Longest names first, so "Acme Supplies Ltd" is replaced before "Acme Supplies". Names of one or
+  // two characters would match ordinary words, so they are only replaced in the vendor_name field.
+  const names = [...pseudonyms.keys()].filter((n) => n.length > 2).sort((a, b) => b.length - a.length);
+  const vendorPattern = names.length > 0
+    ? new RegExp(`(?<![A-Za-z0-9])(?:${names.map(escapeRegExp).join("|")})(?![A-Za-z0-9])`, "gi")
+    : null;
+  const masked = new Set(maskedFields);
+
+  const redactText = (text: string) => {
+    const pseudonymised = vendorPattern
+      ? text.replace(vendorPattern, (match) => pseudonyms.get(match.toUpperCase()) ?? match)
+      : text;
+    return scrubSensitiveText(pseudonymised);
+  };
+
+  const walk = (value: unknown, key: string | null, parent: string | null): unknown => {
+    if (parent === "transaction" && key && masked.has(key) && value !== null && value !== undefined) {
+      return "[REDACTED]";
+    }
+    if (typeof value === "string") {
+      if (key === "vendor_name") return pseudonyms.get(value.trim().toUpperCase()) ?? redactText(value);
+      return key && PRESERVED_KEYS.has(key) ? value : redactText(value);
+    }
+    if (Array.isArray(value)) return value.map((item) => walk(item, null, key));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, walk(v, k, key)]));
+    }
+    return value;
+  };
+
+  const restoreValue = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return value.replace(PSEUDONYM, (pseudonym) => originals.get(pseudonym) ?? pseudonym);
+    }
+    if (Array.isArray(value)) return value.map(restoreValue);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreValue(v)]));
+    }
+    return value;
+  };
+
+  return {
+    redact: <T>(value: T) => walk(value, null, null) as T,
+    restore: <T>(value: T) => restoreValue(value) as T,
+  };
+}
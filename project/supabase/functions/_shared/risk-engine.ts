@@ -0,0 +1,1219 @@
+// Rule-based risk engine shared by the analysis and ingest functions
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_LEGAL_SUFFIXES, normalizeVendorName, similarity } from "./fuzzy.ts";
+import { buildCountryLookup, resolveCountry, type CountryRisk } from "./country.ts";
+import { buildWatchlistIndex, screenName, type WatchlistEntry, type WatchlistMatch } from "./watchlist.ts";
+
+export interface Transaction {
+  id: string;
+  transaction_id: string;
+  transaction_date: string;
+  // Signed: bank statement imports record money out as negative
+  amount: number;
+  vendor_name: string;
+  vendor_country: string;
+  // Set by the database trigger from country_risk; absent for rows that were never stored
+  vendor_country_code?: string | null;
+  payment_method: string;
+  department: string;
+  description: string;
+}
+
+export interface RiskFactor {
+  type: string;
+  description: string;
+  severity: "HIGH" | "MEDIUM";
+  rule_version: number;
+  // Rule-specific supporting data (e.g. related transaction IDs)
+  evidence?: Record<string, unknown>;
+}
+
+export interface RiskResult {
+  level: "low" | "medium" | "high";
+  factors: RiskFactor[];
+  score: number;
+  why: string;
+}
+
+// A rule as configured in the risk_rules catalogue
+export interface RuleConfig {
+  rule_key: string;
+  name: string;
+  evaluation_order: number;
+  enabled: boolean;
+  severity: "HIGH" | "MEDIUM";
+  score: number;
+  weight: number;
+  parameters: Record<string, unknown>;
+  version: number;
+}
+
+// strict: first triggered rule decides the result (original behaviour)
+// cumulative: every rule runs and weighted scores are summed, capped at MAX_RISK_SCORE
+export type ScoringMode = "strict" | "cumulative";
+
+export const MAX_RISK_SCORE = 100;
+
+// Dataset-level context shared by all row-level rule evaluations
+export interface RuleContext {
+  // Transaction id -> number of payments sharing its vendor, date and amount
+  duplicateCounts: Map<string, number>;
+  // "VENDOR|DATE" -> number of payments to that vendor on that date
+  vendorDateCounts: Map<string, number>;
+  structuringClusters: Map<string, StructuringCluster>;
+  nearDuplicateGroups: Map<string, NearDuplicateGroup>;
+  vendorBaselines: Map<string, VendorBaseline>;
+  holidays: Map<string, string>;
+  repeatingAmountGroups: Map<string, RepeatingAmountGroup>;
+  // Upper-cased vendor name -> best watchlist match
+  watchlistMatches: Map<string, WatchlistMatch>;
+  // ISO code, name key or alias key -> country risk tier
+  countryLookup: Map<string, CountryRisk>;
+}
+
+// Data loaded from outside the uploaded dataset before the context is built
+export interface RuleReferenceData {
+  priorVendorAmounts?: Map<string, number[]>;
+  holidays?: Map<string, string>;
+  watchlistEntries?: WatchlistEntry[];
+  countryRisk?: CountryRisk[];
+}
+
+interface RepeatingAmountGroup {
+  transactions: Transaction[];
+  distinctDates: number;
+}
+
+// All known amounts for one vendor (current session plus optional prior sessions)
+interface VendorBaseline {
+  sortedAmounts: number[];
+  sum: number;
+  sumOfSquares: number;
+}
+
+// Payments to one vendor inside a rolling window, each just below the threshold
+interface StructuringCluster {
+  transactions: Transaction[];
+  totalAmount: number;
+  firstDate: string;
+  lastDate: string;
+}
+
+// Transactions that match each other within the name, date and amount tolerances
+interface NearDuplicateGroup {
+  transactions: Transaction[];
+  // Lowest pairwise vendor-name similarity that linked the group together
+  similarity: number;
+}
+
+// Outcome of a single rule that fired
+interface RuleHit {
+  score: number;
+  severity: "HIGH" | "MEDIUM";
+  why: string;
+  description: string;
+  evidence?: Record<string, unknown>;
+}
+
+type RuleEvaluator = (transaction: Transaction, rule: RuleConfig, context: RuleContext) => RuleHit | null;
+
+// Built-in catalogue, used only when the risk_rules table cannot be read.
+// Mirrors the seed values of the risk_rules migration.
+const DEFAULT_RULES: RuleConfig[] = [
+  {
+    rule_key: "duplicate_transaction",
+    name: "Duplicate Transaction",
+    evaluation_order: 1,
+    enabled: true,
+    severity: "HIGH",
+    score: 90,
+    weight: 1,
+    parameters: {},
+    version: 0,
+  },
+  {
+    rule_key: "high_value_transaction",
+    name: "High-Value Transaction",
+    evaluation_order: 2,
+    enabled: true,
+    severity: "HIGH",
+    score: 85,
+    weight: 1,
+    parameters: { high_threshold: 1000000, medium_threshold: 500000, medium_score: 60 },
+    version: 0,
+  },
+  {
+    rule_key: "vendor_country_risk",
+    name: "Vendor Country Risk",
+    evaluation_order: 3,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 50,
+    weight: 1,
+    parameters: { high_score: 75, prohibited_score: 100 },
+    version: 0,
+  },
+  {
+    rule_key: "frequency_risk",
+    name: "Frequency Risk",
+    evaluation_order: 4,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 45,
+    weight: 1,
+    parameters: { min_payments: 2 },
+    version: 0,
+  },
+  {
+    rule_key: "split_transaction",
+    name: "Split Transaction",
+    evaluation_order: 5,
+    enabled: true,
+    severity: "HIGH",
+    score: 80,
+    weight: 1,
+    parameters: { threshold: 500000, margin_percent: 10, window_days: 7, min_transactions: 2 },
+    version: 0,
+  },
+  {
+    rule_key: "near_duplicate_transaction",
+    name: "Near-Duplicate Transaction",
+    evaluation_order: 6,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 65,
+    weight: 1,
+    parameters: {
+      name_similarity: 0.85,
+      date_tolerance_days: 3,
+      amount_tolerance_percent: 1,
+      legal_suffixes: DEFAULT_LEGAL_SUFFIXES,
+    },
+    version: 0,
+  },
+  {
+    rule_key: "vendor_amount_outlier",
+    name: "Vendor Amount Outlier",
+    evaluation_order: 7,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 55,
+    weight: 1,
+    parameters: {
+      method: "zscore",
+      zscore_threshold: 3,
+      iqr_multiplier: 1.5,
+      min_history: 5,
+      include_prior_sessions: false,
+    },
+    version: 0,
+  },
+  {
+    rule_key: "off_calendar_posting",
+    name: "Off-Calendar Posting",
+    evaluation_order: 8,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 40,
+    weight: 1,
+    parameters: {
+      flag_weekends: true,
+      weekend_days: ["SATURDAY", "SUNDAY"],
+      flag_holidays: true,
+      holiday_countries: [],
+      period_close_date: "",
+    },
+    version: 0,
+  },
+  {
+    rule_key: "round_amount",
+    name: "Round Amount",
+    evaluation_order: 9,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 35,
+    weight: 1,
+    parameters: { base: 10000, min_amount: 10000 },
+    version: 0,
+  },
+  {
+    rule_key: "repeating_amount",
+    name: "Repeating Amount",
+    evaluation_order: 10,
+    enabled: true,
+    severity: "MEDIUM",
+    score: 45,
+    weight: 1,
+    parameters: { min_occurrences: 3, min_amount: 1000 },
+    version: 0,
+  },
+  {
+    rule_key: "watchlist_match",
+    name: "Watchlist Match",
+    evaluation_order: 11,
+    enabled: true,
+    severity: "HIGH",
+    score: 95,
+    weight: 1,
+    parameters: { min_score: 0.9, sources: [] },
+    version: 0,
+  },
+];
+
+// Fallback country tiers when the country_risk table cannot be read
+const DEFAULT_COUNTRY_RISK: CountryRisk[] = [
+  { iso_code: "PA", name: "Panama", aliases: ["PAN", "REPUBLIC OF PANAMA"], tier: "medium" },
+  { iso_code: "AE", name: "United Arab Emirates", aliases: ["ARE", "UAE", "EMIRATES"], tier: "medium" },
+];
+
+// Parameter accessors - fall back to the default when a value is missing or malformed
+function numberParam(rule: RuleConfig, key: string, fallback: number): number {
+  const value = Number(rule.parameters?.[key]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function stringParam(rule: RuleConfig, key: string, fallback: string): string {
+  const value = rule.parameters?.[key];
+  return typeof value === "string" && value.trim() ? value.trim() : fallback;
+}
+
+function booleanParam(rule: RuleConfig, key: string, fallback: boolean): boolean {
+  const value = rule.parameters?.[key];
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function stringListParam(rule: RuleConfig, key: string): string[] {
+  const value = rule.parameters?.[key];
+  return Array.isArray(value) ? value.map((v) => String(v).trim().toUpperCase()) : [];
+}
+
+export async function loadRuleCatalogue(supabase: SupabaseClient): Promise<RuleConfig[]> {
+  const { data, error } = await supabase
+    .from("risk_rules")
+    .select("rule_key, name, evaluation_order, enabled, severity, score, weight, parameters, version")
+    .order("evaluation_order", { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    console.warn("Risk rule catalogue unavailable, using built-in defaults:", error?.message);
+    return DEFAULT_RULES;
+  }
+
+  return data.map((rule) => ({ ...rule, weight: Number(rule.weight ?? 1) })) as RuleConfig[];
+}
+
+async function loadCountryRisk(supabase: SupabaseClient): Promise<CountryRisk[]> {
+  const { data, error } = await supabase
+    .from("country_risk")
+    .select("iso_code, name, aliases, tier");
+
+  if (error || !data || data.length === 0) {
+    console.error("Failed to load country risk tiers, using defaults:", error);
+    return DEFAULT_COUNTRY_RISK;
+  }
+  return data as CountryRisk[];
+}
+
+export async function loadScoringMode(supabase: SupabaseClient): Promise<ScoringMode> {
+  const { data, error } = await supabase
+    .from("risk_engine_settings")
+    .select("scoring_mode")
+    .maybeSingle();
+
+  if (error || !data) {
+    console.warn("Risk engine settings unavailable, using strict scoring:", error?.message);
+    return "strict";
+  }
+
+  return data.scoring_mode === "cumulative" ? "cumulative" : "strict";
+}
+
+// Size of a payment for thresholds and baselines. Grouping keys (duplicates, repeating amounts)
+// keep the sign so a payment and its refund never match each other.
+const amountOf = (tx: Pick<Transaction, "amount">) => Math.abs(Number(tx.amount) || 0);
+
+// Build duplicate groups at dataset level FIRST
+// Key: "VENDOR|DATE|AMOUNT" -> array of transaction IDs in that group
+function buildDuplicateGroups(transactions: Transaction[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  
+  for (const tx of transactions) {
+    const vendor = (tx.vendor_name ?? "").trim().toUpperCase();
+    const date = tx.transaction_date;
+    const amount = Math.round((Number(tx.amount) || 0) * 100); // cents for precision
+    
+    if (!vendor) continue; // Skip if no vendor
+    
+    const key = `${vendor}|${date}|${amount}`;
+    const existing = groups.get(key) || [];
+    existing.push(tx.id);
+    groups.set(key, existing);
+  }
+  
+  return groups;
+}
+
+// Size of each transaction's duplicate group, keyed by transaction id so rows are looked up directly
+function buildDuplicateCounts(duplicateGroups: Map<string, string[]>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const ids of duplicateGroups.values()) {
+    for (const id of ids) counts.set(id, ids.length);
+  }
+  return counts;
+}
+
+const vendorDateKey = (tx: Transaction) => `${(tx.vendor_name ?? "").trim().toUpperCase()}|${tx.transaction_date}`;
+
+// Payments per vendor per day for the frequency rule
+function buildVendorDateCounts(transactions: Transaction[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const tx of transactions) {
+    if (!(tx.vendor_name ?? "").trim()) continue;
+    const key = vendorDateKey(tx);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Build structuring clusters at dataset level
+// For each vendor, slide a window over the payments that sit just below the threshold and keep
+// windows whose total crosses it. Each transaction is mapped to the largest cluster it belongs to.
+function buildStructuringClusters(transactions: Transaction[], rule: RuleConfig | undefined): Map<string, StructuringCluster> {
+  const clusters = new Map<string, StructuringCluster>();
+  if (!rule?.enabled) return clusters;
+
+  const threshold = numberParam(rule, "threshold", 500000);
+  const floor = threshold * (1 - numberParam(rule, "margin_percent", 10) / 100);
+  const windowMs = numberParam(rule, "window_days", 7) * DAY_MS;
+  const minTransactions = Math.max(2, numberParam(rule, "min_transactions", 2));
+
+  // Candidates: amounts within the margin below the threshold, grouped by vendor
+  const byVendor = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    const vendor = (tx.vendor_name ?? "").trim().toUpperCase();
+    const amount = amountOf(tx);
+    if (!vendor || amount < floor || amount >= threshold) continue;
+    if (Number.isNaN(Date.parse(tx.transaction_date))) continue;
+    const existing = byVendor.get(vendor) || [];
+    existing.push(tx);
+    byVendor.set(vendor, existing);
+  }
+
+  for (const candidates of byVendor.values()) {
+    if (candidates.length < minTransactions) continue;
+    candidates.sort((a, b) => Date.parse(a.transaction_date) - Date.parse(b.transaction_date));
+
+    for (let start = 0; start < candidates.length; start++) {
+      const startTime = Date.parse(candidates[start].transaction_date);
+      let end = start;
+      while (end + 1 < candidates.length && Date.parse(candidates[end + 1].transaction_date) - startTime <= windowMs) {
+        end++;
+      }
+
+      const members = candidates.slice(start, end + 1);
+      const totalAmount = members.reduce((sum, t) => sum + amountOf(t), 0);
+      if (members.length < minTransactions || totalAmount < threshold) continue;
+
+      const cluster: StructuringCluster = {
+        transactions: members,
+        totalAmount,
+        firstDate: members[0].transaction_date,
+        lastDate: members[members.length - 1].transaction_date,
+      };
+      for (const member of members) {
+        const current = clusters.get(member.id);
+        if (!current || current.transactions.length < members.length) {
+          clusters.set(member.id, cluster);
+        }
+      }
+    }
+  }
+
+  return clusters;
+}
+
+// Build near-duplicate groups at dataset level
+// Transactions are bucketed by date window and sorted by amount, so only pairs in the same or the
+// next bucket and inside the amount tolerance are compared; they are linked when their dates and
+// normalised vendor names are also close. Exact duplicates (same raw vendor, date and amount) are
+// left to Rule 1.
+function buildNearDuplicateGroups(transactions: Transaction[], rule: RuleConfig | undefined): Map<string, NearDuplicateGroup> {
+  const groups = new Map<string, NearDuplicateGroup>();
+  if (!rule?.enabled) return groups;
+
+  const minSimilarity = numberParam(rule, "name_similarity", 0.85);
+  const dateToleranceMs = numberParam(rule, "date_tolerance_days", 3) * DAY_MS;
+  const amountTolerance = numberParam(rule, "amount_tolerance_percent", 1) / 100;
+  const suffixes = Array.isArray(rule.parameters?.legal_suffixes)
+    ? stringListParam(rule, "legal_suffixes")
+    : DEFAULT_LEGAL_SUFFIXES;
+
+  // A pair within the date tolerance always sits in one bucket or two neighbouring ones
+  const bucketMs = Math.max(dateToleranceMs, DAY_MS);
+  const candidates = transactions
+    .filter((t) => (t.vendor_name ?? "").trim() && !Number.isNaN(Date.parse(t.transaction_date)))
+    .map((t) => ({
+      tx: t,
+      amount: Number(t.amount) || 0,
+      time: Date.parse(t.transaction_date),
+      bucket: Math.floor(Date.parse(t.transaction_date) / bucketMs),
+      rawVendor: t.vendor_name.trim().toUpperCase(),
+      vendor: normalizeVendorName(t.vendor_name, suffixes),
+    }))
+    .sort((a, b) => a.amount - b.amount);
+
+  const buckets = new Map<number, typeof candidates>();
+  for (const candidate of candidates) {
+    const existing = buckets.get(candidate.bucket) || [];
+    existing.push(candidate);
+    buckets.set(candidate.bucket, existing);
+  }
+
+  // Union-find over matched pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  const linkSimilarity = new Map<string, number>();
+
+  // Each bucket is compared with itself and the next one; pairs inside the next bucket are left to
+  // its own turn. The similarity cache only lives for one window, so it stays as small as the window.
+  for (const [bucket, current] of buckets) {
+    const window = [...current, ...(buckets.get(bucket + 1) ?? [])].sort((a, b) => a.amount - b.amount);
+    const similarityCache = new Map<string, number>();
+
+    for (let i = 0; i < window.length; i++) {
+      const a = window[i];
+      for (let j = i + 1; j < window.length; j++) {
+        const b = window[j];
+        if (b.amount - a.amount > amountTolerance * Math.max(Math.abs(a.amount), Math.abs(b.amount))) break;
+        if (a.bucket !== bucket && b.bucket !== bucket) continue;
+        if (Math.abs(a.time - b.time) > dateToleranceMs) continue;
+
+        const exactDuplicate = a.rawVendor === b.rawVendor && a.time === b.time &&
+          Math.round(a.amount * 100) === Math.round(b.amount * 100);
+        if (exactDuplicate) continue;
+
+        const key = a.vendor < b.vendor ? `${a.vendor}|${b.vendor}` : `${b.vendor}|${a.vendor}`;
+        let score = similarityCache.get(key);
+        if (score === undefined) {
+          score = similarity(a.vendor, b.vendor);
+          similarityCache.set(key, score);
+        }
+        if (score < minSimilarity) continue;
+
+        const rootA = find(a.tx.id);
+        const rootB = find(b.tx.id);
+        const linked = Math.min(score, linkSimilarity.get(rootA) ?? 1, linkSimilarity.get(rootB) ?? 1);
+        parent.set(rootB, rootA);
+        linkSimilarity.set(rootA, linked);
+      }
+    }
+  }
+
+  const members = new Map<string, Transaction[]>();
+  for (const { tx } of candidates) {
+    if (!parent.has(tx.id) && !linkSimilarity.has(tx.id)) continue;
+    const root = find(tx.id);
+    const existing = members.get(root) || [];
+    existing.push(tx);
+    members.set(root, existing);
+  }
+
+  for (const [root, txs] of members) {
+    if (txs.length < 2) continue;
+    const group = { transactions: txs, similarity: linkSimilarity.get(root) ?? 1 };
+    for (const tx of txs) groups.set(tx.id, group);
+  }
+
+  return groups;
+}
+
+const vendorKey = (name: string | null | undefined) => (name ?? "").trim().toUpperCase();
+
+// Build groups of the same exact amount paid to one vendor on different dates
+function buildRepeatingAmountGroups(transactions: Transaction[], rule: RuleConfig | undefined): Map<string, RepeatingAmountGroup> {
+  const groups = new Map<string, RepeatingAmountGroup>();
+  if (!rule?.enabled) return groups;
+
+  const minOccurrences = Math.max(2, numberParam(rule, "min_occurrences", 3));
+  const minAmount = numberParam(rule, "min_amount", 1000);
+
+  const byVendorAmount = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    const vendor = vendorKey(tx.vendor_name);
+    if (!vendor || amountOf(tx) < minAmount) continue;
+    const key = `${vendor}|${Math.round((Number(tx.amount) || 0) * 100)}`;
+    const existing = byVendorAmount.get(key) || [];
+    existing.push(tx);
+    byVendorAmount.set(key, existing);
+  }
+
+  for (const txs of byVendorAmount.values()) {
+    const distinctDates = new Set(txs.map((t) => String(t.transaction_date).slice(0, 10))).size;
+    if (distinctDates < minOccurrences) continue;
+    const group = { transactions: txs, distinctDates };
+    for (const tx of txs) groups.set(tx.id, group);
+  }
+  return groups;
+}
+
+// Load amounts paid to this session's vendors in the user's earlier sessions
+async function loadPriorVendorAmounts(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string | undefined,
+  transactions: Transaction[]
+): Promise<Map<string, number[]>> {
+  const amounts = new Map<string, number[]>();
+  const vendors = new Set(transactions.map((t) => vendorKey(t.vendor_name)).filter(Boolean));
+
+  let sessionsQuery = supabase.from("analysis_sessions").select("id").eq("user_id", userId);
+  if (sessionId) sessionsQuery = sessionsQuery.neq("id", sessionId);
+  const { data: sessions, error: sessionsError } = await sessionsQuery;
+
+  if (sessionsError) {
+    console.error("Failed to fetch prior sessions:", sessionsError);
+    return amounts;
+  }
+  if (!sessions || sessions.length === 0) return amounts;
+
+  const PAGE_SIZE = 1000;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("vendor_name, amount")
+      .in("session_id", sessions.map((s) => s.id))
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Failed to fetch prior vendor history:", error);
+      return amounts;
+    }
+
+    for (const row of data || []) {
+      const vendor = vendorKey(row.vendor_name);
+      if (!vendors.has(vendor)) continue;
+      const existing = amounts.get(vendor) || [];
+      existing.push(amountOf(row));
+      amounts.set(vendor, existing);
+    }
+
+    if (!data || data.length < PAGE_SIZE) return amounts;
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"];
+
+// Load the holiday calendar of the user's organisation (plus organisation-wide entries) for the dataset's date range
+async function loadHolidays(
+  supabase: SupabaseClient,
+  userId: string,
+  rule: RuleConfig,
+  transactions: Transaction[]
+): Promise<Map<string, string>> {
+  const holidays = new Map<string, string>();
+  const dates = transactions
+    .map((t) => String(t.transaction_date ?? "").slice(0, 10))
+    .filter((d) => ISO_DATE.test(d))
+    .sort();
+  if (dates.length === 0) return holidays;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("organization")
+    .eq("user_id", userId)
+    .maybeSingle();
+  const organization = profile?.organization?.trim() || null;
+
+  let query = supabase
+    .from("holidays")
+    .select("holiday_date, name, organization, country")
+    .gte("holiday_date", dates[0])
+    .lte("holiday_date", dates[dates.length - 1]);
+  const countries = stringListParam(rule, "holiday_countries");
+  if (countries.length > 0) query = query.in("country", countries);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Failed to fetch holidays:", error);
+    return holidays;
+  }
+
+  for (const row of data || []) {
+    if (row.organization && row.organization !== organization) continue;
+    holidays.set(row.holiday_date, row.name);
+  }
+  return holidays;
+}
+
+// Load every imported watchlist entry, optionally limited to some sources
+async function loadWatchlistEntries(supabase: SupabaseClient, rule: RuleConfig): Promise<WatchlistEntry[]> {
+  const entries: WatchlistEntry[] = [];
+  const sources = stringListParam(rule, "sources");
+
+  const PAGE_SIZE = 1000;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("watchlist_entries")
+      .select("source, external_id, name, aliases, entry_type, programs")
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (sources.length > 0) query = query.in("source", sources);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Failed to fetch watchlist entries:", error);
+      return entries;
+    }
+
+    entries.push(...((data || []) as WatchlistEntry[]));
+    if (!data || data.length < PAGE_SIZE) return entries;
+  }
+}
+
+// Screen each distinct vendor name once against the watchlist
+function buildWatchlistMatches(
+  transactions: Transaction[],
+  rule: RuleConfig | undefined,
+  entries: WatchlistEntry[]
+): Map<string, WatchlistMatch> {
+  const matches = new Map<string, WatchlistMatch>();
+  if (!rule?.enabled || entries.length === 0) return matches;
+
+  const index = buildWatchlistIndex(entries);
+  const minScore = numberParam(rule, "min_score", 0.9);
+
+  for (const vendor of new Set(transactions.map((t) => vendorKey(t.vendor_name)))) {
+    if (!vendor) continue;
+    const match = screenName(index, vendor, minScore);
+    if (match) matches.set(vendor, match);
+  }
+  return matches;
+}
+
+// Build per-vendor amount baselines at dataset level
+function buildVendorBaselines(transactions: Transaction[], priorAmounts: Map<string, number[]>): Map<string, VendorBaseline> {
+  const byVendor = new Map<string, number[]>();
+  for (const tx of transactions) {
+    const vendor = vendorKey(tx.vendor_name);
+    if (!vendor) continue;
+    const existing = byVendor.get(vendor) || [...(priorAmounts.get(vendor) || [])];
+    existing.push(amountOf(tx));
+    byVendor.set(vendor, existing);
+  }
+
+  const baselines = new Map<string, VendorBaseline>();
+  for (const [vendor, amounts] of byVendor) {
+    baselines.set(vendor, {
+      sortedAmounts: amounts.sort((a, b) => a - b),
+      sum: amounts.reduce((acc, a) => acc + a, 0),
+      sumOfSquares: amounts.reduce((acc, a) => acc + a * a, 0),
+    });
+  }
+  return baselines;
+}
+
+// A vendor's other payments: the baseline with one payment of the tested amount left out. Read
+// through an index rather than copied, since every row of the vendor shares the same sorted list.
+interface PaymentHistory {
+  count: number;
+  at: (index: number) => number;
+  sum: number;
+  sumOfSquares: number;
+}
+
+function historyExcluding(baseline: VendorBaseline, amount: number): PaymentHistory {
+  const sorted = baseline.sortedAmounts;
+  // First position holding the tested amount (it is always in the baseline)
+  let skip = 0;
+  for (let high = sorted.length; skip < high; ) {
+    const mid = (skip + high) >> 1;
+    if (sorted[mid] < amount) skip = mid + 1;
+    else high = mid;
+  }
+
+  return {
+    count: sorted.length - 1,
+    at: (index) => sorted[index < skip ? index : index + 1],
+    sum: baseline.sum - amount,
+    sumOfSquares: baseline.sumOfSquares - amount * amount,
+  };
+}
+
+function quantile(history: PaymentHistory, q: number): number {
+  const position = (history.count - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return history.at(lower) + (history.at(upper) - history.at(lower)) * (position - lower);
+}
+
+// RULE 1: Duplicate Transaction Rule
+function evaluateDuplicate(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const count = context.duplicateCounts.get(transaction.id) ?? 0;
+  if (count < 2) return null;
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 1 triggered: Duplicate transaction (${count} occurrences)`,
+    description: `DUPLICATE TRANSACTION (Rule 1): Same vendor, amount, and date occurs ${count} times`,
+  };
+}
+
+// RULE 2: High-Value Transaction Rule (two tiers)
+function evaluateHighValue(transaction: Transaction, rule: RuleConfig): RuleHit | null {
+  const amount = amountOf(transaction);
+  const highThreshold = numberParam(rule, "high_threshold", 1000000);
+  const mediumThreshold = numberParam(rule, "medium_threshold", 500000);
+
+  if (amount > highThreshold) {
+    return {
+      score: rule.score,
+      severity: rule.severity,
+      why: `Rule 2 triggered: Amount > ${highThreshold.toLocaleString()}`,
+      description: `HIGH-VALUE TRANSACTION (Rule 2): Amount ₹${amount.toLocaleString()} exceeds ₹${highThreshold.toLocaleString()}`,
+    };
+  }
+
+  if (amount >= mediumThreshold && amount <= highThreshold) {
+    return {
+      score: numberParam(rule, "medium_score", 60),
+      severity: "MEDIUM",
+      why: `Rule 2 triggered: Amount between ${mediumThreshold.toLocaleString()} and ${highThreshold.toLocaleString()}`,
+      description: `HIGH-VALUE TRANSACTION (Rule 2): Amount ₹${amount.toLocaleString()} is between ₹${mediumThreshold.toLocaleString()} and ₹${highThreshold.toLocaleString()}`,
+    };
+  }
+
+  return null;
+}
+
+// RULE 3: Vendor Risk Rule
+function evaluateVendorCountry(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const country = transaction.vendor_country_code
+    ? context.countryLookup.get(transaction.vendor_country_code.toUpperCase()) ?? null
+    : resolveCountry(context.countryLookup, transaction.vendor_country);
+
+  if (!country || country.tier === "low") return null;
+
+  const tierLabel = country.tier.toUpperCase();
+  const hit = {
+    why: `Rule 3 triggered: Vendor country ${country.name} (${country.iso_code}) is ${tierLabel} risk`,
+    description: `VENDOR COUNTRY RISK (Rule 3): Vendor country "${transaction.vendor_country}" is ${country.name} (${country.iso_code}), tier ${tierLabel}`,
+    evidence: { iso_code: country.iso_code, tier: country.tier },
+  };
+
+  if (country.tier === "prohibited") {
+    return { ...hit, score: numberParam(rule, "prohibited_score", 100), severity: "HIGH" };
+  }
+  if (country.tier === "high") {
+    return { ...hit, score: numberParam(rule, "high_score", 75), severity: "HIGH" };
+  }
+  return { ...hit, score: rule.score, severity: rule.severity };
+}
+
+// RULE 4: Frequency Rule
+function evaluateFrequency(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  if (!(transaction.vendor_name ?? "").trim()) return null;
+
+  const sameVendorSameDateCount = context.vendorDateCounts.get(vendorDateKey(transaction)) ?? 0;
+
+  if (sameVendorSameDateCount < numberParam(rule, "min_payments", 2)) return null;
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 4 triggered: ${sameVendorSameDateCount} payments to same vendor on same date`,
+    description: `FREQUENCY RISK (Rule 4): ${sameVendorSameDateCount} payments to the same vendor on the same date`,
+  };
+}
+
+// RULE 5: Split Transaction (structuring) Rule
+function evaluateSplitTransaction(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const cluster = context.structuringClusters.get(transaction.id);
+  if (!cluster) return null;
+
+  const threshold = numberParam(rule, "threshold", 500000);
+  const siblingIds = cluster.transactions
+    .filter((t) => t.id !== transaction.id)
+    .map((t) => t.transaction_id);
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 5 triggered: ${cluster.transactions.length} payments just below ₹${threshold.toLocaleString()} totalling ₹${cluster.totalAmount.toLocaleString()}`,
+    description: `SPLIT TRANSACTION (Rule 5): ${cluster.transactions.length} payments to the same vendor between ${cluster.firstDate} and ${cluster.lastDate}, each below ₹${threshold.toLocaleString()}, total ₹${cluster.totalAmount.toLocaleString()}. Related transactions: ${siblingIds.join(", ")}`,
+    evidence: {
+      related_transaction_ids: siblingIds,
+      total_amount: cluster.totalAmount,
+      threshold,
+      window_start: cluster.firstDate,
+      window_end: cluster.lastDate,
+    },
+  };
+}
+
+// RULE 6: Near-Duplicate Transaction Rule
+function evaluateNearDuplicate(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const group = context.nearDuplicateGroups.get(transaction.id);
+  if (!group) return null;
+
+  const matches = group.transactions.filter((t) => t.id !== transaction.id);
+  const similarityPct = Math.round(group.similarity * 100);
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 6 triggered: Near-duplicate of ${matches.length} other payment(s) (${similarityPct}% vendor name similarity)`,
+    description: `NEAR-DUPLICATE TRANSACTION (Rule 6): Matches ${matches.map((t) => `${t.transaction_id} (${t.vendor_name}, ${t.transaction_date}, ₹${Number(t.amount).toLocaleString()})`).join("; ")} with ${similarityPct}% vendor name similarity`,
+    evidence: {
+      matched_transaction_ids: matches.map((t) => t.transaction_id),
+      matched_vendor_names: [...new Set(matches.map((t) => t.vendor_name))],
+      similarity: Number(group.similarity.toFixed(2)),
+    },
+  };
+}
+
+// RULE 7: Vendor Amount Outlier Rule
+function evaluateVendorOutlier(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const baseline = context.vendorBaselines.get(vendorKey(transaction.vendor_name));
+  if (!baseline) return null;
+
+  const amount = amountOf(transaction);
+  // Mean, median, quartiles and spread all come from the history without the transaction being tested
+  const history = historyExcluding(baseline, amount);
+  const historyCount = history.count;
+  if (historyCount < Math.max(2, numberParam(rule, "min_history", 5))) return null;
+
+  const mean = history.sum / historyCount;
+  const median = quantile(history, 0.5);
+  const formatDeviations = (value: number) => (Number.isFinite(value) ? value.toFixed(1) : "∞");
+  const direction = amount > median ? "above" : "below";
+
+  if (stringParam(rule, "method", "zscore") === "iqr") {
+    const q1 = quantile(history, 0.25);
+    const q3 = quantile(history, 0.75);
+    const iqr = q3 - q1;
+    const multiplier = numberParam(rule, "iqr_multiplier", 1.5);
+    if (amount >= q1 - multiplier * iqr && amount <= q3 + multiplier * iqr) return null;
+
+    const deviations = iqr > 0 ? Math.abs(amount - median) / iqr : Infinity;
+    return {
+      score: rule.score,
+      severity: rule.severity,
+      why: `Rule 7 triggered: Amount is ${formatDeviations(deviations)} IQRs ${direction} the vendor median`,
+      description: `VENDOR AMOUNT OUTLIER (Rule 7): Amount ₹${amount.toLocaleString()} is ${formatDeviations(deviations)} interquartile ranges ${direction} the vendor's baseline median ₹${median.toLocaleString()} (mean ₹${Math.round(mean).toLocaleString()}, ${historyCount} other payments)`,
+      evidence: { method: "iqr", baseline_mean: mean, baseline_median: median, q1, q3, deviations, history_count: historyCount },
+    };
+  }
+
+  const variance = historyCount > 1
+    ? Math.max(0, (history.sumOfSquares - historyCount * mean * mean) / (historyCount - 1))
+    : 0;
+  const stdDev = Math.sqrt(variance);
+  const deviations = stdDev > 0 ? Math.abs(amount - mean) / stdDev : (Math.abs(amount - mean) < 0.005 ? 0 : Infinity);
+  if (deviations < numberParam(rule, "zscore_threshold", 3)) return null;
+
+  const zDirection = amount > mean ? "above" : "below";
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 7 triggered: Amount is ${formatDeviations(deviations)} standard deviations ${zDirection} the vendor mean`,
+    description: `VENDOR AMOUNT OUTLIER (Rule 7): Amount ₹${amount.toLocaleString()} is ${formatDeviations(deviations)} standard deviations ${zDirection} the vendor's baseline mean ₹${Math.round(mean).toLocaleString()} (median ₹${median.toLocaleString()}, ${historyCount} other payments)`,
+    evidence: {
+      method: "zscore",
+      baseline_mean: mean,
+      baseline_median: median,
+      std_dev: stdDev,
+      deviations: Number.isFinite(deviations) ? deviations : null,
+      history_count: historyCount,
+    },
+  };
+}
+
+// RULE 8: Off-Calendar Posting Rule
+function evaluateOffCalendar(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const date = String(transaction.transaction_date ?? "").slice(0, 10);
+  if (!ISO_DATE.test(date)) return null;
+
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  const reasons: string[] = [];
+  const evidence: Record<string, unknown> = { weekday };
+
+  if (booleanParam(rule, "flag_weekends", true) && stringListParam(rule, "weekend_days").includes(weekday)) {
+    reasons.push(`on a ${weekday.charAt(0)}${weekday.slice(1).toLowerCase()}`);
+    evidence.weekend = true;
+  }
+
+  const holiday = context.holidays.get(date);
+  if (booleanParam(rule, "flag_holidays", true) && holiday) {
+    reasons.push(`on a public holiday (${holiday})`);
+    evidence.holiday = holiday;
+  }
+
+  const periodClose = stringParam(rule, "period_close_date", "");
+  if (ISO_DATE.test(periodClose) && date > periodClose) {
+    reasons.push(`after the period-close date ${periodClose}`);
+    evidence.period_close_date = periodClose;
+  }
+
+  if (reasons.length === 0) return null;
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 8 triggered: Payment dated ${reasons.join(" and ")}`,
+    description: `OFF-CALENDAR POSTING (Rule 8): Payment dated ${date} ${reasons.join(" and ")}`,
+    evidence,
+  };
+}
+
+// RULE 9: Round Amount Rule
+function evaluateRoundAmount(transaction: Transaction, rule: RuleConfig): RuleHit | null {
+  const amount = amountOf(transaction);
+  const base = numberParam(rule, "base", 10000);
+  if (base <= 0 || amount < Math.max(base, numberParam(rule, "min_amount", base))) return null;
+
+  // Compare in paise so fractional amounts never count as round
+  if (Math.round(amount * 100) % Math.round(base * 100) !== 0) return null;
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 9 triggered: Amount is an exact multiple of ₹${base.toLocaleString()}`,
+    description: `ROUND AMOUNT (Rule 9): Amount ₹${amount.toLocaleString()} is an exact multiple of ₹${base.toLocaleString()}`,
+    evidence: { base, multiple: Math.round(amount / base) },
+  };
+}
+
+// RULE 10: Repeating Amount Rule
+function evaluateRepeatingAmount(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const group = context.repeatingAmountGroups.get(transaction.id);
+  if (!group) return null;
+
+  const amount = amountOf(transaction);
+  const others = group.transactions.filter((t) => t.id !== transaction.id);
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 10 triggered: Same amount paid to this vendor on ${group.distinctDates} different dates`,
+    description: `REPEATING AMOUNT (Rule 10): Exactly ₹${amount.toLocaleString()} paid to ${transaction.vendor_name} on ${group.distinctDates} different dates (${others.map((t) => `${t.transaction_id} on ${t.transaction_date}`).join("; ")})`,
+    evidence: {
+      occurrences: group.transactions.length,
+      distinct_dates: group.distinctDates,
+      matched_transaction_ids: others.map((t) => t.transaction_id),
+    },
+  };
+}
+
+// RULE 11: Watchlist Match Rule
+function evaluateWatchlistMatch(transaction: Transaction, rule: RuleConfig, context: RuleContext): RuleHit | null {
+  const match = context.watchlistMatches.get(vendorKey(transaction.vendor_name));
+  if (!match) return null;
+
+  const scorePct = Math.round(match.score * 100);
+  const listLabel = match.entry.source.replace(/_/g, " ");
+  const programs = match.entry.programs?.length ? ` [${match.entry.programs.join(", ")}]` : "";
+
+  return {
+    score: rule.score,
+    severity: rule.severity,
+    why: `Rule 11 triggered: Vendor name matches ${listLabel} entry "${match.entry.name}" (${scorePct}% match)`,
+    description: `WATCHLIST MATCH (Rule 11): Vendor "${transaction.vendor_name}" matches ${listLabel} entry "${match.entry.name}"${match.matched_on === "alias" ? ` via alias "${match.matched_name}"` : ""}${match.entry.external_id ? ` (ID ${match.entry.external_id})` : ""}${programs} with a ${scorePct}% match score`,
+    evidence: {
+      source: match.entry.source,
+      external_id: match.entry.external_id,
+      entry_name: match.entry.name,
+      matched_name: match.matched_name,
+      matched_on: match.matched_on,
+      entry_type: match.entry.entry_type,
+      programs: match.entry.programs,
+      match_score: Number(match.score.toFixed(2)),
+    },
+  };
+}
+
+// Evaluators keyed by risk_rules.rule_key (also used as risk_factors.type)
+const RULE_EVALUATORS: Record<string, RuleEvaluator> = {
+  duplicate_transaction: evaluateDuplicate,
+  high_value_transaction: evaluateHighValue,
+  vendor_country_risk: evaluateVendorCountry,
+  frequency_risk: evaluateFrequency,
+  split_transaction: evaluateSplitTransaction,
+  near_duplicate_transaction: evaluateNearDuplicate,
+  vendor_amount_outlier: evaluateVendorOutlier,
+  off_calendar_posting: evaluateOffCalendar,
+  round_amount: evaluateRoundAmount,
+  repeating_amount: evaluateRepeatingAmount,
+  watchlist_match: evaluateWatchlistMatch,
+};
+
+// Precompute the dataset-level structures that row-level rules depend on
+export function buildRuleContext(
+  transactions: Transaction[],
+  rules: RuleConfig[],
+  reference: RuleReferenceData = {}
+): RuleContext {
+  const duplicateGroups = buildDuplicateGroups(transactions);
+  console.log(`Found ${[...duplicateGroups.values()].filter(g => g.length > 1).length} duplicate groups`);
+
+  const structuringClusters = buildStructuringClusters(
+    transactions,
+    rules.find((r) => r.rule_key === "split_transaction")
+  );
+  console.log(`Found ${structuringClusters.size} transactions in split-transaction clusters`);
+
+  const nearDuplicateGroups = buildNearDuplicateGroups(
+    transactions,
+    rules.find((r) => r.rule_key === "near_duplicate_transaction")
+  );
+  console.log(`Found ${nearDuplicateGroups.size} transactions in near-duplicate groups`);
+
+  const repeatingAmountGroups = buildRepeatingAmountGroups(
+    transactions,
+    rules.find((r) => r.rule_key === "repeating_amount")
+  );
+  console.log(`Found ${repeatingAmountGroups.size} transactions with repeating amounts`);
+
+  const watchlistMatches = buildWatchlistMatches(
+    transactions,
+    rules.find((r) => r.rule_key === "watchlist_match"),
+    reference.watchlistEntries ?? []
+  );
+  console.log(`Found ${watchlistMatches.size} vendors matching the watchlist`);
+
+  const vendorBaselines = buildVendorBaselines(transactions, reference.priorVendorAmounts ?? new Map());
+
+  return {
+    duplicateCounts: buildDuplicateCounts(duplicateGroups),
+    vendorDateCounts: buildVendorDateCounts(transactions),
+    structuringClusters,
+    nearDuplicateGroups,
+    vendorBaselines,
+    holidays: reference.holidays ?? new Map(),
+    repeatingAmountGroups,
+    watchlistMatches,
+    countryLookup: buildCountryLookup(reference.countryRisk ?? DEFAULT_COUNTRY_RISK),
+  };
+}
+
+// A stored transaction with its current assessment (null until the session has been scored)
+export interface StoredTransaction extends Transaction {
+  risk_assessment:
+    | { risk_level: RiskResult["level"]; risk_score: number }
+    | { risk_level: RiskResult["level"]; risk_score: number }[]
+    | null;
+}
+
+// Fetch a stored session's transactions with their current assessment, paging past the default row limit
+export async function loadSessionTransactions(supabase: SupabaseClient, sessionId: string): Promise<StoredTransaction[]> {
+  const rows: StoredTransaction[] = [];
+  const PAGE_SIZE = 1000;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*, risk_assessment:risk_assessments(risk_level, risk_score)")
+      .eq("session_id", sessionId)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error("Failed to fetch session transactions");
+    rows.push(...((data || []) as StoredTransaction[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Reference data from outside the dataset, only loaded when an enabled rule needs it
+export async function loadReferenceData(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string | undefined,
+  rules: RuleConfig[],
+  transactions: Transaction[]
+): Promise<RuleReferenceData> {
+  const outlierRule = rules.find((r) => r.rule_key === "vendor_amount_outlier");
+  const calendarRule = rules.find((r) => r.rule_key === "off_calendar_posting");
+  const watchlistRule = rules.find((r) => r.rule_key === "watchlist_match");
+  const countryRule = rules.find((r) => r.rule_key === "vendor_country_risk");
+
+  const [priorVendorAmounts, holidays, watchlistEntries, countryRisk] = await Promise.all([
+    outlierRule?.enabled && booleanParam(outlierRule, "include_prior_sessions", false)
+      ? loadPriorVendorAmounts(supabase, userId, sessionId, transactions)
+      : undefined,
+    calendarRule?.enabled && booleanParam(calendarRule, "flag_holidays", true)
+      ? loadHolidays(supabase, userId, calendarRule, transactions)
+      : undefined,
+    watchlistRule?.enabled ? loadWatchlistEntries(supabase, watchlistRule) : undefined,
+    countryRule?.enabled ? loadCountryRisk(supabase) : undefined,
+  ]);
+
+  return { priorVendorAmounts, holidays, watchlistEntries, countryRisk };
+}
+
+function toFactor(rule: RuleConfig, hit: RuleHit): RiskFactor {
+  return {
+    type: rule.rule_key,
+    description: hit.description,
+    severity: hit.severity,
+    rule_version: rule.version,
+    ...(hit.evidence ? { evidence: hit.evidence } : {}),
+  };
+}
+
+export function analyzeTransaction(
+  transaction: Transaction, 
+  rules: RuleConfig[],
+  context: RuleContext,
+  mode: ScoringMode
+): RiskResult {
+  const hits: { rule: RuleConfig; hit: RuleHit }[] = [];
+
+  for (const rule of rules) {
+    const evaluate = RULE_EVALUATORS[rule.rule_key];
+    if (!rule.enabled || !evaluate) continue;
+
+    const hit = evaluate(transaction, rule, context);
+    if (!hit) continue;
+
+    // ============================================================
+    // STRICT EVALUATION ORDER - Early exit when a rule is triggered
+    // ============================================================
+    if (mode === "strict") {
+      return {
+        level: hit.severity === "HIGH" ? "high" : "medium",
+        score: hit.score,
+        why: hit.why,
+        factors: [toFactor(rule, hit)],
+      };
+    }
+
+    hits.push({ rule, hit });
+  }
+
+  // NO RULE TRIGGERED - Assign LOW
+  if (hits.length === 0) {
+    return {
+      level: "low",
+      score: 0,
+      why: "No rule triggered",
+      factors: [],
+    };
+  }
+
+  // CUMULATIVE - Every triggered rule contributes its weighted score; level follows the most severe factor
+  const weightedScore = hits.reduce((sum, { rule, hit }) => sum + hit.score * rule.weight, 0);
+  return {
+    level: hits.some(({ hit }) => hit.severity === "HIGH") ? "high" : "medium",
+    score: Math.min(MAX_RISK_SCORE, Math.round(weightedScore)),
+    why: hits.map(({ hit }) => hit.why).join("; "),
+    factors: hits.map(({ rule, hit }) => toFactor(rule, hit)),
+  };
+}
@@ -0,0 +1,98 @@
+// Fuzzy screening of names against imported sanctions / watchlist entries
+import { DEFAULT_LEGAL_SUFFIXES, normalizeVendorName, tokenSortSimilarity } from "./fuzzy.ts";
+
+export interface WatchlistEntry {
+  source: string;
+  external_id: string | null;
+  name: string;
+  aliases: string[] | null;
+  entry_type: string | null;
+  programs: string[] | null;
+}
+
+export interface WatchlistMatch {
+  entry: WatchlistEntry;
+  matched_name: string;
+  matched_on: "name" | "alias";
+  score: number;
+}
+
+interface IndexedName {
+  entry: WatchlistEntry;
+  raw: string;
+  normalized: string;
+  alias: boolean;
+}
+
+// Names shorter than this (after normalisation) match far too much to be useful
+const MIN_NAME_LENGTH = 3;
+
+export interface WatchlistIndex {
+  // Two-letter token prefix -> names containing a token with that prefix
+  byPrefix: Map<string, IndexedName[]>;
+  legalSuffixes: string[];
+}
+
+const tokenPrefixes = (normalized: string) =>
+  new Set(normalized.split(" ").filter((t) => t.length >= 2).map((t) => t.slice(0, 2)));
+
+// Index every primary name and alias by token prefix. Candidates must share at least one
+// token prefix with the screened name, which keeps screening fast on lists with tens of
+// thousands of names at the cost of missing typos in the first letters of every token.
+export function buildWatchlistIndex(
+  entries: WatchlistEntry[],
+  legalSuffixes: string[] = DEFAULT_LEGAL_SUFFIXES
+): WatchlistIndex {
+  const byPrefix = new Map<string, IndexedName[]>();
+
+  for (const entry of entries) {
+    const names = [
+      { raw: entry.name, alias: false },
+      ...(entry.aliases || []).map((raw) => ({ raw, alias: true })),
+    ];
+    for (const { raw, alias } of names) {
+      const normalized = normalizeVendorName(raw ?? "", legalSuffixes);
+      if (normalized.length < MIN_NAME_LENGTH) continue;
+      const indexed = { entry, raw, normalized, alias };
+      for (const prefix of tokenPrefixes(normalized)) {
+        const bucket = byPrefix.get(prefix) || [];
+        bucket.push(indexed);
+        byPrefix.set(prefix, bucket);
+      }
+    }
+  }
+
+  return { byPrefix, legalSuffixes };
+}
+
+// Best match for a name at or above minScore, or null
+export function screenName(index: WatchlistIndex, name: string, minScore: number): WatchlistMatch | null {
+  const normalized = normalizeVendorName(name ?? "", index.legalSuffixes);
+  if (normalized.length < MIN_NAME_LENGTH) return null;
+
+  const seen = new Set<IndexedName>();
+  let best: WatchlistMatch | null = null;
+
+  for (const prefix of tokenPrefixes(normalized)) {
+    for (const candidate of index.byPrefix.get(prefix) || []) {
+      if (seen.has(candidate)) continue;
+      seen.add(candidate);
+
+      // Edit-distance similarity can never reach minScore when the lengths differ too much
+      const longest = Math.max(candidate.normalized.length, normalized.length);
+      if (Math.abs(candidate.normalized.length - normalized.length) / longest > 1 - minScore) continue;
+
+      const score = tokenSortSimilarity(normalized, candidate.normalized);
+      if (score >= minScore && (!best || score > best.score)) {
+        best = {
+          entry: candidate.entry,
+          matched_name: candidate.raw,
+          matched_on: candidate.alias ? "alias" : "name",
+          score,
+        };
+      }
+    }
+  }
+
+  return best;
+}
@@ -1,5 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  analyzeTransaction,
+  buildRuleContext,
+  loadReferenceData,
+  loadRuleCatalogue,
+  loadScoringMode,
+  loadSessionTransactions,
+  MAX_RISK_SCORE,
+  type RiskResult,
+  type RuleConfig,
+  type ScoringMode,
+  type Transaction,
+} from "../_shared/risk-engine.ts";
+import { mergeExplanations, requestAuditExplanations, type FlaggedTransaction } from "../_shared/ai-explanations.ts";
+import { loadAiProvider, TEMPLATE_PROVIDER, type AiProvider } from "../_shared/ai-provider.ts";
+import { loadPromptTemplate, type PromptTemplate } from "../_shared/prompts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -32,172 +48,288 @@ function checkRateLimit(userId: string): { allowed: boolean; retryAfter?: number
   return { allowed: true };
 }
 
-// Vendor countries that trigger MEDIUM risk (strict rule list)
-const MEDIUM_RISK_COUNTRIES = ["PANAMA", "UAE"];
+// ---------------------------------------------------------------------------
+// What-if simulation: re-score stored sessions with draft rules, writing nothing
+// ---------------------------------------------------------------------------
 
-interface Transaction {
+const MAX_SIMULATION_SESSIONS = 20;
+const MAX_SIMULATION_CHANGES = 500;
+
+type RiskLevel = RiskResult["level"];
+
+// Editable fields of a rule as sent by the rules screen
+interface DraftRule {
+  rule_key: string;
+  enabled?: boolean;
+  severity?: string;
+  score?: number;
+  weight?: number;
+  parameters?: Record<string, unknown>;
+}
+
+interface SimulationChange {
   id: string;
   transaction_id: string;
-  transaction_date: string;
-  amount: number;
+  session_id: string;
   vendor_name: string;
-  vendor_country: string;
-  payment_method: string;
-  department: string;
-  description: string;
+  amount: number;
+  before_level: RiskLevel | null;
+  after_level: RiskLevel;
+  before_score: number | null;
+  after_score: number;
+  why: string;
 }
 
-interface RiskFactor {
-  type: string;
-  description: string;
-  severity: "HIGH" | "MEDIUM";
-}
+type LevelCounts = Record<RiskLevel | "unassessed", number>;
 
-interface RiskResult {
-  level: "low" | "medium" | "high";
-  factors: RiskFactor[];
-  score: number;
-  why: string;
+// Overlay draft values on the stored catalogue; unknown rule keys are ignored
+function applyDraftRules(rules: RuleConfig[], drafts: DraftRule[] | undefined): RuleConfig[] {
+  if (!Array.isArray(drafts)) return rules;
+  const byKey = new Map(drafts.filter((d) => d && typeof d.rule_key === "string").map((d) => [d.rule_key, d]));
+
+  return rules.map((rule) => {
+    const draft = byKey.get(rule.rule_key);
+    if (!draft) return rule;
+
+    const score = Number(draft.score);
+    const weight = Number(draft.weight);
+    return {
+      ...rule,
+      enabled: typeof draft.enabled === "boolean" ? draft.enabled : rule.enabled,
+      severity: draft.severity === "HIGH" || draft.severity === "MEDIUM" ? draft.severity : rule.severity,
+      score: Number.isFinite(score) ? Math.min(Math.max(score, 0), MAX_RISK_SCORE) : rule.score,
+      weight: Number.isFinite(weight) && weight >= 0 ? weight : rule.weight,
+      parameters: draft.parameters && typeof draft.parameters === "object" && !Array.isArray(draft.parameters)
+        ? draft.parameters
+        : rule.parameters,
+    };
+  });
 }
 
-// Build duplicate groups at dataset level FIRST
-// Key: "VENDOR|DATE|AMOUNT" -> array of transaction IDs in that group
-function buildDuplicateGroups(transactions: Transaction[]): Map<string, string[]> {
-  const groups = new Map<string, string[]>();
-  
-  for (const tx of transactions) {
-    const vendor = (tx.vendor_name ?? "").trim().toUpperCase();
-    const date = tx.transaction_date;
-    const amount = Math.round((Number(tx.amount) || 0) * 100); // cents for precision
-    
-    if (!vendor) continue; // Skip if no vendor
-    
-    const key = `${vendor}|${date}|${amount}`;
-    const existing = groups.get(key) || [];
-    existing.push(tx.id);
-    groups.set(key, existing);
+async function simulateSessions(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionIds: string[],
+  rules: RuleConfig[],
+  scoringMode: ScoringMode
+) {
+  const { data: sessions, error } = await supabase
+    .from("analysis_sessions")
+    .select("id, file_name")
+    .in("id", sessionIds);
+
+  if (error || !sessions || sessions.length === 0) {
+    throw new Error("Session not found or access denied");
   }
-  
-  return groups;
-}
 
-// Check if a transaction is part of a duplicate group (group size > 1)
-function isDuplicate(txId: string, duplicateGroups: Map<string, string[]>): { isDup: boolean; count: number } {
-  for (const [, ids] of duplicateGroups) {
-    if (ids.includes(txId) && ids.length > 1) {
-      return { isDup: true, count: ids.length };
+  const before: LevelCounts = { low: 0, medium: 0, high: 0, unassessed: 0 };
+  const after: LevelCounts = { low: 0, medium: 0, high: 0, unassessed: 0 };
+  const transitions: Record<string, number> = {};
+  const changes: SimulationChange[] = [];
+  let changedCount = 0;
+  let total = 0;
+
+  // Each session is scored on its own, exactly as it was when uploaded
+  for (const session of sessions) {
+    const transactions = await loadSessionTransactions(supabase, session.id);
+    const reference = await loadReferenceData(supabase, userId, session.id, rules, transactions);
+    const context = buildRuleContext(transactions, rules, reference);
+
+    for (const tx of transactions) {
+      const stored = Array.isArray(tx.risk_assessment) ? tx.risk_assessment[0] : tx.risk_assessment;
+      const result = analyzeTransaction(tx, rules, context, scoringMode);
+      const beforeLevel = stored?.risk_level ?? null;
+
+      total++;
+      before[beforeLevel ?? "unassessed"]++;
+      after[result.level]++;
+
+      if (beforeLevel === result.level && stored?.risk_score === result.score) continue;
+
+      changedCount++;
+      if (beforeLevel !== result.level) {
+        const key = `${beforeLevel ?? "unassessed"}->${result.level}`;
+        transitions[key] = (transitions[key] || 0) + 1;
+      }
+      if (changes.length < MAX_SIMULATION_CHANGES) {
+        changes.push({
+          id: tx.id,
+          transaction_id: tx.transaction_id,
+          session_id: session.id,
+          vendor_name: tx.vendor_name,
+          amount: Number(tx.amount),
+          before_level: beforeLevel,
+          after_level: result.level,
+          before_score: stored?.risk_score ?? null,
+          after_score: result.score,
+          why: result.why,
+        });
+      }
     }
   }
-  return { isDup: false, count: 0 };
+
+  // Level changes first, biggest score movements first
+  changes.sort((a, b) =>
+    Number(b.before_level !== b.after_level) - Number(a.before_level !== a.after_level) ||
+    Math.abs(b.after_score - (b.before_score ?? 0)) - Math.abs(a.after_score - (a.before_score ?? 0))
+  );
+
+  return {
+    sessions: sessions.map((s) => ({ id: s.id, file_name: s.file_name })),
+    scoring_mode: scoringMode,
+    total,
+    before,
+    after,
+    transitions,
+    changed_count: changedCount,
+    changes,
+    changes_truncated: changedCount > changes.length,
+  };
 }
 
-function analyzeTransaction(
-  transaction: Transaction, 
-  allTransactions: Transaction[],
-  duplicateGroups: Map<string, string[]>
-): RiskResult {
-  // Normalize values for comparison
-  const vendorNameRaw = transaction.vendor_name ?? "";
-  const vendorName = vendorNameRaw.trim().toUpperCase();
-  const txDate = transaction.transaction_date;
-  const amount = Number(transaction.amount) || 0;
-  const amountK = Math.round(amount / 1000);
-
-  let vendorCountry = (transaction.vendor_country ?? "").trim().toUpperCase();
-  if (vendorCountry === "UNITED ARAB EMIRATES") vendorCountry = "UAE";
-
-  // ============================================================
-  // STRICT EVALUATION ORDER - Early exit when HIGH is triggered
-  // ============================================================
-
-  // RULE 1: Duplicate Transaction Rule (HIGH) - EVALUATE FIRST
-  const { isDup, count } = isDuplicate(transaction.id, duplicateGroups);
-  if (isDup) {
-    // HIGH triggered - STOP further evaluation
-    return {
-      level: "high",
-      score: 90,
-      why: `Rule 1 triggered: Duplicate transaction (${count} occurrences)`,
-      factors: [{
-        type: "duplicate_transaction",
-        description: `DUPLICATE TRANSACTION (Rule 1): Same vendor, amount, and date occurs ${count} times`,
-        severity: "HIGH",
-      }],
-    };
-  }
+// Rows re-scored and applied per write, so neither the scoring nor the request grows with the session
+const RESCORE_BATCH_SIZE = 1000;
+// Level changes explained per write, and how many of them per re-analysis are sent to the model;
+// the rest get template explanations so the re-analysis request stays within its time limit
+const EXPLANATION_BATCH_SIZE = 100;
+const MAX_AI_EXPLAINED_CHANGES = 100;
+
+// Provider for one re-analysis's explanations, switched to the templates once MAX_AI_EXPLAINED_CHANGES
+// rows went to the model or the provider stopped answering
+interface LevelChangeExplainer {
+  aiProvider: AiProvider;
+  prompt: PromptTemplate;
+  aiExplained: number;
+}
 
-  // RULE 2: High-Value Transaction Rule
-  if (amount > 1000000) {
-    // HIGH triggered - STOP further evaluation
-    return {
-      level: "high",
-      score: 85,
-      why: `Rule 2 triggered: Amount > 1,000,000`,
-      factors: [{
-        type: "high_value_transaction",
-        description: `HIGH-VALUE TRANSACTION (Rule 2): Amount ₹${amount.toLocaleString()} exceeds ₹1,000,000`,
-        severity: "HIGH",
-      }],
-    };
-  }
-  
-  if (amount >= 500000 && amount <= 1000000) {
-    // MEDIUM triggered
-    return {
-      level: "medium",
-      score: 60,
-      why: `Rule 2 triggered: Amount between 500,000 and 1,000,000`,
-      factors: [{
-        type: "high_value_transaction",
-        description: `HIGH-VALUE TRANSACTION (Rule 2): Amount ₹${amount.toLocaleString()} is between ₹500,000 and ₹1,000,000`,
-        severity: "MEDIUM",
-      }],
-    };
-  }
+// Re-explain the flagged rows of one applied batch whose risk level changed, highest score first; the
+// rescore cleared their old explanation. AI is best effort: after a rate limit or exhausted credits
+// the templates write the rest.
+async function explainLevelChanges(
+  supabase: SupabaseClient,
+  sessionId: string,
+  explainer: LevelChangeExplainer,
+  changed: FlaggedTransaction[]
+) {
+  changed.sort((a, b) => b.risk_score - a.risk_score);
+
+  for (let i = 0; i < changed.length; i += EXPLANATION_BATCH_SIZE) {
+    if (explainer.aiExplained >= MAX_AI_EXPLAINED_CHANGES) explainer.aiProvider = TEMPLATE_PROVIDER;
+
+    const batch = changed.slice(i, i + EXPLANATION_BATCH_SIZE);
+    const outcome = await requestAuditExplanations(explainer.aiProvider, explainer.prompt, batch);
+    if (explainer.aiProvider.kind !== "template") explainer.aiExplained += batch.length;
+    if (outcome.providerStatus !== null) {
+      console.error(`AI explanations stopped for session ${sessionId} (status ${outcome.providerStatus})`);
+      explainer.aiProvider = TEMPLATE_PROVIDER;
+    }
 
-  // RULE 3: Vendor Risk Rule (MEDIUM)
-  if (vendorCountry && MEDIUM_RISK_COUNTRIES.includes(vendorCountry)) {
-    return {
-      level: "medium",
-      score: 50,
-      why: `Rule 3 triggered: Vendor country is ${vendorCountry}`,
-      factors: [{
-        type: "vendor_country_risk",
-        description: `VENDOR COUNTRY RISK (Rule 3): Vendor country is ${vendorCountry}`,
-        severity: "MEDIUM",
-      }],
-    };
+    const { error } = await supabase.rpc("store_assessment_explanations", {
+      _session_id: sessionId,
+      _explanations: outcome.explanations,
+    });
+    if (error) {
+      console.error("Failed to store explanations:", error);
+      throw new Error("Failed to save re-analysis");
+    }
   }
+}
 
-  // RULE 4: Frequency Rule (MEDIUM)
-  if (vendorName) {
-    const sameVendorSameDateCount = allTransactions.filter((t) => {
-      const otherVendor = (t.vendor_name ?? "").trim().toUpperCase();
-      const otherDate = t.transaction_date;
-      return otherVendor === vendorName && otherDate === txDate;
-    }).length;
+// Re-score a completed session with the current rule set and apply the result one batch at a time.
+// Each batch is applied atomically together with its change to the session's risk counts, and the
+// flagged rows whose level changed are explained again before the next batch, so a failed
+// re-analysis leaves every applied batch consistent.
+async function rerunSession(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string,
+  rules: RuleConfig[],
+  scoringMode: ScoringMode
+) {
+  const { data: session, error: sessionError } = await supabase
+    .from("analysis_sessions")
+    .select("id, status")
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (sessionError || !session) {
+    throw new Error("Session not found or access denied");
+  }
+  if (session.status !== "completed") {
+    throw new Error("Only completed sessions can be re-analyzed");
+  }
 
-    if (sameVendorSameDateCount > 1) {
+  const [transactions, aiProvider, prompt] = await Promise.all([
+    loadSessionTransactions(supabase, sessionId),
+    loadAiProvider(supabase, userId),
+    loadPromptTemplate(supabase, "audit_explanations"),
+  ]);
+  const explainer: LevelChangeExplainer = { aiProvider, prompt, aiExplained: 0 };
+  const reference = await loadReferenceData(supabase, userId, sessionId, rules, transactions);
+  const context = buildRuleContext(transactions, rules, reference);
+  const ruleVersions = Object.fromEntries(
+    rules.filter((r) => r.enabled).map((r) => [r.rule_key, r.version])
+  );
+
+  // Each batch returns the session's counts so far; rescored rows and level changes are summed
+  let result: Record<string, number> = {};
+  let rescored = 0;
+  let levelChanges = 0;
+  for (let i = 0; i < transactions.length; i += RESCORE_BATCH_SIZE) {
+    const changedFlagged: FlaggedTransaction[] = [];
+    const assessments = transactions.slice(i, i + RESCORE_BATCH_SIZE).map((tx) => {
+      const { level, factors, score, why } = analyzeTransaction(tx, rules, context, scoringMode);
+      const stored = Array.isArray(tx.risk_assessment) ? tx.risk_assessment[0] : tx.risk_assessment;
+      if (level !== "low" && stored?.risk_level !== level) {
+        // Same shape as the ingest explanation step reads back, so input hashes are comparable
+        changedFlagged.push({
+          transaction_id: tx.id,
+          risk_score: score,
+          risk_level: level,
+          risk_factors: factors,
+          risk_reason: why,
+          transaction: {
+            session_id: sessionId,
+            transaction_id: tx.transaction_id,
+            transaction_date: tx.transaction_date,
+            amount: tx.amount,
+            vendor_name: tx.vendor_name,
+            vendor_country: tx.vendor_country,
+            payment_method: tx.payment_method,
+            department: tx.department,
+            description: tx.description,
+          } as FlaggedTransaction["transaction"],
+        });
+      }
       return {
-        level: "medium",
-        score: 45,
-        why: `Rule 4 triggered: ${sameVendorSameDateCount} payments to same vendor on same date`,
-        factors: [{
-          type: "frequency_risk",
-          description: `FREQUENCY RISK (Rule 4): ${sameVendorSameDateCount} payments to the same vendor on the same date`,
-          severity: "MEDIUM",
-        }],
+        transaction_id: tx.id,
+        risk_score: score,
+        risk_level: level,
+        risk_factors: factors,
+        risk_reason: why,
+        rule_versions: ruleVersions,
+        scoring_mode: scoringMode,
       };
+    });
+
+    const { data, error } = await supabase.rpc("apply_session_rescore", {
+      _session_id: sessionId,
+      _assessments: assessments,
+    });
+
+    if (error) {
+      console.error("Failed to apply re-scored assessments:", error);
+      throw new Error("Failed to save re-analysis");
     }
+
+    result = data;
+    rescored += data.rescored;
+    levelChanges += data.level_changes;
+    await explainLevelChanges(supabase, sessionId, explainer, changedFlagged);
   }
 
-  // NO RULE TRIGGERED - Assign LOW
-  return {
-    level: "low",
-    score: 0,
-    why: "No rule triggered",
-    factors: [],
-  };
+  return { ...result, rescored, level_changes: levelChanges };
 }
 
 serve(async (req) => {
@@ -259,13 +391,57 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      throw new Error("Service configuration error");
+    const body = await req.json();
+
+    // Simulation mode: score stored sessions with draft rules and return the differences, nothing is written
+    if (body?.mode === "simulate") {
+      const sessionIds: string[] = Array.isArray(body.sessionIds)
+        ? body.sessionIds.filter((id: unknown) => typeof id === "string")
+        : [];
+      if (sessionIds.length === 0) {
+        throw new Error("No sessions selected for simulation");
+      }
+      if (sessionIds.length > MAX_SIMULATION_SESSIONS) {
+        throw new Error(`Too many sessions. Maximum ${MAX_SIMULATION_SESSIONS} sessions per simulation`);
+      }
+
+      const [storedRules, storedMode] = await Promise.all([
+        loadRuleCatalogue(supabase),
+        loadScoringMode(supabase),
+      ]);
+      const draftRules = applyDraftRules(storedRules, body.rules);
+      const draftMode: ScoringMode = body.scoringMode === "cumulative" || body.scoringMode === "strict"
+        ? body.scoringMode
+        : storedMode;
+
+      console.log(`Simulating ${sessionIds.length} sessions with draft rules (${draftMode} scoring)`);
+      const simulation = await simulateSessions(supabase, userId, sessionIds, draftRules, draftMode);
+
+      return new Response(JSON.stringify({ simulation }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
-    const { transactions, sessionId } = await req.json();
+    // Re-run mode: re-score a stored session with the current rules and update it in place
+    if (body?.mode === "rerun") {
+      if (typeof body.sessionId !== "string" || !body.sessionId) {
+        throw new Error("Session ID is required");
+      }
+
+      const [rules, scoringMode] = await Promise.all([
+        loadRuleCatalogue(supabase),
+        loadScoringMode(supabase),
+      ]);
+
+      console.log(`Re-running analysis for session ${body.sessionId} (${scoringMode} scoring)`);
+      const result = await rerunSession(supabase, userId, body.sessionId, rules, scoringMode);
+
+      return new Response(JSON.stringify({ result }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { transactions, sessionId } = body;
 
     if (!transactions || !Array.isArray(transactions) || transactions.length === 0) {
       throw new Error("No transactions provided");
@@ -273,14 +449,23 @@ serve(async (req) => {
 
     console.log(`Analyzing ${transactions.length} transactions for session ${sessionId}`);
 
-    // STEP 1: Build duplicate groups at DATASET level BEFORE row-level analysis
-    // This ensures ALL rows in a duplicate group are flagged consistently
-    const duplicateGroups = buildDuplicateGroups(transactions);
-    console.log(`Found ${[...duplicateGroups.values()].filter(g => g.length > 1).length} duplicate groups`);
-
-    // STEP 2: Calculate risk scores for all transactions using strict audit rules
+    // STEP 1: Load the configured rule catalogue and scoring mode
+    const [rules, scoringMode] = await Promise.all([
+      loadRuleCatalogue(supabase),
+      loadScoringMode(supabase),
+    ]);
+    const ruleVersions = Object.fromEntries(
+      rules.filter((r) => r.enabled).map((r) => [r.rule_key, r.version])
+    );
+
+    // STEP 2: Build duplicate, structuring, near-duplicate and repeating-amount groups and vendor baselines at DATASET level
+    // BEFORE row-level analysis. This ensures ALL rows in a group are flagged consistently
+    const reference = await loadReferenceData(supabase, userId, sessionId, rules, transactions);
+    const context = buildRuleContext(transactions, rules, reference);
+
+    // STEP 3: Calculate risk scores for all transactions using the configured audit rules
     const assessments = transactions.map((tx: Transaction) => {
-      const { level, factors, score, why } = analyzeTransaction(tx, transactions, duplicateGroups);
+      const { level, factors, score, why } = analyzeTransaction(tx, rules, context, scoringMode);
       return {
         transaction_id: tx.id,
         risk_score: score,
@@ -290,6 +475,9 @@ serve(async (req) => {
         risk_reason: why,
         // Include triggered rules summary
         triggered_rules: factors.map((f) => f.type).join(", ") || "None",
+        // Rule versions in force when this row was scored
+        rule_versions: ruleVersions,
+        scoring_mode: scoringMode,
       };
     });
 
@@ -312,127 +500,34 @@ serve(async (req) => {
       };
     });
 
-    // Call AI for audit-ready explanations with professional audit behavior rules
-    const aiPrompt = `You are a senior internal auditor at a Big 4 accounting firm acting as a professional audit assistant.
-
-CRITICAL BEHAVIOR RULES:
-1. NEVER use speculative language (avoid "might", "could", "possibly", "perhaps")
-2. ALWAYS justify every conclusion with specific evidence from the data
-3. If data is insufficient for a definitive conclusion, explicitly state: "Insufficient data to determine [X]. Additional documentation required."
-4. Prioritize EXPLAINABILITY - every finding must be traceable to specific data points
-5. Use professional, factual language suitable for formal audit documentation
-6. Be precise with numbers and percentages
-7. Focus on WHAT was observed, WHY it matters, and WHAT action is needed
-
-For each transaction, provide:
-1. "audit_observation" - A factual 1-2 sentence finding based ONLY on available evidence
-2. "risk_reason" - Specific, evidence-based explanation citing the exact risk factors detected
-3. "suggested_action" - Concrete, actionable next step (e.g., "Request supporting invoice documentation from vendor")
-
-Transactions to analyze:
-${JSON.stringify(txDetails, null, 2)}
-
-Respond with a JSON array matching this structure:
-[
-  {
-    "transaction_id": "uuid",
-    "audit_observation": "string",
-    "risk_reason": "string", 
-    "suggested_action": "string"
-  }
-]`;
-
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { 
-            role: "system", 
-            content: `You are an expert internal auditor functioning as a professional audit assistant.
-
-CORE PRINCIPLES:
-- Act with professional skepticism but avoid speculation
-- Every statement must be evidence-based and justifiable
-- When data is limited, clearly state the limitation rather than guessing
-- Use precise, professional audit terminology
-- Ensure all findings are explainable to both technical and non-technical stakeholders
-
-Always respond with valid JSON only, no markdown formatting.` 
-          },
-          { role: "user", content: aiPrompt }
-        ],
-        temperature: 0.3,
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error("AI API error:", aiResponse.status, errorText);
-      
-      if (aiResponse.status === 429) {
-        return new Response(JSON.stringify({ 
-          error: "Rate limit exceeded. Please try again in a moment.",
-          assessments 
-        }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      
-      if (aiResponse.status === 402) {
-        return new Response(JSON.stringify({ 
-          error: "AI credits exhausted. Please add credits to continue.",
-          assessments 
-        }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+    const aiProvider = await loadAiProvider(supabase, userId);
+    const prompt = await loadPromptTemplate(supabase, "audit_explanations");
+    const outcome = await requestAuditExplanations(aiProvider, prompt, txDetails);
 
-      // Return assessments without AI explanations if AI fails
-      return new Response(JSON.stringify({ assessments }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+    mergeExplanations(assessments, outcome.explanations);
 
-    const aiData = await aiResponse.json();
-    const aiContent = aiData.choices?.[0]?.message?.content;
-
-    if (aiContent) {
-      try {
-        // Clean up potential markdown formatting
-        const cleanContent = aiContent.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        const aiExplanations = JSON.parse(cleanContent);
-
-        // Merge AI explanations with assessments (keep risk_reason strictly rule-based)
-        for (const explanation of aiExplanations) {
-          const assessment = assessments.find((a) => a.transaction_id === explanation.transaction_id);
-          if (assessment) {
-            Object.assign(assessment, {
-              audit_observation: explanation.audit_observation,
-              suggested_action: explanation.suggested_action,
-            });
-          }
-        }
-      } catch (parseError) {
-        console.error("Failed to parse AI response:", parseError);
-        // Continue with assessments without AI explanations
-      }
-    }
+    // Rows explained after a rate limit or exhausted credits carry template explanations
+    const warning = outcome.providerStatus === 429
+      ? "Rate limit exceeded. Template explanations were used for some transactions."
+      : outcome.providerStatus === 402
+        ? "AI credits exhausted. Template explanations were used for some transactions."
+        : undefined;
 
-    return new Response(JSON.stringify({ assessments }), {
+    return new Response(JSON.stringify({ assessments, ...(warning ? { warning } : {}) }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
 
   } catch (error) {
     console.error("Analysis error:", error);
     // Return generic error message to avoid exposing internal details
-    const userSafeErrors = ["No transactions provided"];
+    const userSafeErrors = [
+      "No transactions provided",
+      "No sessions selected for simulation",
+      "Too many sessions",
+      "Session not found or access denied",
+      "Only completed sessions can be re-analyzed",
+      "Session ID is required",
+    ];
     const safeMessage = error instanceof Error && 
       userSafeErrors.some(msg => error.message.includes(msg))
       ? error.message 
@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  computeBenford,
+  computeBenfordByGroup,
+  fetchSessionAmounts,
+  type BenfordGroupResult,
+} from "../_shared/benford.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type GroupBy = "vendor" | "department";
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Authenticate the request
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized: Missing or invalid authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      console.error("Supabase configuration missing");
+      throw new Error("Service configuration error");
+    }
+
+    const supabaseAuth = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: claimsError } = await supabaseAuth.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized: Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = claimsData.claims.sub as string;
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { sessionId, groupBy } = await req.json() as { sessionId: string; groupBy?: GroupBy };
+
+    if (!sessionId) {
+      throw new Error("Session ID is required");
+    }
+
+    // Verify session ownership
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from("analysis_sessions")
+      .select("id")
+      .eq("id", sessionId)
+      .eq("user_id", userId)
+      .single();
+
+    if (sessionError || !session) {
+      throw new Error("Session not found or access denied");
+    }
+
+    const rows = await fetchSessionAmounts(supabaseAdmin, sessionId);
+    const result = computeBenford(rows.map((r) => Number(r.amount)));
+
+    let groups: BenfordGroupResult[] | undefined;
+    if (groupBy === "vendor") {
+      groups = computeBenfordByGroup(rows, (r) => r.vendor_name ?? "", (r) => Number(r.amount));
+    } else if (groupBy === "department") {
+      groups = computeBenfordByGroup(rows, (r) => r.department ?? "", (r) => Number(r.amount));
+    }
+
+    console.log(`Benford analysis for session ${sessionId}: n=${result.sample_size}, MAD=${result.mad}`);
+
+    return new Response(JSON.stringify({ result, groups }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Benford analysis error:", error);
+    const userSafeErrors = ["Session ID is required", "Session not found or access denied"];
+    const safeMessage = error instanceof Error &&
+      userSafeErrors.some(msg => error.message.includes(msg))
+      ? error.message
+      : "Benford analysis failed. Please try again.";
+    return new Response(JSON.stringify({
+      error: safeMessage
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,4 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { computeBenford, fetchSessionAmounts, formatConformity } from "../_shared/benford.ts";
+import { loadAiProvider, parseJsonReply } from "../_shared/ai-provider.ts";
+import { buildTemplateReport, percentOf, type SessionStats } from "../_shared/audit-templates.ts";
+import { hashInput, loadPromptTemplate, renderPrompt } from "../_shared/prompts.ts";
+import { createRedactor } from "../_shared/redaction.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -31,14 +37,85 @@ function checkRateLimit(userId: string): { allowed: boolean; retryAfter?: number
   return { allowed: true };
 }
 
-interface SessionStats {
-  totalTransactions: number;
-  highRiskCount: number;
-  mediumRiskCount: number;
-  lowRiskCount: number;
-  topVendors: { name: string; count: number; totalAmount: number }[];
-  topRiskFactors: { type: string; count: number }[];
-  departmentBreakdown: { department: string; count: number; riskScore: number }[];
+// A rule as configured in the risk_rules catalogue
+interface RuleConfig {
+  rule_key: string;
+  name: string;
+  description: string | null;
+  evaluation_order: number;
+  enabled: boolean;
+  severity: "HIGH" | "MEDIUM";
+  parameters: Record<string, unknown>;
+}
+
+interface ReportAssessment {
+  transaction_id: string;
+  risk_level: string;
+  risk_score: number;
+  risk_factors: unknown;
+  scoring_mode: string | null;
+}
+
+const PAGE_SIZE = 1000;
+
+// Fetch every assessment of the session, filtered through the transaction join rather than an ID list
+async function fetchSessionAssessments(supabase: SupabaseClient, sessionId: string): Promise<ReportAssessment[]> {
+  const rows: ReportAssessment[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("risk_assessments")
+      .select("transaction_id, risk_level, risk_score, risk_factors, scoring_mode, transactions!inner(session_id)")
+      .eq("transactions.session_id", sessionId)
+      .order("transaction_id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error("Failed to fetch risk assessments");
+    rows.push(...((data || []).map(({ transactions: _session, ...assessment }) => assessment) as ReportAssessment[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+const formatInr = (value: unknown) => `₹${Number(value).toLocaleString()}`;
+
+// Describe a configured rule for the prompt so the report cites the thresholds actually in force
+function describeRule(rule: RuleConfig, riskCountries: string[]): string {
+  const label = `Rule ${rule.evaluation_order} (${rule.name.toUpperCase()})`;
+  const params = rule.parameters || {};
+
+  switch (rule.rule_key) {
+    case "duplicate_transaction":
+      return `${label}: Same vendor, same amount, same date occurring more than once → ${rule.severity} risk`;
+    case "high_value_transaction":
+      return `${label}: Amount > ${formatInr(params.high_threshold)} → ${rule.severity} risk; ${formatInr(params.medium_threshold)}-${formatInr(params.high_threshold)} → MEDIUM risk`;
+    case "vendor_country_risk":
+      return `${label}: Vendor country with a medium tier → ${rule.severity} risk; high or prohibited tier → HIGH risk${riskCountries.length > 0 ? ` (currently ${riskCountries.join(", ")})` : ""}`;
+    case "frequency_risk":
+      return `${label}: ${params.min_payments ?? 2} or more payments to same vendor on same date → ${rule.severity} risk`;
+    case "split_transaction":
+      return `${label}: ${params.min_transactions ?? 2}+ payments to same vendor within ${params.window_days} days, each within ${params.margin_percent}% below ${formatInr(params.threshold)}, totalling above it → ${rule.severity} risk`;
+    case "near_duplicate_transaction":
+      return `${label}: Vendor names at least ${Math.round(Number(params.name_similarity) * 100)}% similar after normalisation, dates within ${params.date_tolerance_days} days and amounts within ${params.amount_tolerance_percent}% → ${rule.severity} risk`;
+    case "vendor_amount_outlier":
+      return params.method === "iqr"
+        ? `${label}: Amount outside ${params.iqr_multiplier} × IQR of the vendor's own payment history → ${rule.severity} risk`
+        : `${label}: Amount ${params.zscore_threshold} or more standard deviations from the vendor's own payment history → ${rule.severity} risk`;
+    case "round_amount":
+      return `${label}: Amount is an exact multiple of ${formatInr(params.base)} → ${rule.severity} risk`;
+    case "repeating_amount":
+      return `${label}: Same exact amount (at least ${formatInr(params.min_amount)}) paid to one vendor on ${params.min_occurrences}+ different dates → ${rule.severity} risk`;
+    case "watchlist_match":
+      return `${label}: Vendor name at least ${Math.round(Number(params.min_score) * 100)}% similar to an entry on an imported sanctions / watchlist file → ${rule.severity} risk`;
+    case "off_calendar_posting": {
+      const checks = [
+        params.flag_weekends ? "on a weekend" : null,
+        params.flag_holidays ? "on a public holiday from the holiday calendar" : null,
+        params.period_close_date ? `after the period-close date ${params.period_close_date}` : null,
+      ].filter(Boolean);
+      return `${label}: Payment dated ${checks.join(", ") || "outside the business calendar"} → ${rule.severity} risk`;
+    }
+    default:
+      return `${label}: ${rule.description || rule.name} → ${rule.severity} risk`;
+  }
 }
 
 serve(async (req) => {
@@ -56,12 +133,6 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      throw new Error("Service configuration error");
-    }
-
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
@@ -131,48 +202,31 @@ serve(async (req) => {
       throw new Error("Session not found or access denied");
     }
 
-    // Fetch transactions for this session
-    const { data: transactions, error: txError } = await supabaseAdmin
-      .from("transactions")
-      .select("*")
-      .eq("session_id", sessionId);
-
-    if (txError) {
-      throw new Error("Failed to fetch transactions");
-    }
+    // Fetch transactions and their risk assessments (transactions table doesn't store risk_level)
+    const transactions = await fetchSessionAmounts(supabaseAdmin, sessionId);
+    const riskAssessments = await fetchSessionAssessments(supabaseAdmin, sessionId);
 
     const fileName = session.file_name || "Unknown";
     const analysisDate = new Date(session.created_at).toLocaleDateString();
 
-    // Fetch risk assessments for this session (transactions table doesn't store risk_level)
-    const txIds = (transactions || []).map((t: any) => t.id);
-
-    const { data: riskAssessments, error: raError } = await supabaseAdmin
-      .from("risk_assessments")
-      .select("transaction_id, risk_level, risk_score, risk_factors")
-      .in("transaction_id", txIds);
-
-    if (raError) {
-      throw new Error("Failed to fetch risk assessments");
-    }
-
-    const raByTxId = new Map<string, any>();
-    (riskAssessments || []).forEach((ra: any) => raByTxId.set(ra.transaction_id, ra));
+    const raByTxId = new Map<string, ReportAssessment>();
+    riskAssessments.forEach((ra) => raByTxId.set(ra.transaction_id, ra));
 
     // Calculate session stats
-    const totalTransactions = (transactions || []).length;
-    const highRiskCount = (riskAssessments || []).filter((ra: any) => ra.risk_level === "high").length;
-    const mediumRiskCount = (riskAssessments || []).filter((ra: any) => ra.risk_level === "medium").length;
-    const lowRiskCount = (riskAssessments || []).filter((ra: any) => ra.risk_level === "low").length;
+    const totalTransactions = transactions.length;
+    const highRiskCount = riskAssessments.filter((ra) => ra.risk_level === "high").length;
+    const mediumRiskCount = riskAssessments.filter((ra) => ra.risk_level === "medium").length;
+    const lowRiskCount = riskAssessments.filter((ra) => ra.risk_level === "low").length;
 
     // Build vendor stats - use vendor_name column (Vendor_Name supported at upload)
     const vendorMap = new Map<string, { count: number; totalAmount: number }>();
-    (transactions || []).forEach((t: any) => {
+    transactions.forEach((t) => {
       const vendor = t.vendor_name?.trim() || "Unidentified";
       const existing = vendorMap.get(vendor) || { count: 0, totalAmount: 0 };
       vendorMap.set(vendor, {
         count: existing.count + 1,
-        totalAmount: existing.totalAmount + (t.amount || 0),
+        // Bank statement amounts are signed; vendor exposure counts money in and out alike
+        totalAmount: existing.totalAmount + Math.abs(t.amount || 0),
       });
     });
     const topVendors = Array.from(vendorMap.entries())
@@ -182,7 +236,7 @@ serve(async (req) => {
 
     // Build risk factor stats (risk_factors is an array of objects)
     const riskFactorMap = new Map<string, number>();
-    (riskAssessments || []).forEach((ra: any) => {
+    riskAssessments.forEach((ra) => {
       const factors = Array.isArray(ra.risk_factors) ? ra.risk_factors : [];
       factors.forEach((factor: any) => {
         const key = factor?.type ? String(factor.type) : "unknown";
@@ -196,7 +250,7 @@ serve(async (req) => {
 
     // Build department breakdown (average risk_score per department)
     const deptMap = new Map<string, { count: number; totalScore: number }>();
-    (transactions || []).forEach((t: any) => {
+    transactions.forEach((t) => {
       const dept = t.department || "Unknown";
       const ra = raByTxId.get(t.id);
       const score = ra?.risk_score ?? 0;
@@ -214,6 +268,33 @@ serve(async (req) => {
       }))
       .sort((a, b) => b.riskScore - a.riskScore);
 
+    // Fetch the enabled rule catalogue so the prompt reflects the current configuration
+    const { data: ruleRows, error: rulesError } = await supabaseAdmin
+      .from("risk_rules")
+      .select("rule_key, name, description, evaluation_order, enabled, severity, parameters")
+      .eq("enabled", true)
+      .order("evaluation_order", { ascending: true });
+
+    if (rulesError) {
+      console.error("Failed to fetch risk rules:", rulesError);
+    }
+
+    const enabledRules = (ruleRows || []) as RuleConfig[];
+
+    // Countries currently tiered above low, so the prompt cites them for Rule 3
+    const { data: countryRows } = await supabaseAdmin
+      .from("country_risk")
+      .select("iso_code, name, tier")
+      .neq("tier", "low")
+      .order("iso_code", { ascending: true });
+    const riskCountries = (countryRows || []).map(
+      (c: { iso_code: string; name: string; tier: string }) => `${c.name} (${c.iso_code}): ${c.tier}`
+    );
+    const isCumulative = riskAssessments.some((ra) => ra.scoring_mode === "cumulative");
+    const ruleKeys = enabledRules.length > 0
+      ? enabledRules.map((r) => r.rule_key)
+      : topRiskFactors.map((f) => f.type);
+
     const sessionStats: SessionStats = {
       totalTransactions,
       highRiskCount,
@@ -222,129 +303,94 @@ serve(async (req) => {
       topVendors,
       topRiskFactors,
       departmentBreakdown,
+      // Benford's Law first-digit test over every session amount, as on the Benford page (additional evidence)
+      benford: computeBenford(transactions.map((t) => Number(t.amount))),
     };
 
-    const prompt = `You are a senior internal auditor at a Big 4 consulting firm acting as a professional audit assistant.
-
-CRITICAL BEHAVIOR RULES:
-1. ALL statistics below are EXACT COUNTS derived from the final classified transaction table - DO NOT infer, estimate, or round these numbers
-2. Use ONLY the exact figures provided - never approximate or use phrases like "approximately", "around", "nearly"
-3. NEVER use speculative language - avoid words like "might", "could", "possibly", "may indicate"
-4. Every numerical statement must match the exact counts provided below
-5. Reference SPECIFIC RISK RULES that triggered findings:
-   - Rule 1 (DUPLICATE TRANSACTION): Same vendor, same amount, same date occurring more than once → HIGH risk
-   - Rule 2 (HIGH-VALUE TRANSACTION): Amount > ₹1,000,000 → HIGH risk; ₹500,000-₹1,000,000 → MEDIUM risk
-   - Rule 3 (VENDOR COUNTRY RISK): Vendors from Panama or UAE → MEDIUM risk
-   - Rule 4 (FREQUENCY RISK): Multiple payments to same vendor on same date → MEDIUM risk
-6. Focus on CONTROL WEAKNESSES implied by the findings (e.g., payment authorization, vendor monitoring)
-
-EXAMPLE EXECUTIVE SUMMARY STYLE:
-"The analysis of ${sessionStats.totalTransactions} transactions identified ${sessionStats.highRiskCount} high-risk and ${sessionStats.mediumRiskCount} medium-risk transactions. High-risk flags were triggered by [specific Rule 1/2 conditions]. Medium-risk flags were triggered by [specific Rule 2/3/4 conditions]. These findings indicate potential control weaknesses in payment authorization and vendor monitoring processes."
-
-DATA LIMITATIONS:
-- Analysis is based on exactly ${sessionStats.totalTransactions} transactions from file: ${fileName}
-- Risk levels are assigned using predefined audit rules, not historical baselines
-- Further investigation may be required to confirm initial findings
-
-FILE ANALYZED: ${fileName}
-ANALYSIS DATE: ${analysisDate}
-
-===== EXACT STATISTICS FROM CLASSIFIED TABLE (DO NOT MODIFY) =====
-Total Transactions: ${sessionStats.totalTransactions}
-High Risk Count: ${sessionStats.highRiskCount} (${((sessionStats.highRiskCount / sessionStats.totalTransactions) * 100).toFixed(1)}%)
-Medium Risk Count: ${sessionStats.mediumRiskCount} (${((sessionStats.mediumRiskCount / sessionStats.totalTransactions) * 100).toFixed(1)}%)
-Low Risk Count: ${sessionStats.lowRiskCount} (${((sessionStats.lowRiskCount / sessionStats.totalTransactions) * 100).toFixed(1)}%)
-
-RISK FACTORS (exact counts from rule triggers):
-${sessionStats.topRiskFactors.map(f => `- ${f.type}: ${f.count} occurrences`).join('\n')}
-
-VENDOR ANALYSIS (exact from transaction table):
-${sessionStats.topVendors.map(v => `- ${v.name}: ${v.count} transactions, ₹${v.totalAmount.toLocaleString()} total`).join('\n')}
-
-DEPARTMENT BREAKDOWN (exact from transaction table):
-${sessionStats.departmentBreakdown.map(d => `- ${d.department}: ${d.count} transactions, avg risk score ${d.riskScore.toFixed(0)}`).join('\n')}
-================================================================
-
-Generate a professional audit report with these EXACT sections:
-1. "executive_summary" - 2-3 paragraphs using ONLY the exact statistics above. State which specific rules triggered the high/medium risk flags. Mention control weaknesses.
-2. "risk_posture" - "Satisfactory", "Needs Improvement", or "Unsatisfactory" WITH justification citing specific rule violations and exact counts
-3. "key_risk_themes" - Array of 3-5 themes based on the SPECIFIC RULES that triggered (duplicate_transaction, high_value_transaction, vendor_country_risk, frequency_risk)
-4. "areas_of_attention" - Array of 3-5 items with "area", "priority" (High/Medium/Low), and actionable "recommendation" addressing control gaps
-
-Respond with valid JSON only:
-{
-  "executive_summary": "string",
-  "risk_posture": "string",
-  "key_risk_themes": [{"title": "string", "description": "string"}],
-  "areas_of_attention": [{"area": "string", "priority": "High|Medium|Low", "recommendation": "string"}]
-}`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { 
-            role: "system", 
-            content: `You are an expert internal auditor functioning as a professional audit assistant.
-
-CORE PRINCIPLES:
-- Act as a trusted advisor providing factual, evidence-based insights
-- Never speculate - every statement must be traceable to specific data
-- Acknowledge data limitations explicitly rather than overstating conclusions
-- Use professional audit terminology appropriate for executive audiences
-- Ensure findings are SCALABLE and suitable for enterprise audit programs
-- Prioritize clarity and explainability over complexity
-
-Always respond with valid JSON only, no markdown formatting.` 
-          },
-          { role: "user", content: prompt }
-        ],
-        temperature: 0.4,
-      }),
+    // Vendor names reach the model as pseudonyms and are mapped back in the report it writes
+    const aiProvider = await loadAiProvider(supabaseAdmin, userId);
+    const maskedFields = aiProvider.kind === "template" ? [] : aiProvider.maskedFields;
+    const redactor = createRedactor(sessionStats.topVendors.map((v) => v.name), maskedFields);
+    const promptFileName = redactor.redact(fileName);
+    const promptVendors = redactor.redact(sessionStats.topVendors);
+    const departmentLines = maskedFields.includes("department")
+      ? "- Withheld by the organisation's redaction settings"
+      : redactor
+          .redact(sessionStats.departmentBreakdown)
+          .map(d => `- ${d.department}: ${d.count} transactions, avg risk score ${d.riskScore.toFixed(0)}`)
+          .join('\n');
+
+    const promptTemplate = await loadPromptTemplate(supabaseAdmin, "audit_report");
+    const { benford } = sessionStats;
+    const prompt = renderPrompt(promptTemplate.user_prompt, {
+      rules: enabledRules.map((r) => `   - ${describeRule(r, riskCountries)}`).join('\n'),
+      file_name: promptFileName,
+      analysis_date: analysisDate,
+      scoring_note: isCumulative
+        ? "- Scores are cumulative: a single transaction can trigger several rules, so risk factor counts can exceed the number of flagged transactions"
+        : "- Rules are evaluated in strict order: each flagged transaction records only the first rule it triggered",
+      total_transactions: sessionStats.totalTransactions,
+      high_risk_count: sessionStats.highRiskCount,
+      high_risk_pct: percentOf(sessionStats.highRiskCount, sessionStats.totalTransactions),
+      medium_risk_count: sessionStats.mediumRiskCount,
+      medium_risk_pct: percentOf(sessionStats.mediumRiskCount, sessionStats.totalTransactions),
+      low_risk_count: sessionStats.lowRiskCount,
+      low_risk_pct: percentOf(sessionStats.lowRiskCount, sessionStats.totalTransactions),
+      risk_factors: sessionStats.topRiskFactors.map(f => `- ${f.type}: ${f.count} occurrences`).join('\n'),
+      vendors: promptVendors.map(v => `- ${v.name}: ${v.count} transactions, ₹${v.totalAmount.toLocaleString()} total`).join('\n'),
+      departments: departmentLines,
+      benford_sample_size: benford.sample_size,
+      benford_chi_square: benford.chi_square,
+      benford_chi_square_critical: benford.chi_square_critical,
+      benford_mad: benford.mad,
+      benford_conformity: formatConformity(benford.conformity),
+      benford_significant_digits: benford.digits
+        .filter(d => d.significant)
+        .map(d => `${d.digit} (observed ${d.observed_pct}% vs expected ${d.expected_pct}%)`)
+        .join(', ') || 'None',
+      rule_keys: ruleKeys.join(", "),
+    });
+    // Everything the report is written from, before redaction
+    const inputHash = await hashInput({
+      file_name: fileName,
+      statistics: sessionStats,
+      rules: enabledRules,
+      risk_countries: riskCountries,
+      scoring_mode: isCumulative ? "cumulative" : "strict",
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ 
-          error: "Rate limit exceeded. Please try again in a moment." 
-        }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ 
-          error: "AI credits exhausted. Please add credits to continue." 
-        }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      const errorText = await response.text();
-      console.error("AI API error:", response.status, errorText);
-      throw new Error("Failed to generate report");
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    // A report is always saved: when no model is used, the model is unavailable (including rate limits
+    // and exhausted credits) or its reply is unusable, the template report is saved and marked as such
+    let report: Record<string, unknown> | null = null;
+    if (aiProvider.kind !== "template") {
+      const outcome = await aiProvider.complete(
+        [
+          { role: "system", content: promptTemplate.system_prompt },
+          { role: "user", content: prompt },
+        ],
+        promptTemplate.temperature
+      );
 
-    if (!content) {
-      throw new Error("No content in AI response");
+      if (!outcome.ok) {
+        console.error(`AI report unavailable (status ${outcome.status}), using the template report`);
+      } else {
+        try {
+          const reply = parseJsonReply(outcome.content) as Record<string, unknown> | null;
+          if (typeof reply?.executive_summary === "string" && reply.executive_summary.trim()) {
+            report = redactor.restore(reply);
+          } else {
+            console.error("AI report has no executive summary, using the template report");
+          }
+        } catch (parseError) {
+          console.error("Failed to parse AI report, using the template report:", parseError);
+        }
+      }
     }
+    const reportSource = report ? "ai" : "template";
+    report ??= buildTemplateReport(sessionStats, enabledRules, fileName);
 
-    // Clean and parse the response
-    const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    const report = JSON.parse(cleanContent);
-
-    // Calculate total amount
-    const totalAmount = transactions.reduce((sum: number, t: any) => sum + (t.amount || 0), 0);
+    // Calculate total amount (gross, so signed bank statement amounts do not cancel out)
+    const totalAmount = transactions.reduce((sum, t) => sum + Math.abs(t.amount || 0), 0);
 
     // Save report to database
     const { error: insertError } = await supabaseAdmin
@@ -357,12 +403,17 @@ Always respond with valid JSON only, no markdown formatting.`
         risk_posture: report.risk_posture,
         key_risk_themes: report.key_risk_themes,
         areas_of_attention: report.areas_of_attention,
+        report_source: reportSource,
+        prompt_template_id: reportSource === "ai" ? promptTemplate.id : null,
+        model_id: reportSource === "ai" ? aiProvider.model : "template",
+        input_hash: inputHash,
         statistics: {
           total_transactions: totalTransactions,
           high_risk: highRiskCount,
           medium_risk: mediumRiskCount,
           low_risk: lowRiskCount,
           total_amount: totalAmount,
+          benford: sessionStats.benford,
         },
       });
 
@@ -371,7 +422,7 @@ Always respond with valid JSON only, no markdown formatting.`
       throw new Error("Failed to save report");
     }
 
-    return new Response(JSON.stringify({ report, success: true }), {
+    return new Response(JSON.stringify({ report, report_source: reportSource, success: true }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
 
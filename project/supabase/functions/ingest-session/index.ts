@@ -0,0 +1,656 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  analyzeTransaction,
+  buildRuleContext,
+  loadReferenceData,
+  loadRuleCatalogue,
+  loadScoringMode,
+  loadSessionTransactions,
+  type RuleConfig,
+  type RuleContext,
+  type ScoringMode,
+  type Transaction,
+} from "../_shared/risk-engine.ts";
+import { requestAuditExplanations, type FlaggedTransaction } from "../_shared/ai-explanations.ts";
+import { loadAiProvider, TEMPLATE_PROVIDER, type AiProvider } from "../_shared/ai-provider.ts";
+import { loadPromptTemplate, type PromptTemplate } from "../_shared/prompts.ts";
+
+// Supabase edge runtime global: keeps the worker alive for work finished after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Rate limiting configuration
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const MAX_REQUESTS_PER_WINDOW = 10; // 10 new uploads per hour per user (chunks and resumes are not counted)
+
+// In-memory rate limit store (resets on function cold start)
+const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+
+function checkRateLimit(userId: string): { allowed: boolean; retryAfter?: number } {
+  const now = Date.now();
+  const userLimit = rateLimitStore.get(userId);
+
+  if (!userLimit || now >= userLimit.resetTime) {
+    // Reset or initialize the window
+    rateLimitStore.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
+    return { allowed: true };
+  }
+
+  if (userLimit.count >= MAX_REQUESTS_PER_WINDOW) {
+    const retryAfter = Math.ceil((userLimit.resetTime - now) / 1000);
+    return { allowed: false, retryAfter };
+  }
+
+  userLimit.count++;
+  return { allowed: true };
+}
+
+// Limits mirror the checks on the upload screen
+const MAX_SESSION_ROWS = 500000;
+const MAX_CHUNK_ROWS = 5000;
+const MAX_FILE_NAME_LENGTH = 255;
+const MAX_VENDOR_NAME_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 2000;
+// Excel limits sheet names to 31 characters; other spreadsheet tools allow a little more
+const MAX_SHEET_NAME_LENGTH = 100;
+
+// Original files are archived by the client before the session starts (see the source-files bucket)
+const MAX_SOURCE_FILE_SIZE = 100 * 1024 * 1024;
+
+// Analysis runs in steps; each step stops starting work after this long and hands over to a fresh invocation
+const STEP_BUDGET_MS = 60 * 1000;
+// AI prompts already under way may wait until this point of the step, well inside the edge function's
+// wall-clock limit and the claim timeout; later prompts fall back to templates
+const STEP_DEADLINE_MS = 2 * STEP_BUDGET_MS;
+// A step's claim on its session lapses after this long, so a session whose worker died can be resumed
+const CLAIM_TIMEOUT_MS = 5 * STEP_BUDGET_MS;
+const ASSESSMENT_BATCH_SIZE = 1000;
+// Flagged rows per AI prompt, and how many of a session's flagged rows get AI explanations (highest score
+// first); the rest get template explanations, ASSESSMENT_BATCH_SIZE rows at a time
+const EXPLANATION_BATCH_SIZE = 25;
+const MAX_EXPLAINED_ROWS = 1000;
+
+// Flagged assessment with the transaction details the AI prompt needs
+const FLAGGED_ASSESSMENT_COLUMNS =
+  "transaction_id, risk_score, risk_level, risk_factors, risk_reason, transactions!inner(session_id, transaction_id, transaction_date, amount, vendor_name, vendor_country, payment_method, department, description)";
+
+type IngestRow = Omit<Transaction, "id" | "vendor_country_code"> & {
+  source_sheet: string | null;
+  source_row: number;
+};
+
+interface AnalysisRun {
+  supabase: SupabaseClient;
+  userId: string;
+  sessionId: string;
+  // Claim taken on the session for this step (see analysis_sessions.analysis_claim)
+  claim: string;
+  aiProvider: AiProvider;
+  explanationPrompt: PromptTemplate;
+  startedAt: number;
+}
+
+// Rules and dataset context for a session still being scored, with the rows not yet stored.
+// Kept between steps so a warm worker does not reload and rebuild the whole session each step
+// (resets on function cold start, when the next step rebuilds it).
+interface PreparedScoring {
+  rules: RuleConfig[];
+  scoringMode: ScoringMode;
+  ruleVersions: Record<string, number>;
+  context: RuleContext;
+  pending: Transaction[];
+}
+
+const preparedScoring = new Map<string, PreparedScoring>();
+
+const text = (value: unknown): string => (value === undefined || value === null ? "" : String(value).trim());
+
+const outOfTime = (run: AnalysisRun) => Date.now() - run.startedAt > STEP_BUDGET_MS;
+
+// The archived original must sit in the user's own folder under its SHA-256
+function validateSourceFile(value: unknown, userId: string) {
+  const source = (value ?? {}) as Record<string, unknown>;
+  const sha256 = text(source.sha256).toLowerCase();
+  const path = text(source.path);
+  const size = Number(source.size);
+  if (
+    !/^[0-9a-f]{64}$/.test(sha256) ||
+    !path.startsWith(`${userId}/${sha256}/`) ||
+    path.length > 1024 ||
+    !Number.isInteger(size) ||
+    size < 0 ||
+    size > MAX_SOURCE_FILE_SIZE
+  ) {
+    throw new Error("Invalid source file");
+  }
+  return { source_file_path: path, source_file_sha256: sha256, source_file_size: size };
+}
+
+// Validate one chunk of parsed rows sent by the client and coerce them to the transaction shape
+function validateRows(rows: unknown): IngestRow[] {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new Error("No transactions provided");
+  }
+  if (rows.length > MAX_CHUNK_ROWS) {
+    throw new Error(`Too many transactions in one chunk. Maximum allowed: ${MAX_CHUNK_ROWS}`);
+  }
+
+  return rows.map((raw) => {
+    const row = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const sourceRow = Number(row.source_row);
+    if (!Number.isInteger(sourceRow) || sourceRow < 1) {
+      throw new Error("Invalid row: missing source row number");
+    }
+
+    const sourceSheet = text(row.source_sheet) || null;
+    if (sourceSheet && sourceSheet.length > MAX_SHEET_NAME_LENGTH) {
+      throw new Error(`Invalid row ${sourceRow}: sheet name too long`);
+    }
+
+    const amount = Number(row.amount);
+    const parsed: IngestRow = {
+      source_sheet: sourceSheet,
+      source_row: sourceRow,
+      transaction_id: text(row.transaction_id),
+      transaction_date: text(row.transaction_date),
+      amount,
+      vendor_name: text(row.vendor_name),
+      vendor_country: text(row.vendor_country),
+      payment_method: text(row.payment_method),
+      department: text(row.department),
+      description: text(row.description),
+    };
+
+    if (!parsed.transaction_id || !parsed.vendor_name) {
+      throw new Error(`Invalid row ${sourceRow}: transaction ID and vendor name are required`);
+    }
+    // Signed: bank statement rows record money out as negative
+    if (!Number.isFinite(amount)) {
+      throw new Error(`Invalid row ${sourceRow}: amount must be a number`);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(parsed.transaction_date)) {
+      throw new Error(`Invalid row ${sourceRow}: expected date format YYYY-MM-DD`);
+    }
+    if (parsed.vendor_name.length > MAX_VENDOR_NAME_LENGTH || parsed.description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Invalid row ${sourceRow}: vendor name or description too long`);
+    }
+    return parsed;
+  });
+}
+
+// Load the session and build its dataset-level context. Dataset-level rules are always built from
+// the whole session, so a resumed step produces the same results as an uninterrupted one.
+async function prepareScoring(run: AnalysisRun): Promise<PreparedScoring> {
+  const { supabase, userId, sessionId } = run;
+
+  const transactions = await loadSessionTransactions(supabase, sessionId);
+  const pending = transactions.filter((tx) =>
+    Array.isArray(tx.risk_assessment) ? tx.risk_assessment.length === 0 : !tx.risk_assessment
+  );
+
+  const [rules, scoringMode] = await Promise.all([
+    loadRuleCatalogue(supabase),
+    loadScoringMode(supabase),
+  ]);
+  const ruleVersions = Object.fromEntries(
+    rules.filter((r) => r.enabled).map((r) => [r.rule_key, r.version])
+  );
+
+  const reference = await loadReferenceData(supabase, userId, sessionId, rules, transactions);
+  const context = buildRuleContext(transactions, rules, reference);
+
+  return { rules, scoringMode, ruleVersions, context, pending };
+}
+
+// Score every row that has no assessment yet, reusing the context prepared by an earlier step of
+// this run when the worker still holds it. Storing is idempotent, so rows another worker stored in
+// the meantime are skipped by the database.
+// Returns false when the step ran out of time before every row was stored.
+async function scoreSession(run: AnalysisRun): Promise<boolean> {
+  const { supabase, sessionId } = run;
+
+  let prepared = preparedScoring.get(sessionId);
+  if (!prepared) {
+    prepared = await prepareScoring(run);
+    preparedScoring.set(sessionId, prepared);
+  }
+  const { rules, scoringMode, ruleVersions, context, pending } = prepared;
+
+  for (let stored = 0; pending.length > 0; stored++) {
+    // Every step stores at least one batch so a slow context build cannot stall the session
+    if (stored > 0 && outOfTime(run)) return false;
+
+    const assessments = pending.slice(0, ASSESSMENT_BATCH_SIZE).map((tx) => {
+      const { level, factors, score, why } = analyzeTransaction(tx, rules, context, scoringMode);
+      return {
+        transaction_id: tx.id,
+        risk_score: score,
+        risk_level: level,
+        risk_factors: factors,
+        // Rule-based explanation (do not override with AI)
+        risk_reason: why,
+        rule_versions: ruleVersions,
+        scoring_mode: scoringMode,
+      };
+    });
+
+    const { error } = await supabase.rpc("store_session_assessments", {
+      _session_id: sessionId,
+      _assessments: assessments,
+    });
+    if (error) {
+      console.error("Failed to store assessments:", error);
+      throw new Error("Failed to save transactions");
+    }
+    pending.splice(0, assessments.length);
+  }
+  preparedScoring.delete(sessionId);
+  return true;
+}
+
+// Explain every flagged row, highest score first: AI explanations for the first MAX_EXPLAINED_ROWS,
+// one prompt-sized batch at a time, and template explanations for the rest.
+// AI is best effort: rows the model cannot explain get template explanations, and after a rate limit
+// or exhausted credits the rest of this step is explained by the templates alone.
+// Returns false when the step ran out of time.
+async function explainSession(run: AnalysisRun, explainedRows: number): Promise<boolean> {
+  const { supabase, sessionId } = run;
+
+  let offset = explainedRows;
+  for (;;) {
+    if (offset > explainedRows && outOfTime(run)) return false;
+
+    const aiBatch = offset < MAX_EXPLAINED_ROWS;
+    const batchSize = aiBatch ? Math.min(EXPLANATION_BATCH_SIZE, MAX_EXPLAINED_ROWS - offset) : ASSESSMENT_BATCH_SIZE;
+
+    const { data: batch, error } = await supabase
+      .from("risk_assessments")
+      .select(FLAGGED_ASSESSMENT_COLUMNS)
+      .eq("transactions.session_id", sessionId)
+      .neq("risk_level", "low")
+      .order("risk_score", { ascending: false })
+      .order("transaction_id", { ascending: true })
+      .range(offset, offset + batchSize - 1);
+
+    if (error) {
+      console.error("Failed to fetch flagged assessments:", error);
+      throw new Error("Failed to fetch flagged transactions");
+    }
+    if (!batch || batch.length === 0) return true;
+
+    const outcome = await requestAuditExplanations(
+      aiBatch ? run.aiProvider : TEMPLATE_PROVIDER,
+      run.explanationPrompt,
+      // A many-to-one join, so PostgREST returns one object where the untyped client infers an array
+      batch.map(({ transactions, ...assessment }) => ({
+        ...assessment,
+        transaction: transactions as unknown as FlaggedTransaction["transaction"],
+      })),
+      run.startedAt + STEP_DEADLINE_MS
+    );
+    if (outcome.providerStatus !== null) {
+      console.error(`AI explanations stopped for session ${sessionId} (status ${outcome.providerStatus})`);
+      run.aiProvider = TEMPLATE_PROVIDER;
+    }
+
+    offset += batch.length;
+    const batchIds = new Set(batch.map((a) => a.transaction_id));
+    const { error: saveError } = await supabase.rpc("store_assessment_explanations", {
+      _session_id: sessionId,
+      _explanations: outcome.explanations.filter((e) => batchIds.has(e.transaction_id)),
+      _explained_rows: offset,
+    });
+    if (saveError) {
+      console.error("Failed to store explanations:", saveError);
+      throw new Error("Failed to save transactions");
+    }
+
+    if (batch.length < batchSize) return true;
+  }
+}
+
+// Start the next analysis step in a fresh invocation so no single worker runs past its time limit.
+// It is called with the service-role key because the user's token can expire during a long analysis;
+// the next step checks the user and the claim against the session before it runs.
+async function continueAnalysis(run: AnalysisRun) {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/ingest-session`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${serviceRoleKey}`,
+      apikey: serviceRoleKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ action: "continue", sessionId: run.sessionId, userId: run.userId, claim: run.claim }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to continue analysis of session ${run.sessionId}:`, response.status, await response.text());
+    throw new Error("Failed to continue analysis");
+  }
+}
+
+// One analysis step: score, then explain, then finalise, picking up wherever the session left off
+async function runAnalysisStep(run: AnalysisRun, stage: string | null, explainedRows: number) {
+  const { supabase, sessionId } = run;
+
+  if (stage !== "explaining") {
+    if (!(await scoreSession(run))) return continueAnalysis(run);
+
+    const { error } = await supabase.from("analysis_sessions").update({ stage: "explaining" }).eq("id", sessionId);
+    if (error) throw error;
+  }
+
+  if (!(await explainSession(run, explainedRows))) return continueAnalysis(run);
+
+  const { data, error } = await supabase.rpc("finalize_ingested_session", { _session_id: sessionId });
+  if (error) {
+    console.error("Failed to finalise session:", error);
+    throw new Error("Failed to save transactions");
+  }
+  console.log(`Session ${sessionId} analysed:`, data);
+}
+
+// Record why an ingest failed so the client stops polling and can show the reason.
+// The stage and progress are kept so the analysis can be resumed; the claim is released unless
+// another step has taken the session over.
+async function markSessionFailed(run: AnalysisRun, error: unknown) {
+  const { supabase, sessionId } = run;
+  const message = error instanceof Error && error.message === "Failed to save transactions"
+    ? error.message
+    : "Analysis failed. Please try again.";
+
+  const { error: updateError } = await supabase
+    .from("analysis_sessions")
+    .update({
+      status: "failed",
+      error_message: message,
+      completed_at: new Date().toISOString(),
+      analysis_claim: null,
+      analysis_claimed_at: null,
+    })
+    .eq("id", sessionId)
+    .eq("analysis_claim", run.claim);
+
+  if (updateError) {
+    console.error(`Failed to mark session ${sessionId} as failed:`, updateError);
+  }
+}
+
+// Run one analysis step after the response is sent; the client polls the session row for progress
+async function startAnalysisStep(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string,
+  claim: string,
+  stage: string | null,
+  explainedRows: number
+) {
+  const run: AnalysisRun = {
+    supabase,
+    userId,
+    sessionId,
+    claim,
+    aiProvider: await loadAiProvider(supabase, userId),
+    explanationPrompt: await loadPromptTemplate(supabase, "audit_explanations"),
+    startedAt: Date.now(),
+  };
+
+  EdgeRuntime.waitUntil(
+    runAnalysisStep(run, stage, explainedRows).catch((error) => {
+      console.error(`Analysis failed for session ${sessionId}:`, error);
+      preparedScoring.delete(sessionId);
+      return markSessionFailed(run, error);
+    })
+  );
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Authenticate the request
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized: Missing or invalid authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      console.error("Supabase configuration missing");
+      throw new Error("Service configuration error");
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+
+    // Continue: the next step of a running analysis, started by the previous step (see continueAnalysis).
+    // It runs only if the session still belongs to the user and still holds the previous step's claim.
+    if (token === SUPABASE_SERVICE_ROLE_KEY) {
+      const body = await req.json();
+      const { sessionId, userId, claim } = body ?? {};
+      if (
+        body?.action !== "continue" ||
+        typeof sessionId !== "string" ||
+        typeof userId !== "string" ||
+        typeof claim !== "string"
+      ) {
+        throw new Error("Unknown action");
+      }
+
+      const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const nextClaim = crypto.randomUUID();
+      const { data: session, error: claimError } = await supabaseAdmin
+        .from("analysis_sessions")
+        .update({ analysis_claim: nextClaim, analysis_claimed_at: new Date().toISOString() })
+        .eq("id", sessionId)
+        .eq("user_id", userId)
+        .eq("status", "processing")
+        .eq("analysis_claim", claim)
+        .select("stage, explained_rows")
+        .maybeSingle();
+
+      if (claimError) throw claimError;
+      if (!session) {
+        console.log(`Session ${sessionId} is no longer held by this analysis, not continuing`);
+        return new Response(JSON.stringify({ error: "Analysis already running" }), {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      await startAnalysisStep(supabaseAdmin, userId, sessionId, nextClaim, session.stage, session.explained_rows);
+      return new Response(JSON.stringify({ sessionId }), {
+        status: 202,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized: Invalid token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = claimsData.claims.sub as string;
+    console.log(`Authenticated user: ${userId}`);
+
+    const body = await req.json();
+
+    // Start: create the session that the chunks will be appended to
+    if (body?.action === "start") {
+      const rateLimitResult = checkRateLimit(userId);
+      if (!rateLimitResult.allowed) {
+        return new Response(
+          JSON.stringify({
+            error: "Rate limit exceeded. Please try again later.",
+            retry_after: rateLimitResult.retryAfter
+          }),
+          {
+            status: 429,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+              "Retry-After": String(rateLimitResult.retryAfter)
+            }
+          }
+        );
+      }
+
+      const fileName = text(body.fileName).slice(0, MAX_FILE_NAME_LENGTH);
+      if (!fileName) {
+        throw new Error("File name is required");
+      }
+      const totalRows = Number(body.totalRows);
+      if (!Number.isInteger(totalRows) || totalRows < 1) {
+        throw new Error("No transactions provided");
+      }
+      if (totalRows > MAX_SESSION_ROWS) {
+        throw new Error(`Too many transactions. Maximum allowed: ${MAX_SESSION_ROWS}`);
+      }
+      const sourceFile = validateSourceFile(body.sourceFile, userId);
+
+      const { data: session, error: sessionError } = await supabase
+        .from("analysis_sessions")
+        .insert({
+          user_id: userId,
+          file_name: fileName,
+          total_transactions: totalRows,
+          ...sourceFile,
+          status: "processing",
+          stage: "uploading",
+        })
+        .select("id")
+        .single();
+
+      if (sessionError || !session) {
+        console.error("Failed to create session:", sessionError);
+        throw new Error("Failed to create session");
+      }
+
+      console.log(`Created session ${session.id} for ${totalRows} transactions`);
+      return new Response(JSON.stringify({ sessionId: session.id }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (typeof body?.sessionId !== "string" || !body.sessionId) {
+      throw new Error("Session ID is required");
+    }
+    const sessionId: string = body.sessionId;
+
+    // Append: store one chunk of rows; chunks already stored are ignored, so a retry is safe
+    if (body.action === "append") {
+      const rows = validateRows(body.transactions);
+      const { data: uploadedRows, error } = await supabase.rpc("append_session_rows", {
+        _session_id: sessionId,
+        _rows: rows,
+      });
+
+      if (error) {
+        console.error("Failed to append rows:", error);
+        throw new Error("Failed to save transactions");
+      }
+      return new Response(JSON.stringify({ uploadedRows }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Analyze: run (or resume) the background analysis of a fully uploaded session
+    if (body.action === "analyze") {
+      const { data: session, error: sessionError } = await supabase
+        .from("analysis_sessions")
+        .select("id, status, stage, total_transactions, uploaded_rows, explained_rows")
+        .eq("id", sessionId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (sessionError || !session || session.status === "completed") {
+        throw new Error("Session not found or access denied");
+      }
+      if (session.stage === "uploading" && session.uploaded_rows < (session.total_transactions ?? 0)) {
+        throw new Error("Upload incomplete");
+      }
+
+      // Claim the session unless a step is still running on it
+      const stage = session.stage === "explaining" ? "explaining" : "scoring";
+      const claim = crypto.randomUUID();
+      const claimedBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+      const { data: claimed, error: updateError } = await supabase
+        .from("analysis_sessions")
+        .update({
+          status: "processing",
+          stage,
+          error_message: null,
+          completed_at: null,
+          analysis_claim: claim,
+          analysis_claimed_at: new Date().toISOString(),
+        })
+        .eq("id", sessionId)
+        .or(`analysis_claim.is.null,analysis_claimed_at.lt.${claimedBefore}`)
+        .select("id")
+        .maybeSingle();
+      if (updateError) throw updateError;
+      if (!claimed) {
+        throw new Error("Analysis already running");
+      }
+
+      // Respond straight away; the client polls the session row for progress
+      await startAnalysisStep(supabase, userId, sessionId, claim, stage, session.explained_rows);
+
+      return new Response(JSON.stringify({ sessionId }), {
+        status: 202,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    throw new Error("Unknown action");
+
+  } catch (error) {
+    console.error("Ingest error:", error);
+    // Return generic error message to avoid exposing internal details
+    const userSafeErrors = [
+      "No transactions provided",
+      "Too many transactions",
+      "Invalid row",
+      "File name is required",
+      "Invalid source file",
+      "Failed to create session",
+      "Failed to save transactions",
+      "Session ID is required",
+      "Session not found or access denied",
+      "Upload incomplete",
+      "Analysis already running",
+      "Unknown action",
+    ];
+    const safeMessage = error instanceof Error &&
+      userSafeErrors.some(msg => error.message.includes(msg))
+      ? error.message
+      : "Upload failed. Please try again.";
+    return new Response(JSON.stringify({
+      error: safeMessage
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,132 @@
+-- Create configurable risk rule catalogue (replaces hard-coded rules in analyze-transactions)
+CREATE TABLE public.risk_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_key TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  evaluation_order INTEGER NOT NULL DEFAULT 100,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  severity TEXT NOT NULL DEFAULT 'MEDIUM' CHECK (severity IN ('HIGH', 'MEDIUM')),
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Immutable snapshot of every rule version, so historical assessments stay explainable
+CREATE TABLE public.risk_rule_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID REFERENCES public.risk_rules(id) ON DELETE CASCADE NOT NULL,
+  rule_key TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  severity TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  parameters JSONB NOT NULL,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (rule_id, version)
+);
+
+-- Record which rule versions produced each assessment (rule_key -> version)
+ALTER TABLE public.risk_assessments
+  ADD COLUMN rule_versions JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.risk_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.risk_rule_versions ENABLE ROW LEVEL SECURITY;
+
+-- Risk rules policies: everyone signed in can read, only admins can change configuration
+CREATE POLICY "Authenticated users can view risk rules"
+  ON public.risk_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update risk rules"
+  ON public.risk_rules FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view risk rule versions"
+  ON public.risk_rule_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Bump the version whenever the scoring configuration of a rule changes
+CREATE OR REPLACE FUNCTION public.bump_risk_rule_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.enabled IS DISTINCT FROM OLD.enabled
+    OR NEW.severity IS DISTINCT FROM OLD.severity
+    OR NEW.score IS DISTINCT FROM OLD.score
+    OR NEW.parameters IS DISTINCT FROM OLD.parameters
+    OR NEW.evaluation_order IS DISTINCT FROM OLD.evaluation_order THEN
+    NEW.version = OLD.version + 1;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+-- Snapshot each new version into risk_rule_versions
+CREATE OR REPLACE FUNCTION public.snapshot_risk_rule_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.risk_rule_versions (rule_id, rule_key, version, enabled, severity, score, parameters, changed_by)
+    VALUES (NEW.id, NEW.rule_key, NEW.version, NEW.enabled, NEW.severity, NEW.score, NEW.parameters, NEW.updated_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_risk_rules_version
+  BEFORE UPDATE ON public.risk_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_risk_rule_version();
+
+CREATE TRIGGER snapshot_risk_rules_version
+  AFTER INSERT OR UPDATE ON public.risk_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_risk_rule_version();
+
+-- Seed the catalogue with the values previously hard-coded in analyze-transactions
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'duplicate_transaction',
+    'Duplicate Transaction',
+    'Same vendor, same amount and same date occurring more than once in the dataset',
+    1, 'HIGH', 90,
+    '{}'::jsonb
+  ),
+  (
+    'high_value_transaction',
+    'High-Value Transaction',
+    'Amount above the high threshold is HIGH risk; amount between the medium and high thresholds is MEDIUM risk',
+    2, 'HIGH', 85,
+    '{"high_threshold": 1000000, "medium_threshold": 500000, "medium_score": 60}'::jsonb
+  ),
+  (
+    'vendor_country_risk',
+    'Vendor Country Risk',
+    'Vendor country appears on the configured risk country list',
+    3, 'MEDIUM', 50,
+    '{"countries": ["PANAMA", "UAE"], "aliases": {"UNITED ARAB EMIRATES": "UAE"}}'::jsonb
+  ),
+  (
+    'frequency_risk',
+    'Frequency Risk',
+    'Multiple payments to the same vendor on the same date',
+    4, 'MEDIUM', 45,
+    '{"min_payments": 2}'::jsonb
+  );
@@ -0,0 +1,74 @@
+-- Per-rule weight used when scores are combined in cumulative mode
+ALTER TABLE public.risk_rules
+  ADD COLUMN weight NUMERIC(5,2) NOT NULL DEFAULT 1 CHECK (weight >= 0);
+
+ALTER TABLE public.risk_rule_versions
+  ADD COLUMN weight NUMERIC(5,2) NOT NULL DEFAULT 1;
+
+-- Single-row engine settings: strict (first rule wins) or cumulative (all rules, weighted sum capped at 100)
+CREATE TABLE public.risk_engine_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  scoring_mode TEXT NOT NULL DEFAULT 'strict' CHECK (scoring_mode IN ('strict', 'cumulative')),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.risk_engine_settings (id, scoring_mode) VALUES (true, 'strict');
+
+-- Record which scoring mode produced each assessment
+ALTER TABLE public.risk_assessments
+  ADD COLUMN scoring_mode TEXT DEFAULT 'strict' CHECK (scoring_mode IN ('strict', 'cumulative'));
+
+ALTER TABLE public.risk_engine_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view risk engine settings"
+  ON public.risk_engine_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update risk engine settings"
+  ON public.risk_engine_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_risk_engine_settings_updated_at
+  BEFORE UPDATE ON public.risk_engine_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Weight changes are scoring changes too, so they bump the rule version
+CREATE OR REPLACE FUNCTION public.bump_risk_rule_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.enabled IS DISTINCT FROM OLD.enabled
+    OR NEW.severity IS DISTINCT FROM OLD.severity
+    OR NEW.score IS DISTINCT FROM OLD.score
+    OR NEW.weight IS DISTINCT FROM OLD.weight
+    OR NEW.parameters IS DISTINCT FROM OLD.parameters
+    OR NEW.evaluation_order IS DISTINCT FROM OLD.evaluation_order THEN
+    NEW.version = OLD.version + 1;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_risk_rule_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.risk_rule_versions (rule_id, rule_key, version, enabled, severity, score, weight, parameters, changed_by)
+    VALUES (NEW.id, NEW.rule_key, NEW.version, NEW.enabled, NEW.severity, NEW.score, NEW.weight, NEW.parameters, NEW.updated_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Rule 5: split-transaction / threshold-avoidance (structuring) detection
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'split_transaction',
+    'Split Transaction',
+    'Several payments to the same vendor within a rolling window, each just below the threshold, that together exceed it',
+    5, 'HIGH', 80,
+    '{"threshold": 500000, "margin_percent": 10, "window_days": 7, "min_transactions": 2}'::jsonb
+  );
@@ -0,0 +1,9 @@
+-- Rule 6: near-duplicate detection across vendor name variants, nearby dates and similar amounts
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'near_duplicate_transaction',
+    'Near-Duplicate Transaction',
+    'Payments to vendors with near-identical normalised names, on nearby dates and for similar amounts',
+    6, 'MEDIUM', 65,
+    '{"name_similarity": 0.85, "date_tolerance_days": 3, "amount_tolerance_percent": 1, "legal_suffixes": ["PVT", "PRIVATE", "LTD", "LIMITED", "LLC", "LLP", "INC", "CORP", "CORPORATION", "CO", "COMPANY", "PLC", "GMBH"]}'::jsonb
+  );
@@ -0,0 +1,9 @@
+-- Rule 7: amount far outside the vendor's own payment history
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'vendor_amount_outlier',
+    'Vendor Amount Outlier',
+    'Amount deviates strongly from the vendor''s usual payments (z-score or interquartile range)',
+    7, 'MEDIUM', 55,
+    '{"method": "zscore", "zscore_threshold": 3, "iqr_multiplier": 1.5, "min_history": 5, "include_prior_sessions": false}'::jsonb
+  );
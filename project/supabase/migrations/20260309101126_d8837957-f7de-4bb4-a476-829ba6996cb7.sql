@@ -0,0 +1,44 @@
+-- Holiday calendar per organisation and country, used by the off-calendar posting rule
+CREATE TABLE public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization TEXT,
+  country TEXT NOT NULL,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_holidays_holiday_date ON public.holidays(holiday_date);
+CREATE INDEX idx_holidays_organization ON public.holidays(organization);
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- Holiday calendars are reference data: everyone signed in can read, auditors and admins maintain them
+CREATE POLICY "Authenticated users can view holidays"
+  ON public.holidays FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Auditors and admins can add holidays"
+  ON public.holidays FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'auditor'))
+  );
+
+CREATE POLICY "Auditors and admins can delete holidays"
+  ON public.holidays FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'auditor'));
+
+-- Rule 8: payments dated on weekends, public holidays or after the period-close date
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'off_calendar_posting',
+    'Off-Calendar Posting',
+    'Payment dated on a weekend, on a public holiday from the holiday calendar, or after the period-close date',
+    8, 'MEDIUM', 40,
+    '{"flag_weekends": true, "weekend_days": ["SATURDAY", "SUNDAY"], "flag_holidays": true, "holiday_countries": [], "period_close_date": ""}'::jsonb
+  );
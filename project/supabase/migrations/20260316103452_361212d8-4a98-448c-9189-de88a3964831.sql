@@ -0,0 +1,16 @@
+-- Rules 9 and 10: round-amount and repeating-amount patterns, each reported as its own risk factor type
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'round_amount',
+    'Round Amount',
+    'Amount is an exact multiple of a round-number base (e.g. ₹10,000 or ₹1,00,000)',
+    9, 'MEDIUM', 35,
+    '{"base": 10000, "min_amount": 10000}'::jsonb
+  ),
+  (
+    'repeating_amount',
+    'Repeating Amount',
+    'The same exact amount paid to one vendor on several different dates',
+    10, 'MEDIUM', 45,
+    '{"min_occurrences": 3, "min_amount": 1000}'::jsonb
+  );
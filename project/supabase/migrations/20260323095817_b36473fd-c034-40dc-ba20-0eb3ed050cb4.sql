@@ -0,0 +1,66 @@
+-- Sanctions / watchlist screening: each uploaded list file is one import, entries belong to an import
+CREATE TABLE public.watchlist_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL CHECK (source IN ('OFAC_SDN', 'UN_CONSOLIDATED', 'CUSTOM')),
+  file_name TEXT,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  imported_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE public.watchlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID REFERENCES public.watchlist_imports(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL,
+  external_id TEXT,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  entry_type TEXT,
+  programs TEXT[] NOT NULL DEFAULT '{}',
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  remarks TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_watchlist_imports_source ON public.watchlist_imports(source);
+CREATE INDEX idx_watchlist_entries_import_id ON public.watchlist_entries(import_id);
+CREATE INDEX idx_watchlist_entries_source ON public.watchlist_entries(source);
+
+ALTER TABLE public.watchlist_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.watchlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can read the lists (screening runs with the caller's token), only admins maintain them
+CREATE POLICY "Authenticated users can view watchlist imports"
+  ON public.watchlist_imports FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create watchlist imports"
+  ON public.watchlist_imports FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = imported_by AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete watchlist imports"
+  ON public.watchlist_imports FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view watchlist entries"
+  ON public.watchlist_entries FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create watchlist entries"
+  ON public.watchlist_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Rule 11: vendor name fuzzy-matches a sanctions / watchlist entry
+INSERT INTO public.risk_rules (rule_key, name, description, evaluation_order, severity, score, parameters) VALUES
+  (
+    'watchlist_match',
+    'Watchlist Match',
+    'Vendor name matches an entry on an imported sanctions or watchlist file (OFAC SDN, UN consolidated list or custom)',
+    11, 'HIGH', 95,
+    '{"min_score": 0.9, "sources": []}'::jsonb
+  );
@@ -0,0 +1,368 @@
+-- Country risk tiers keyed by ISO 3166-1 alpha-2 code, replacing the hard-coded country list of Rule 3
+CREATE TABLE public.country_risk (
+  iso_code TEXT PRIMARY KEY CHECK (iso_code ~ '^[A-Z]{2}$'),
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  tier TEXT NOT NULL DEFAULT 'low' CHECK (tier IN ('low', 'medium', 'high', 'prohibited')),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.country_risk ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view country risk"
+  ON public.country_risk FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can add countries"
+  ON public.country_risk FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update country risk"
+  ON public.country_risk FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Comparison key for free-text country names: "U.A.E." -> "UAE", "The Bahamas" -> "BAHAMAS"
+-- (mirrored by countryKey in supabase/functions/_shared/country.ts)
+CREATE OR REPLACE FUNCTION public.country_key(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(
+    btrim(regexp_replace(
+      regexp_replace(replace(upper(coalesce(_value, '')), '&', ' AND '), '[^[:alpha:] ]', '', 'g'),
+      '\s+', ' ', 'g'
+    )),
+    '^THE ', ''
+  )
+$$;
+
+-- Store aliases as comparison keys so lookups are a plain array match
+CREATE OR REPLACE FUNCTION public.normalize_country_risk_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.iso_code = upper(btrim(NEW.iso_code));
+  NEW.aliases = ARRAY(
+    SELECT DISTINCT public.country_key(a)
+    FROM unnest(NEW.aliases) AS a
+    WHERE public.country_key(a) <> ''
+  );
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_country_risk_row
+  BEFORE INSERT OR UPDATE ON public.country_risk
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_country_risk_row();
+
+-- Resolve a free-text country to its ISO code (NULL when unknown)
+CREATE OR REPLACE FUNCTION public.normalize_country(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT iso_code
+  FROM public.country_risk
+  WHERE public.country_key(_value) <> ''
+    AND (
+      iso_code = public.country_key(_value)
+      OR public.country_key(name) = public.country_key(_value)
+      OR public.country_key(_value) = ANY(aliases)
+    )
+  ORDER BY (iso_code = public.country_key(_value)) DESC
+  LIMIT 1
+$$;
+
+INSERT INTO public.country_risk (iso_code, name, aliases, tier) VALUES
+  ('AD', 'Andorra', ARRAY['AND', 'Principality of Andorra'], 'low'),
+  ('AE', 'United Arab Emirates', ARRAY['ARE', 'UAE', 'EMIRATES'], 'medium'),
+  ('AF', 'Afghanistan', ARRAY['AFG', 'Islamic Republic of Afghanistan'], 'low'),
+  ('AG', 'Antigua and Barbuda', ARRAY['ATG'], 'low'),
+  ('AI', 'Anguilla', ARRAY['AIA'], 'low'),
+  ('AL', 'Albania', ARRAY['ALB', 'Republic of Albania'], 'low'),
+  ('AM', 'Armenia', ARRAY['ARM', 'Republic of Armenia'], 'low'),
+  ('AO', 'Angola', ARRAY['AGO', 'Republic of Angola'], 'low'),
+  ('AQ', 'Antarctica', ARRAY['ATA'], 'low'),
+  ('AR', 'Argentina', ARRAY['ARG', 'Argentine Republic'], 'low'),
+  ('AS', 'American Samoa', ARRAY['ASM'], 'low'),
+  ('AT', 'Austria', ARRAY['AUT', 'Republic of Austria'], 'low'),
+  ('AU', 'Australia', ARRAY['AUS'], 'low'),
+  ('AW', 'Aruba', ARRAY['ABW'], 'low'),
+  ('AX', 'Åland Islands', ARRAY['ALA'], 'low'),
+  ('AZ', 'Azerbaijan', ARRAY['AZE', 'Republic of Azerbaijan'], 'low'),
+  ('BA', 'Bosnia and Herzegovina', ARRAY['BIH', 'Republic of Bosnia and Herzegovina'], 'low'),
+  ('BB', 'Barbados', ARRAY['BRB'], 'low'),
+  ('BD', 'Bangladesh', ARRAY['BGD', 'People''s Republic of Bangladesh'], 'low'),
+  ('BE', 'Belgium', ARRAY['BEL', 'Kingdom of Belgium'], 'low'),
+  ('BF', 'Burkina Faso', ARRAY['BFA'], 'low'),
+  ('BG', 'Bulgaria', ARRAY['BGR', 'Republic of Bulgaria'], 'low'),
+  ('BH', 'Bahrain', ARRAY['BHR', 'Kingdom of Bahrain'], 'low'),
+  ('BI', 'Burundi', ARRAY['BDI', 'Republic of Burundi'], 'low'),
+  ('BJ', 'Benin', ARRAY['BEN', 'Republic of Benin'], 'low'),
+  ('BL', 'Saint Barthélemy', ARRAY['BLM'], 'low'),
+  ('BM', 'Bermuda', ARRAY['BMU'], 'low'),
+  ('BN', 'Brunei Darussalam', ARRAY['BRN', 'BRUNEI'], 'low'),
+  ('BO', 'Bolivia, Plurinational State of', ARRAY['BOL', 'Plurinational State of Bolivia', 'Bolivia', 'BOLIVIA'], 'low'),
+  ('BQ', 'Bonaire, Sint Eustatius and Saba', ARRAY['BES'], 'low'),
+  ('BR', 'Brazil', ARRAY['BRA', 'Federative Republic of Brazil'], 'low'),
+  ('BS', 'Bahamas', ARRAY['BHS', 'Commonwealth of the Bahamas'], 'low'),
+  ('BT', 'Bhutan', ARRAY['BTN', 'Kingdom of Bhutan'], 'low'),
+  ('BV', 'Bouvet Island', ARRAY['BVT'], 'low'),
+  ('BW', 'Botswana', ARRAY['BWA', 'Republic of Botswana'], 'low'),
+  ('BY', 'Belarus', ARRAY['BLR', 'Republic of Belarus'], 'low'),
+  ('BZ', 'Belize', ARRAY['BLZ'], 'low'),
+  ('CA', 'Canada', ARRAY['CAN'], 'low'),
+  ('CC', 'Cocos (Keeling) Islands', ARRAY['CCK'], 'low'),
+  ('CD', 'Congo, The Democratic Republic of the', ARRAY['COD', 'DR CONGO', 'DRC', 'CONGO DEMOCRATIC REPUBLIC', 'DEMOCRATIC REPUBLIC OF CONGO', 'DEMOCRATIC REPUBLIC OF THE CONGO'], 'low'),
+  ('CF', 'Central African Republic', ARRAY['CAF'], 'low'),
+  ('CG', 'Congo', ARRAY['COG', 'Republic of the Congo', 'CONGO BRAZZAVILLE', 'REPUBLIC OF CONGO'], 'low'),
+  ('CH', 'Switzerland', ARRAY['CHE', 'Swiss Confederation', 'SWISS CONFEDERATION'], 'low'),
+  ('CI', 'Côte d''Ivoire', ARRAY['CIV', 'Republic of Côte d''Ivoire', 'IVORY COAST', 'COTE DIVOIRE'], 'low'),
+  ('CK', 'Cook Islands', ARRAY['COK'], 'low'),
+  ('CL', 'Chile', ARRAY['CHL', 'Republic of Chile'], 'low'),
+  ('CM', 'Cameroon', ARRAY['CMR', 'Republic of Cameroon'], 'low'),
+  ('CN', 'China', ARRAY['CHN', 'People''s Republic of China', 'PRC', 'MAINLAND CHINA'], 'low'),
+  ('CO', 'Colombia', ARRAY['COL', 'Republic of Colombia'], 'low'),
+  ('CR', 'Costa Rica', ARRAY['CRI', 'Republic of Costa Rica'], 'low'),
+  ('CU', 'Cuba', ARRAY['CUB', 'Republic of Cuba'], 'low'),
+  ('CV', 'Cabo Verde', ARRAY['CPV', 'Republic of Cabo Verde', 'CAPE VERDE'], 'low'),
+  ('CW', 'Curaçao', ARRAY['CUW'], 'low'),
+  ('CX', 'Christmas Island', ARRAY['CXR'], 'low'),
+  ('CY', 'Cyprus', ARRAY['CYP', 'Republic of Cyprus'], 'low'),
+  ('CZ', 'Czechia', ARRAY['CZE', 'Czech Republic', 'CZECH REPUBLIC'], 'low'),
+  ('DE', 'Germany', ARRAY['DEU', 'Federal Republic of Germany'], 'low'),
+  ('DJ', 'Djibouti', ARRAY['DJI', 'Republic of Djibouti'], 'low'),
+  ('DK', 'Denmark', ARRAY['DNK', 'Kingdom of Denmark'], 'low'),
+  ('DM', 'Dominica', ARRAY['DMA', 'Commonwealth of Dominica'], 'low'),
+  ('DO', 'Dominican Republic', ARRAY['DOM'], 'low'),
+  ('DZ', 'Algeria', ARRAY['DZA', 'People''s Democratic Republic of Algeria'], 'low'),
+  ('EC', 'Ecuador', ARRAY['ECU', 'Republic of Ecuador'], 'low'),
+  ('EE', 'Estonia', ARRAY['EST', 'Republic of Estonia'], 'low'),
+  ('EG', 'Egypt', ARRAY['EGY', 'Arab Republic of Egypt'], 'low'),
+  ('EH', 'Western Sahara', ARRAY['ESH'], 'low'),
+  ('ER', 'Eritrea', ARRAY['ERI', 'the State of Eritrea'], 'low'),
+  ('ES', 'Spain', ARRAY['ESP', 'Kingdom of Spain'], 'low'),
+  ('ET', 'Ethiopia', ARRAY['ETH', 'Federal Democratic Republic of Ethiopia'], 'low'),
+  ('FI', 'Finland', ARRAY['FIN', 'Republic of Finland'], 'low'),
+  ('FJ', 'Fiji', ARRAY['FJI', 'Republic of Fiji'], 'low'),
+  ('FK', 'Falkland Islands (Malvinas)', ARRAY['FLK'], 'low'),
+  ('FM', 'Micronesia, Federated States of', ARRAY['FSM', 'Federated States of Micronesia', 'MICRONESIA'], 'low'),
+  ('FO', 'Faroe Islands', ARRAY['FRO'], 'low'),
+  ('FR', 'France', ARRAY['FRA', 'French Republic'], 'low'),
+  ('GA', 'Gabon', ARRAY['GAB', 'Gabonese Republic'], 'low'),
+  ('GB', 'United Kingdom', ARRAY['GBR', 'United Kingdom of Great Britain and Northern Ireland', 'UK', 'GREAT BRITAIN', 'BRITAIN', 'ENGLAND', 'SCOTLAND', 'WALES', 'NORTHERN IRELAND'], 'low'),
+  ('GD', 'Grenada', ARRAY['GRD'], 'low'),
+  ('GE', 'Georgia', ARRAY['GEO'], 'low'),
+  ('GF', 'French Guiana', ARRAY['GUF'], 'low'),
+  ('GG', 'Guernsey', ARRAY['GGY'], 'low'),
+  ('GH', 'Ghana', ARRAY['GHA', 'Republic of Ghana'], 'low'),
+  ('GI', 'Gibraltar', ARRAY['GIB'], 'low'),
+  ('GL', 'Greenland', ARRAY['GRL'], 'low'),
+  ('GM', 'Gambia', ARRAY['GMB', 'Republic of the Gambia'], 'low'),
+  ('GN', 'Guinea', ARRAY['GIN', 'Republic of Guinea'], 'low'),
+  ('GP', 'Guadeloupe', ARRAY['GLP'], 'low'),
+  ('GQ', 'Equatorial Guinea', ARRAY['GNQ', 'Republic of Equatorial Guinea'], 'low'),
+  ('GR', 'Greece', ARRAY['GRC', 'Hellenic Republic'], 'low'),
+  ('GS', 'South Georgia and the South Sandwich Islands', ARRAY['SGS'], 'low'),
+  ('GT', 'Guatemala', ARRAY['GTM', 'Republic of Guatemala'], 'low'),
+  ('GU', 'Guam', ARRAY['GUM'], 'low'),
+  ('GW', 'Guinea-Bissau', ARRAY['GNB', 'Republic of Guinea-Bissau'], 'low'),
+  ('GY', 'Guyana', ARRAY['GUY', 'Republic of Guyana'], 'low'),
+  ('HK', 'Hong Kong', ARRAY['HKG', 'Hong Kong Special Administrative Region of China', 'HONG KONG'], 'low'),
+  ('HM', 'Heard Island and McDonald Islands', ARRAY['HMD'], 'low'),
+  ('HN', 'Honduras', ARRAY['HND', 'Republic of Honduras'], 'low'),
+  ('HR', 'Croatia', ARRAY['HRV', 'Republic of Croatia'], 'low'),
+  ('HT', 'Haiti', ARRAY['HTI', 'Republic of Haiti'], 'low'),
+  ('HU', 'Hungary', ARRAY['HUN'], 'low'),
+  ('ID', 'Indonesia', ARRAY['IDN', 'Republic of Indonesia'], 'low'),
+  ('IE', 'Ireland', ARRAY['IRL'], 'low'),
+  ('IL', 'Israel', ARRAY['ISR', 'State of Israel'], 'low'),
+  ('IM', 'Isle of Man', ARRAY['IMN'], 'low'),
+  ('IN', 'India', ARRAY['IND', 'Republic of India', 'BHARAT'], 'low'),
+  ('IO', 'British Indian Ocean Territory', ARRAY['IOT'], 'low'),
+  ('IQ', 'Iraq', ARRAY['IRQ', 'Republic of Iraq'], 'low'),
+  ('IR', 'Iran, Islamic Republic of', ARRAY['IRN', 'Islamic Republic of Iran', 'Iran', 'IRAN'], 'low'),
+  ('IS', 'Iceland', ARRAY['ISL', 'Republic of Iceland'], 'low'),
+  ('IT', 'Italy', ARRAY['ITA', 'Italian Republic'], 'low'),
+  ('JE', 'Jersey', ARRAY['JEY'], 'low'),
+  ('JM', 'Jamaica', ARRAY['JAM'], 'low'),
+  ('JO', 'Jordan', ARRAY['JOR', 'Hashemite Kingdom of Jordan'], 'low'),
+  ('JP', 'Japan', ARRAY['JPN'], 'low'),
+  ('KE', 'Kenya', ARRAY['KEN', 'Republic of Kenya'], 'low'),
+  ('KG', 'Kyrgyzstan', ARRAY['KGZ', 'Kyrgyz Republic'], 'low'),
+  ('KH', 'Cambodia', ARRAY['KHM', 'Kingdom of Cambodia'], 'low'),
+  ('KI', 'Kiribati', ARRAY['KIR', 'Republic of Kiribati'], 'low'),
+  ('KM', 'Comoros', ARRAY['COM', 'Union of the Comoros'], 'low'),
+  ('KN', 'Saint Kitts and Nevis', ARRAY['KNA'], 'low'),
+  ('KP', 'Korea, Democratic People''s Republic of', ARRAY['PRK', 'Democratic People''s Republic of Korea', 'North Korea', 'NORTH KOREA', 'DPRK'], 'low'),
+  ('KR', 'Korea, Republic of', ARRAY['KOR', 'South Korea', 'SOUTH KOREA', 'KOREA', 'REPUBLIC OF KOREA'], 'low'),
+  ('KW', 'Kuwait', ARRAY['KWT', 'State of Kuwait'], 'low'),
+  ('KY', 'Cayman Islands', ARRAY['CYM'], 'low'),
+  ('KZ', 'Kazakhstan', ARRAY['KAZ', 'Republic of Kazakhstan'], 'low'),
+  ('LA', 'Lao People''s Democratic Republic', ARRAY['LAO', 'Laos', 'LAOS'], 'low'),
+  ('LB', 'Lebanon', ARRAY['LBN', 'Lebanese Republic'], 'low'),
+  ('LC', 'Saint Lucia', ARRAY['LCA'], 'low'),
+  ('LI', 'Liechtenstein', ARRAY['LIE', 'Principality of Liechtenstein'], 'low'),
+  ('LK', 'Sri Lanka', ARRAY['LKA', 'Democratic Socialist Republic of Sri Lanka'], 'low'),
+  ('LR', 'Liberia', ARRAY['LBR', 'Republic of Liberia'], 'low'),
+  ('LS', 'Lesotho', ARRAY['LSO', 'Kingdom of Lesotho'], 'low'),
+  ('LT', 'Lithuania', ARRAY['LTU', 'Republic of Lithuania'], 'low'),
+  ('LU', 'Luxembourg', ARRAY['LUX', 'Grand Duchy of Luxembourg'], 'low'),
+  ('LV', 'Latvia', ARRAY['LVA', 'Republic of Latvia'], 'low'),
+  ('LY', 'Libya', ARRAY['LBY'], 'low'),
+  ('MA', 'Morocco', ARRAY['MAR', 'Kingdom of Morocco'], 'low'),
+  ('MC', 'Monaco', ARRAY['MCO', 'Principality of Monaco'], 'low'),
+  ('MD', 'Moldova, Republic of', ARRAY['MDA', 'Republic of Moldova', 'Moldova', 'MOLDOVA'], 'low'),
+  ('ME', 'Montenegro', ARRAY['MNE'], 'low'),
+  ('MF', 'Saint Martin (French part)', ARRAY['MAF'], 'low'),
+  ('MG', 'Madagascar', ARRAY['MDG', 'Republic of Madagascar'], 'low'),
+  ('MH', 'Marshall Islands', ARRAY['MHL', 'Republic of the Marshall Islands'], 'low'),
+  ('MK', 'North Macedonia', ARRAY['MKD', 'Republic of North Macedonia', 'MACEDONIA'], 'low'),
+  ('ML', 'Mali', ARRAY['MLI', 'Republic of Mali'], 'low'),
+  ('MM', 'Myanmar', ARRAY['MMR', 'Republic of Myanmar', 'BURMA'], 'low'),
+  ('MN', 'Mongolia', ARRAY['MNG'], 'low'),
+  ('MO', 'Macao', ARRAY['MAC', 'Macao Special Administrative Region of China', 'MACAU'], 'low'),
+  ('MP', 'Northern Mariana Islands', ARRAY['MNP', 'Commonwealth of the Northern Mariana Islands'], 'low'),
+  ('MQ', 'Martinique', ARRAY['MTQ'], 'low'),
+  ('MR', 'Mauritania', ARRAY['MRT', 'Islamic Republic of Mauritania'], 'low'),
+  ('MS', 'Montserrat', ARRAY['MSR'], 'low'),
+  ('MT', 'Malta', ARRAY['MLT', 'Republic of Malta'], 'low'),
+  ('MU', 'Mauritius', ARRAY['MUS', 'Republic of Mauritius'], 'low'),
+  ('MV', 'Maldives', ARRAY['MDV', 'Republic of Maldives'], 'low'),
+  ('MW', 'Malawi', ARRAY['MWI', 'Republic of Malawi'], 'low'),
+  ('MX', 'Mexico', ARRAY['MEX', 'United Mexican States'], 'low'),
+  ('MY', 'Malaysia', ARRAY['MYS'], 'low'),
+  ('MZ', 'Mozambique', ARRAY['MOZ', 'Republic of Mozambique'], 'low'),
+  ('NA', 'Namibia', ARRAY['NAM', 'Republic of Namibia'], 'low'),
+  ('NC', 'New Caledonia', ARRAY['NCL'], 'low'),
+  ('NE', 'Niger', ARRAY['NER', 'Republic of the Niger'], 'low'),
+  ('NF', 'Norfolk Island', ARRAY['NFK'], 'low'),
+  ('NG', 'Nigeria', ARRAY['NGA', 'Federal Republic of Nigeria'], 'low'),
+  ('NI', 'Nicaragua', ARRAY['NIC', 'Republic of Nicaragua'], 'low'),
+  ('NL', 'Netherlands', ARRAY['NLD', 'Kingdom of the Netherlands', 'HOLLAND', 'THE NETHERLANDS'], 'low'),
+  ('NO', 'Norway', ARRAY['NOR', 'Kingdom of Norway'], 'low'),
+  ('NP', 'Nepal', ARRAY['NPL', 'Federal Democratic Republic of Nepal'], 'low'),
+  ('NR', 'Nauru', ARRAY['NRU', 'Republic of Nauru'], 'low'),
+  ('NU', 'Niue', ARRAY['NIU'], 'low'),
+  ('NZ', 'New Zealand', ARRAY['NZL'], 'low'),
+  ('OM', 'Oman', ARRAY['OMN', 'Sultanate of Oman'], 'low'),
+  ('PA', 'Panama', ARRAY['PAN', 'Republic of Panama'], 'medium'),
+  ('PE', 'Peru', ARRAY['PER', 'Republic of Peru'], 'low'),
+  ('PF', 'French Polynesia', ARRAY['PYF'], 'low'),
+  ('PG', 'Papua New Guinea', ARRAY['PNG', 'Independent State of Papua New Guinea'], 'low'),
+  ('PH', 'Philippines', ARRAY['PHL', 'Republic of the Philippines'], 'low'),
+  ('PK', 'Pakistan', ARRAY['PAK', 'Islamic Republic of Pakistan'], 'low'),
+  ('PL', 'Poland', ARRAY['POL', 'Republic of Poland'], 'low'),
+  ('PM', 'Saint Pierre and Miquelon', ARRAY['SPM'], 'low'),
+  ('PN', 'Pitcairn', ARRAY['PCN'], 'low'),
+  ('PR', 'Puerto Rico', ARRAY['PRI'], 'low'),
+  ('PS', 'Palestine, State of', ARRAY['PSE', 'the State of Palestine', 'PALESTINE'], 'low'),
+  ('PT', 'Portugal', ARRAY['PRT', 'Portuguese Republic'], 'low'),
+  ('PW', 'Palau', ARRAY['PLW', 'Republic of Palau'], 'low'),
+  ('PY', 'Paraguay', ARRAY['PRY', 'Republic of Paraguay'], 'low'),
+  ('QA', 'Qatar', ARRAY['QAT', 'State of Qatar'], 'low'),
+  ('RE', 'Réunion', ARRAY['REU'], 'low'),
+  ('RO', 'Romania', ARRAY['ROU'], 'low'),
+  ('RS', 'Serbia', ARRAY['SRB', 'Republic of Serbia'], 'low'),
+  ('RU', 'Russian Federation', ARRAY['RUS', 'RUSSIA'], 'low'),
+  ('RW', 'Rwanda', ARRAY['RWA', 'Rwandese Republic'], 'low'),
+  ('SA', 'Saudi Arabia', ARRAY['SAU', 'Kingdom of Saudi Arabia', 'KSA'], 'low'),
+  ('SB', 'Solomon Islands', ARRAY['SLB'], 'low'),
+  ('SC', 'Seychelles', ARRAY['SYC', 'Republic of Seychelles'], 'low'),
+  ('SD', 'Sudan', ARRAY['SDN', 'Republic of the Sudan'], 'low'),
+  ('SE', 'Sweden', ARRAY['SWE', 'Kingdom of Sweden'], 'low'),
+  ('SG', 'Singapore', ARRAY['SGP', 'Republic of Singapore'], 'low'),
+  ('SH', 'Saint Helena, Ascension and Tristan da Cunha', ARRAY['SHN'], 'low'),
+  ('SI', 'Slovenia', ARRAY['SVN', 'Republic of Slovenia'], 'low'),
+  ('SJ', 'Svalbard and Jan Mayen', ARRAY['SJM'], 'low'),
+  ('SK', 'Slovakia', ARRAY['SVK', 'Slovak Republic'], 'low'),
+  ('SL', 'Sierra Leone', ARRAY['SLE', 'Republic of Sierra Leone'], 'low'),
+  ('SM', 'San Marino', ARRAY['SMR', 'Republic of San Marino'], 'low'),
+  ('SN', 'Senegal', ARRAY['SEN', 'Republic of Senegal'], 'low'),
+  ('SO', 'Somalia', ARRAY['SOM', 'Federal Republic of Somalia'], 'low'),
+  ('SR', 'Suriname', ARRAY['SUR', 'Republic of Suriname'], 'low'),
+  ('SS', 'South Sudan', ARRAY['SSD', 'Republic of South Sudan'], 'low'),
+  ('ST', 'Sao Tome and Principe', ARRAY['STP', 'Democratic Republic of Sao Tome and Principe'], 'low'),
+  ('SV', 'El Salvador', ARRAY['SLV', 'Republic of El Salvador'], 'low'),
+  ('SX', 'Sint Maarten (Dutch part)', ARRAY['SXM'], 'low'),
+  ('SY', 'Syrian Arab Republic', ARRAY['SYR', 'Syria', 'SYRIA'], 'low'),
+  ('SZ', 'Eswatini', ARRAY['SWZ', 'Kingdom of Eswatini', 'SWAZILAND'], 'low'),
+  ('TC', 'Turks and Caicos Islands', ARRAY['TCA'], 'low'),
+  ('TD', 'Chad', ARRAY['TCD', 'Republic of Chad'], 'low'),
+  ('TF', 'French Southern Territories', ARRAY['ATF'], 'low'),
+  ('TG', 'Togo', ARRAY['TGO', 'Togolese Republic'], 'low'),
+  ('TH', 'Thailand', ARRAY['THA', 'Kingdom of Thailand'], 'low'),
+  ('TJ', 'Tajikistan', ARRAY['TJK', 'Republic of Tajikistan'], 'low'),
+  ('TK', 'Tokelau', ARRAY['TKL'], 'low'),
+  ('TL', 'Timor-Leste', ARRAY['TLS', 'Democratic Republic of Timor-Leste'], 'low'),
+  ('TM', 'Turkmenistan', ARRAY['TKM'], 'low'),
+  ('TN', 'Tunisia', ARRAY['TUN', 'Republic of Tunisia'], 'low'),
+  ('TO', 'Tonga', ARRAY['TON', 'Kingdom of Tonga'], 'low'),
+  ('TR', 'Türkiye', ARRAY['TUR', 'Republic of Türkiye', 'TURKEY', 'TURKIYE'], 'low'),
+  ('TT', 'Trinidad and Tobago', ARRAY['TTO', 'Republic of Trinidad and Tobago'], 'low'),
+  ('TV', 'Tuvalu', ARRAY['TUV'], 'low'),
+  ('TW', 'Taiwan, Province of China', ARRAY['TWN', 'Taiwan', 'TAIWAN'], 'low'),
+  ('TZ', 'Tanzania, United Republic of', ARRAY['TZA', 'United Republic of Tanzania', 'Tanzania', 'TANZANIA'], 'low'),
+  ('UA', 'Ukraine', ARRAY['UKR'], 'low'),
+  ('UG', 'Uganda', ARRAY['UGA', 'Republic of Uganda'], 'low'),
+  ('UM', 'United States Minor Outlying Islands', ARRAY['UMI'], 'low'),
+  ('US', 'United States', ARRAY['USA', 'United States of America', 'AMERICA', 'UNITED STATES OF AMERICA'], 'low'),
+  ('UY', 'Uruguay', ARRAY['URY', 'Eastern Republic of Uruguay'], 'low'),
+  ('UZ', 'Uzbekistan', ARRAY['UZB', 'Republic of Uzbekistan'], 'low'),
+  ('VA', 'Holy See (Vatican City State)', ARRAY['VAT', 'VATICAN', 'HOLY SEE'], 'low'),
+  ('VC', 'Saint Vincent and the Grenadines', ARRAY['VCT'], 'low'),
+  ('VE', 'Venezuela, Bolivarian Republic of', ARRAY['VEN', 'Bolivarian Republic of Venezuela', 'Venezuela', 'VENEZUELA'], 'low'),
+  ('VG', 'Virgin Islands, British', ARRAY['VGB', 'British Virgin Islands'], 'low'),
+  ('VI', 'Virgin Islands, U.S.', ARRAY['VIR', 'Virgin Islands of the United States'], 'low'),
+  ('VN', 'Viet Nam', ARRAY['VNM', 'Socialist Republic of Viet Nam', 'Vietnam', 'VIETNAM'], 'low'),
+  ('VU', 'Vanuatu', ARRAY['VUT', 'Republic of Vanuatu'], 'low'),
+  ('WF', 'Wallis and Futuna', ARRAY['WLF'], 'low'),
+  ('WS', 'Samoa', ARRAY['WSM', 'Independent State of Samoa'], 'low'),
+  ('YE', 'Yemen', ARRAY['YEM', 'Republic of Yemen'], 'low'),
+  ('YT', 'Mayotte', ARRAY['MYT'], 'low'),
+  ('ZA', 'South Africa', ARRAY['ZAF', 'Republic of South Africa'], 'low'),
+  ('ZM', 'Zambia', ARRAY['ZMB', 'Republic of Zambia'], 'low'),
+  ('ZW', 'Zimbabwe', ARRAY['ZWE', 'Republic of Zimbabwe'], 'low');
+
+-- Normalised ISO code for every transaction
+ALTER TABLE public.transactions
+  ADD COLUMN vendor_country_code TEXT;
+
+CREATE OR REPLACE FUNCTION public.set_transaction_country_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.vendor_country_code = public.normalize_country(NEW.vendor_country);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_transaction_country_code
+  BEFORE INSERT OR UPDATE OF vendor_country ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_transaction_country_code();
+
+UPDATE public.transactions
+  SET vendor_country_code = public.normalize_country(vendor_country);
+
+CREATE INDEX idx_transactions_vendor_country_code ON public.transactions(vendor_country_code);
+
+-- Rule 3 now flags by tier: medium uses the rule's own severity and score, high and prohibited escalate to HIGH
+UPDATE public.risk_rules
+  SET description = 'Vendor country has a medium, high or prohibited tier in the country risk table',
+      parameters = '{"high_score": 75, "prohibited_score": 100}'::jsonb
+  WHERE rule_key = 'vendor_country_risk';
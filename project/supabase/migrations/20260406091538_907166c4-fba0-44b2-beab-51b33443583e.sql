@@ -0,0 +1,145 @@
+-- Per-transaction history of risk level changes made by re-running a session's analysis
+CREATE TABLE public.risk_assessment_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+  previous_level risk_level NOT NULL,
+  new_level risk_level NOT NULL,
+  previous_score INTEGER NOT NULL,
+  new_score INTEGER NOT NULL,
+  previous_factors JSONB DEFAULT '[]'::jsonb,
+  rule_versions JSONB DEFAULT '{}'::jsonb,
+  scoring_mode TEXT,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_risk_assessment_history_transaction_id ON public.risk_assessment_history(transaction_id);
+
+ALTER TABLE public.risk_assessment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of their transactions"
+  ON public.risk_assessment_history FOR SELECT
+  TO authenticated
+  USING (
+    transaction_id IN (
+      SELECT t.id FROM public.transactions t
+      JOIN public.analysis_sessions s ON t.session_id = s.id
+      WHERE s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all risk assessment history"
+  ON public.risk_assessment_history FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can record history of their transactions"
+  ON public.risk_assessment_history FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = changed_by AND
+    transaction_id IN (
+      SELECT t.id FROM public.transactions t
+      JOIN public.analysis_sessions s ON t.session_id = s.id
+      WHERE s.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN reanalyzed_at TIMESTAMP WITH TIME ZONE;
+
+-- Apply one batch of re-scored assessments for a completed session in a single transaction:
+-- record level changes, update scores while keeping review flags and notes, and move the session's
+-- risk counts by the batch's own level changes, so the counts match the stored assessments after
+-- every batch. AI explanations are cleared where the level changed because they describe the old result.
+CREATE OR REPLACE FUNCTION public.apply_session_rescore(_session_id UUID, _assessments JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _changed INTEGER;
+  _delta RECORD;
+  _counts RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions WHERE id = _session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  -- Locking the session row keeps concurrent re-analyses from counting the same level change twice
+  PERFORM 1 FROM public.analysis_sessions WHERE id = _session_id AND status = 'completed' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only completed sessions can be re-analyzed';
+  END IF;
+
+  CREATE TEMP TABLE _rescored ON COMMIT DROP AS
+  SELECT a.*
+  FROM jsonb_to_recordset(_assessments) AS a(
+    transaction_id UUID,
+    risk_score INTEGER,
+    risk_level risk_level,
+    risk_factors JSONB,
+    risk_reason TEXT,
+    rule_versions JSONB,
+    scoring_mode TEXT
+  )
+  JOIN public.transactions t ON t.id = a.transaction_id AND t.session_id = _session_id;
+
+  INSERT INTO public.risk_assessment_history (
+    transaction_id, previous_level, new_level, previous_score, new_score,
+    previous_factors, rule_versions, scoring_mode, changed_by
+  )
+  SELECT ra.transaction_id, ra.risk_level, r.risk_level, ra.risk_score, r.risk_score,
+         ra.risk_factors, r.rule_versions, r.scoring_mode, auth.uid()
+  FROM _rescored r
+  JOIN public.risk_assessments ra ON ra.transaction_id = r.transaction_id
+  WHERE ra.risk_level IS DISTINCT FROM r.risk_level;
+
+  GET DIAGNOSTICS _changed = ROW_COUNT;
+
+  SELECT
+    count(*) FILTER (WHERE r.risk_level = 'high') - count(*) FILTER (WHERE ra.risk_level = 'high') AS high,
+    count(*) FILTER (WHERE r.risk_level = 'medium') - count(*) FILTER (WHERE ra.risk_level = 'medium') AS medium,
+    count(*) FILTER (WHERE r.risk_level = 'low') - count(*) FILTER (WHERE ra.risk_level = 'low') AS low
+  INTO _delta
+  FROM _rescored r
+  LEFT JOIN public.risk_assessments ra ON ra.transaction_id = r.transaction_id;
+
+  INSERT INTO public.risk_assessments (
+    transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  )
+  SELECT transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  FROM _rescored
+  ON CONFLICT (transaction_id) DO UPDATE SET
+    risk_score = EXCLUDED.risk_score,
+    risk_level = EXCLUDED.risk_level,
+    risk_factors = EXCLUDED.risk_factors,
+    risk_reason = EXCLUDED.risk_reason,
+    rule_versions = EXCLUDED.rule_versions,
+    scoring_mode = EXCLUDED.scoring_mode,
+    audit_observation = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.audit_observation END,
+    suggested_action = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.suggested_action END;
+
+  UPDATE public.analysis_sessions
+  SET high_risk_count = COALESCE(high_risk_count, 0) + _delta.high,
+      medium_risk_count = COALESCE(medium_risk_count, 0) + _delta.medium,
+      low_risk_count = COALESCE(low_risk_count, 0) + _delta.low,
+      reanalyzed_at = now()
+  WHERE id = _session_id
+  RETURNING high_risk_count AS high, medium_risk_count AS medium, low_risk_count AS low
+  INTO _counts;
+
+  RETURN jsonb_build_object(
+    'rescored', (SELECT count(*) FROM _rescored),
+    'level_changes', _changed,
+    'high', _counts.high,
+    'medium', _counts.medium,
+    'low', _counts.low
+  );
+END;
+$$;
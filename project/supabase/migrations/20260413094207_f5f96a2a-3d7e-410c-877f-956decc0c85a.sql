@@ -0,0 +1,94 @@
+-- Server-side ingest: the ingest-session function creates the session, scores the rows and
+-- commits everything through commit_ingested_session. A failed ingest keeps its reason here.
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN error_message TEXT;
+
+-- Store an ingested session's transactions and assessments in a single transaction and
+-- mark it completed. Transaction ids are generated by the caller so assessments can reference them.
+CREATE OR REPLACE FUNCTION public.commit_ingested_session(
+  _session_id UUID,
+  _transactions JSONB,
+  _assessments JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _inserted INTEGER;
+  _counts RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND user_id = auth.uid() AND status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not awaiting ingest';
+  END IF;
+
+  INSERT INTO public.transactions (
+    id, session_id, transaction_id, transaction_date, amount, vendor_name,
+    vendor_country, payment_method, department, description
+  )
+  SELECT t.id, _session_id, t.transaction_id, t.transaction_date, t.amount, t.vendor_name,
+         t.vendor_country, t.payment_method, t.department, t.description
+  FROM jsonb_to_recordset(_transactions) AS t(
+    id UUID,
+    transaction_id TEXT,
+    transaction_date DATE,
+    amount NUMERIC,
+    vendor_name TEXT,
+    vendor_country TEXT,
+    payment_method TEXT,
+    department TEXT,
+    description TEXT
+  );
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  INSERT INTO public.risk_assessments (
+    transaction_id, risk_score, risk_level, risk_factors, audit_observation,
+    risk_reason, suggested_action, rule_versions, scoring_mode
+  )
+  SELECT a.transaction_id, a.risk_score, a.risk_level, a.risk_factors, a.audit_observation,
+         a.risk_reason, a.suggested_action, a.rule_versions, a.scoring_mode
+  FROM jsonb_to_recordset(_assessments) AS a(
+    transaction_id UUID,
+    risk_score INTEGER,
+    risk_level risk_level,
+    risk_factors JSONB,
+    audit_observation TEXT,
+    risk_reason TEXT,
+    suggested_action TEXT,
+    rule_versions JSONB,
+    scoring_mode TEXT
+  )
+  JOIN public.transactions t ON t.id = a.transaction_id AND t.session_id = _session_id;
+
+  SELECT
+    count(*) FILTER (WHERE ra.risk_level = 'high') AS high,
+    count(*) FILTER (WHERE ra.risk_level = 'medium') AS medium,
+    count(*) FILTER (WHERE ra.risk_level = 'low') AS low
+  INTO _counts
+  FROM public.transactions t
+  JOIN public.risk_assessments ra ON ra.transaction_id = t.id
+  WHERE t.session_id = _session_id;
+
+  UPDATE public.analysis_sessions
+  SET total_transactions = _inserted,
+      high_risk_count = _counts.high,
+      medium_risk_count = _counts.medium,
+      low_risk_count = _counts.low,
+      status = 'completed',
+      error_message = NULL,
+      completed_at = now()
+  WHERE id = _session_id;
+
+  RETURN jsonb_build_object(
+    'transactions', _inserted,
+    'high', _counts.high,
+    'medium', _counts.medium,
+    'low', _counts.low
+  );
+END;
+$$;
@@ -0,0 +1,205 @@
+-- Chunked, resumable ingest. Rows arrive in chunks keyed by their row number in the source file,
+-- so a re-sent chunk is ignored, and each analysis stage records how far it got on the session.
+-- Background analysis steps claim the session before they run. Each step swaps the claim for a new
+-- one, so a step started twice (or a resume while a step is still running) finds the claim taken and
+-- stops. A claim older than a few step budgets belongs to a worker that died and may be taken over.
+ALTER TABLE public.transactions
+  ADD COLUMN source_row INTEGER;
+
+CREATE UNIQUE INDEX transactions_session_source_row_key
+  ON public.transactions (session_id, source_row);
+
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN stage TEXT CHECK (stage IN ('uploading', 'scoring', 'explaining')),
+  ADD COLUMN uploaded_rows INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN analyzed_rows INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN explained_rows INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN analysis_claim UUID,
+  ADD COLUMN analysis_claimed_at TIMESTAMPTZ;
+
+UPDATE public.analysis_sessions
+SET uploaded_rows = COALESCE(total_transactions, 0),
+    analyzed_rows = COALESCE(total_transactions, 0)
+WHERE status = 'completed';
+
+-- Replaced by the chunked functions below
+DROP FUNCTION IF EXISTS public.commit_ingested_session(UUID, JSONB, JSONB);
+
+-- Append one chunk of rows to a session that is still uploading; returns the rows stored so far
+CREATE OR REPLACE FUNCTION public.append_session_rows(_session_id UUID, _rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _uploaded INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND user_id = auth.uid() AND status = 'processing' AND stage = 'uploading'
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not accepting rows';
+  END IF;
+
+  INSERT INTO public.transactions (
+    session_id, source_row, transaction_id, transaction_date, amount, vendor_name,
+    vendor_country, payment_method, department, description
+  )
+  SELECT _session_id, r.source_row, r.transaction_id, r.transaction_date, r.amount, r.vendor_name,
+         r.vendor_country, r.payment_method, r.department, r.description
+  FROM jsonb_to_recordset(_rows) AS r(
+    source_row INTEGER,
+    transaction_id TEXT,
+    transaction_date DATE,
+    amount NUMERIC,
+    vendor_name TEXT,
+    vendor_country TEXT,
+    payment_method TEXT,
+    department TEXT,
+    description TEXT
+  )
+  ON CONFLICT (session_id, source_row) DO NOTHING;
+
+  SELECT count(*) INTO _uploaded FROM public.transactions WHERE session_id = _session_id;
+
+  UPDATE public.analysis_sessions SET uploaded_rows = _uploaded WHERE id = _session_id;
+
+  RETURN _uploaded;
+END;
+$$;
+
+-- Steps after the first are started by the ingest function itself with the service-role key (the
+-- user's token can expire during a long analysis), after checking the session belongs to the user
+-- who started it. The step functions below accept that caller as well as the session owner.
+
+-- Store rule-based assessments for part of a session; rows scored by an earlier attempt are kept
+CREATE OR REPLACE FUNCTION public.store_session_assessments(_session_id UUID, _assessments JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _analyzed INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND (user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  INSERT INTO public.risk_assessments (
+    transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  )
+  SELECT a.transaction_id, a.risk_score, a.risk_level, a.risk_factors, a.risk_reason,
+         a.rule_versions, a.scoring_mode
+  FROM jsonb_to_recordset(_assessments) AS a(
+    transaction_id UUID,
+    risk_score INTEGER,
+    risk_level risk_level,
+    risk_factors JSONB,
+    risk_reason TEXT,
+    rule_versions JSONB,
+    scoring_mode TEXT
+  )
+  JOIN public.transactions t ON t.id = a.transaction_id AND t.session_id = _session_id
+  ON CONFLICT (transaction_id) DO NOTHING;
+
+  SELECT count(*) INTO _analyzed
+  FROM public.transactions t
+  JOIN public.risk_assessments ra ON ra.transaction_id = t.id
+  WHERE t.session_id = _session_id;
+
+  UPDATE public.analysis_sessions SET analyzed_rows = _analyzed WHERE id = _session_id;
+
+  RETURN _analyzed;
+END;
+$$;
+
+-- Save AI explanations for one batch of flagged rows and advance the session's explanation cursor
+CREATE OR REPLACE FUNCTION public.store_assessment_explanations(
+  _session_id UUID,
+  _explanations JSONB,
+  _explained_rows INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND (user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  UPDATE public.risk_assessments ra
+  SET audit_observation = e.audit_observation,
+      suggested_action = e.suggested_action
+  FROM jsonb_to_recordset(_explanations) AS e(
+    transaction_id UUID,
+    audit_observation TEXT,
+    suggested_action TEXT
+  ),
+  public.transactions t
+  WHERE ra.transaction_id = e.transaction_id
+    AND t.id = ra.transaction_id
+    AND t.session_id = _session_id;
+
+  UPDATE public.analysis_sessions SET explained_rows = _explained_rows WHERE id = _session_id;
+END;
+$$;
+
+-- Refresh the counts of a fully analysed session and mark it completed
+CREATE OR REPLACE FUNCTION public.finalize_ingested_session(_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _counts RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND (user_id = auth.uid() OR auth.role() = 'service_role')
+      AND status = 'processing'
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not awaiting analysis';
+  END IF;
+
+  SELECT
+    count(*) AS total,
+    count(*) FILTER (WHERE ra.risk_level = 'high') AS high,
+    count(*) FILTER (WHERE ra.risk_level = 'medium') AS medium,
+    count(*) FILTER (WHERE ra.risk_level = 'low') AS low
+  INTO _counts
+  FROM public.transactions t
+  LEFT JOIN public.risk_assessments ra ON ra.transaction_id = t.id
+  WHERE t.session_id = _session_id;
+
+  UPDATE public.analysis_sessions
+  SET total_transactions = _counts.total,
+      high_risk_count = _counts.high,
+      medium_risk_count = _counts.medium,
+      low_risk_count = _counts.low,
+      status = 'completed',
+      stage = NULL,
+      error_message = NULL,
+      completed_at = now(),
+      analysis_claim = NULL,
+      analysis_claimed_at = NULL
+  WHERE id = _session_id;
+
+  RETURN jsonb_build_object(
+    'transactions', _counts.total,
+    'high', _counts.high,
+    'medium', _counts.medium,
+    'low', _counts.low
+  );
+END;
+$$;
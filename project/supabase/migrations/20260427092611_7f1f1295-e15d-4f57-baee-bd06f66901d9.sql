@@ -0,0 +1,40 @@
+-- Saved column mappings for uploads. mapping maps each transaction field to a source header;
+-- headers records the file's header row so a later file with the same layout picks the profile.
+CREATE TABLE public.import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their import profiles"
+  ON public.import_profiles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their import profiles"
+  ON public.import_profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their import profiles"
+  ON public.import_profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their import profiles"
+  ON public.import_profiles FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_profiles_updated_at
+  BEFORE UPDATE ON public.import_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
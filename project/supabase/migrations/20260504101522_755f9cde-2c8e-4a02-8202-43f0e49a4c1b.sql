@@ -0,0 +1,54 @@
+-- Multi-sheet workbook import: rows keep the name of the worksheet they came from, and the
+-- idempotency key becomes (session, sheet, row) since each sheet numbers its rows from 1.
+-- CSV imports have no sheet name.
+ALTER TABLE public.transactions
+  ADD COLUMN source_sheet TEXT;
+
+DROP INDEX IF EXISTS public.transactions_session_source_row_key;
+
+CREATE UNIQUE INDEX transactions_session_source_row_key
+  ON public.transactions (session_id, source_sheet, source_row) NULLS NOT DISTINCT;
+
+CREATE OR REPLACE FUNCTION public.append_session_rows(_session_id UUID, _rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _uploaded INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND user_id = auth.uid() AND status = 'processing' AND stage = 'uploading'
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not accepting rows';
+  END IF;
+
+  INSERT INTO public.transactions (
+    session_id, source_sheet, source_row, transaction_id, transaction_date, amount, vendor_name,
+    vendor_country, payment_method, department, description
+  )
+  SELECT _session_id, r.source_sheet, r.source_row, r.transaction_id, r.transaction_date, r.amount, r.vendor_name,
+         r.vendor_country, r.payment_method, r.department, r.description
+  FROM jsonb_to_recordset(_rows) AS r(
+    source_sheet TEXT,
+    source_row INTEGER,
+    transaction_id TEXT,
+    transaction_date DATE,
+    amount NUMERIC,
+    vendor_name TEXT,
+    vendor_country TEXT,
+    payment_method TEXT,
+    department TEXT,
+    description TEXT
+  )
+  ON CONFLICT (session_id, source_sheet, source_row) DO NOTHING;
+
+  SELECT count(*) INTO _uploaded FROM public.transactions WHERE session_id = _session_id;
+
+  UPDATE public.analysis_sessions SET uploaded_rows = _uploaded WHERE id = _session_id;
+
+  RETURN _uploaded;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Original uploaded files are kept as audit evidence in a private bucket. Objects live under
+-- <user id>/<sha256>/<file name>, so re-uploading an identical file points at the same object.
+-- There is no update or delete policy: once archived, a source file cannot be replaced.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('source-files', 'source-files', false, 104857600)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can archive their own source files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'source-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read their own source files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'source-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can read all source files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'source-files' AND public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN source_file_path TEXT,
+  ADD COLUMN source_file_sha256 TEXT,
+  ADD COLUMN source_file_size BIGINT;
+
+-- Duplicate upload check on the upload screen
+CREATE INDEX analysis_sessions_user_source_file_sha256_idx
+  ON public.analysis_sessions (user_id, source_file_sha256);
@@ -0,0 +1,47 @@
+-- AI provider used for audit explanations and reports, chosen per organisation (profiles.organization).
+-- The row with a NULL organisation applies to users without one and to organisations with no row.
+-- API keys are never stored here: api_key_secret names an edge-function secret, limited to AI_* names
+-- so a provider can never be pointed at other secrets such as the service role key.
+CREATE TABLE public.ai_provider_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization TEXT,
+  provider TEXT NOT NULL DEFAULT 'gateway'
+    CHECK (provider IN ('gateway', 'openai_compatible', 'local', 'template')),
+  base_url TEXT,
+  model TEXT,
+  api_key_secret TEXT CHECK (api_key_secret ~ '^AI_[A-Z0-9_]+$'),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX ai_provider_settings_organization_key
+  ON public.ai_provider_settings (organization) NULLS NOT DISTINCT;
+
+ALTER TABLE public.ai_provider_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view AI provider settings"
+  ON public.ai_provider_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can add AI provider settings"
+  ON public.ai_provider_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = updated_by);
+
+CREATE POLICY "Admins can update AI provider settings"
+  ON public.ai_provider_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (auth.uid() = updated_by);
+
+CREATE POLICY "Admins can delete AI provider settings"
+  ON public.ai_provider_settings FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admin-only switch that keeps data inside the system: when off, the hosted gateway and
+-- OpenAI-compatible providers fall back to templates for every organisation. Organisations are
+-- free text on the user's profile, so this is not left to the per-organisation rows.
+ALTER TABLE public.risk_engine_settings
+  ADD COLUMN external_ai_allowed BOOLEAN NOT NULL DEFAULT true;
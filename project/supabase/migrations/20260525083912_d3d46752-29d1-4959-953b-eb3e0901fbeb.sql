@@ -0,0 +1,5 @@
+-- Transaction fields withheld from the AI model for an organisation, on top of the redaction that
+-- always applies (vendor pseudonyms, account numbers, emails, phone numbers, PAN and GSTIN)
+ALTER TABLE public.ai_provider_settings
+  ADD COLUMN masked_fields TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (masked_fields <@ ARRAY['transaction_id', 'vendor_country', 'payment_method', 'department', 'description']::TEXT[]);
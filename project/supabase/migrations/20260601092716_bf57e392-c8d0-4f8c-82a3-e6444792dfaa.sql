@@ -0,0 +1,139 @@
+-- Record how each explanation was written: by the model on the first prompt, on a retry for rows
+-- the model skipped or answered invalidly, or by the template fallback.
+-- Explanations stored before this change have no recorded source.
+ALTER TABLE public.risk_assessments
+  ADD COLUMN explanation_source TEXT CHECK (explanation_source IN ('ai', 'ai_retry', 'template'));
+
+-- Save explanations for one batch of flagged rows and advance the session's explanation cursor
+CREATE OR REPLACE FUNCTION public.store_assessment_explanations(
+  _session_id UUID,
+  _explanations JSONB,
+  _explained_rows INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND (user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  UPDATE public.risk_assessments ra
+  SET audit_observation = e.audit_observation,
+      suggested_action = e.suggested_action,
+      explanation_source = e.explanation_source
+  FROM jsonb_to_recordset(_explanations) AS e(
+    transaction_id UUID,
+    audit_observation TEXT,
+    suggested_action TEXT,
+    explanation_source TEXT
+  ),
+  public.transactions t
+  WHERE ra.transaction_id = e.transaction_id
+    AND t.id = ra.transaction_id
+    AND t.session_id = _session_id;
+
+  UPDATE public.analysis_sessions SET explained_rows = _explained_rows WHERE id = _session_id;
+END;
+$$;
+
+-- Same as before, except that the explanation source is cleared along with the explanation
+-- when a row changes level
+CREATE OR REPLACE FUNCTION public.apply_session_rescore(_session_id UUID, _assessments JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _changed INTEGER;
+  _delta RECORD;
+  _counts RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions WHERE id = _session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  -- Locking the session row keeps concurrent re-analyses from counting the same level change twice
+  PERFORM 1 FROM public.analysis_sessions WHERE id = _session_id AND status = 'completed' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only completed sessions can be re-analyzed';
+  END IF;
+
+  CREATE TEMP TABLE _rescored ON COMMIT DROP AS
+  SELECT a.*
+  FROM jsonb_to_recordset(_assessments) AS a(
+    transaction_id UUID,
+    risk_score INTEGER,
+    risk_level risk_level,
+    risk_factors JSONB,
+    risk_reason TEXT,
+    rule_versions JSONB,
+    scoring_mode TEXT
+  )
+  JOIN public.transactions t ON t.id = a.transaction_id AND t.session_id = _session_id;
+
+  INSERT INTO public.risk_assessment_history (
+    transaction_id, previous_level, new_level, previous_score, new_score,
+    previous_factors, rule_versions, scoring_mode, changed_by
+  )
+  SELECT ra.transaction_id, ra.risk_level, r.risk_level, ra.risk_score, r.risk_score,
+         ra.risk_factors, r.rule_versions, r.scoring_mode, auth.uid()
+  FROM _rescored r
+  JOIN public.risk_assessments ra ON ra.transaction_id = r.transaction_id
+  WHERE ra.risk_level IS DISTINCT FROM r.risk_level;
+
+  GET DIAGNOSTICS _changed = ROW_COUNT;
+
+  SELECT
+    count(*) FILTER (WHERE r.risk_level = 'high') - count(*) FILTER (WHERE ra.risk_level = 'high') AS high,
+    count(*) FILTER (WHERE r.risk_level = 'medium') - count(*) FILTER (WHERE ra.risk_level = 'medium') AS medium,
+    count(*) FILTER (WHERE r.risk_level = 'low') - count(*) FILTER (WHERE ra.risk_level = 'low') AS low
+  INTO _delta
+  FROM _rescored r
+  LEFT JOIN public.risk_assessments ra ON ra.transaction_id = r.transaction_id;
+
+  INSERT INTO public.risk_assessments (
+    transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  )
+  SELECT transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  FROM _rescored
+  ON CONFLICT (transaction_id) DO UPDATE SET
+    risk_score = EXCLUDED.risk_score,
+    risk_level = EXCLUDED.risk_level,
+    risk_factors = EXCLUDED.risk_factors,
+    risk_reason = EXCLUDED.risk_reason,
+    rule_versions = EXCLUDED.rule_versions,
+    scoring_mode = EXCLUDED.scoring_mode,
+    audit_observation = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.audit_observation END,
+    suggested_action = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.suggested_action END,
+    explanation_source = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.explanation_source END;
+
+  UPDATE public.analysis_sessions
+  SET high_risk_count = COALESCE(high_risk_count, 0) + _delta.high,
+      medium_risk_count = COALESCE(medium_risk_count, 0) + _delta.medium,
+      low_risk_count = COALESCE(low_risk_count, 0) + _delta.low,
+      reanalyzed_at = now()
+  WHERE id = _session_id
+  RETURNING high_risk_count AS high, medium_risk_count AS medium, low_risk_count AS low
+  INTO _counts;
+
+  RETURN jsonb_build_object(
+    'rescored', (SELECT count(*) FROM _rescored),
+    'level_changes', _changed,
+    'high', _counts.high,
+    'medium', _counts.medium,
+    'low', _counts.low
+  );
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Whether a saved report was written by the AI model or by the deterministic templates (used when
+-- no model is configured or the model was unavailable). Reports saved before this have no source.
+ALTER TABLE public.audit_reports
+  ADD COLUMN report_source TEXT CHECK (report_source IN ('ai', 'template'));
+
+-- Re-analysis re-explains the flagged rows whose risk level changed. Those writes leave the ingest
+-- progress counter alone, so _explained_rows is only passed by the ingest explanation step.
+DROP FUNCTION IF EXISTS public.store_assessment_explanations(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.store_assessment_explanations(
+  _session_id UUID,
+  _explanations JSONB,
+  _explained_rows INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND (user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  UPDATE public.risk_assessments ra
+  SET audit_observation = e.audit_observation,
+      suggested_action = e.suggested_action,
+      explanation_source = e.explanation_source
+  FROM jsonb_to_recordset(_explanations) AS e(
+    transaction_id UUID,
+    audit_observation TEXT,
+    suggested_action TEXT,
+    explanation_source TEXT
+  ),
+  public.transactions t
+  WHERE ra.transaction_id = e.transaction_id
+    AND t.id = ra.transaction_id
+    AND t.session_id = _session_id;
+
+  IF _explained_rows IS NOT NULL THEN
+    UPDATE public.analysis_sessions SET explained_rows = _explained_rows WHERE id = _session_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,293 @@
+-- Versioned prompts for AI-written explanations and reports. Versions are never edited: a change
+-- to a prompt is added as a new version (by migration), and the edge functions use the latest one.
+-- user_prompt holds {{name}} placeholders filled in by the edge function.
+CREATE TABLE public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_key TEXT NOT NULL CHECK (prompt_key IN ('audit_explanations', 'audit_report')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  system_prompt TEXT NOT NULL,
+  user_prompt TEXT NOT NULL,
+  temperature NUMERIC(3, 2) NOT NULL CHECK (temperature >= 0 AND temperature <= 2),
+  change_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (prompt_key, version)
+);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view prompt templates"
+  ON public.prompt_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Version 1: the prompts as previously written inline in the edge functions
+INSERT INTO public.prompt_templates (prompt_key, version, system_prompt, user_prompt, temperature, change_note)
+VALUES
+  ('audit_explanations', 1, $prompt$You are an expert internal auditor functioning as a professional audit assistant.
+
+CORE PRINCIPLES:
+- Act with professional skepticism but avoid speculation
+- Every statement must be evidence-based and justifiable
+- When data is limited, clearly state the limitation rather than guessing
+- Use precise, professional audit terminology
+- Ensure all findings are explainable to both technical and non-technical stakeholders
+
+Always respond with valid JSON only, no markdown formatting.$prompt$, $prompt$You are a senior internal auditor at a Big 4 accounting firm acting as a professional audit assistant.
+
+CRITICAL BEHAVIOR RULES:
+1. NEVER use speculative language (avoid "might", "could", "possibly", "perhaps")
+2. ALWAYS justify every conclusion with specific evidence from the data
+3. If data is insufficient for a definitive conclusion, explicitly state: "Insufficient data to determine [X]. Additional documentation required."
+4. Prioritize EXPLAINABILITY - every finding must be traceable to specific data points
+5. Use professional, factual language suitable for formal audit documentation
+6. Be precise with numbers and percentages
+7. Focus on WHAT was observed, WHY it matters, and WHAT action is needed
+
+For each transaction, provide:
+1. "audit_observation" - A factual 1-2 sentence finding based ONLY on available evidence
+2. "risk_reason" - Specific, evidence-based explanation citing the exact risk factors detected
+3. "suggested_action" - Concrete, actionable next step (e.g., "Request supporting invoice documentation from vendor")
+
+Transactions to analyze:
+{{transactions}}
+
+Respond with a JSON array containing exactly one object per transaction above, using its "transaction_id" unchanged and no other fields:
+[
+  {
+    "transaction_id": "uuid",
+    "audit_observation": "string",
+    "risk_reason": "string",
+    "suggested_action": "string"
+  }
+]$prompt$, 0.3,
+   'Initial version'),
+  ('audit_report', 1, $prompt$You are an expert internal auditor functioning as a professional audit assistant.
+
+CORE PRINCIPLES:
+- Act as a trusted advisor providing factual, evidence-based insights
+- Never speculate - every statement must be traceable to specific data
+- Acknowledge data limitations explicitly rather than overstating conclusions
+- Use professional audit terminology appropriate for executive audiences
+- Ensure findings are SCALABLE and suitable for enterprise audit programs
+- Prioritize clarity and explainability over complexity
+
+Always respond with valid JSON only, no markdown formatting.$prompt$, $prompt$You are a senior internal auditor at a Big 4 consulting firm acting as a professional audit assistant.
+
+CRITICAL BEHAVIOR RULES:
+1. ALL statistics below are EXACT COUNTS derived from the final classified transaction table - DO NOT infer, estimate, or round these numbers
+2. Use ONLY the exact figures provided - never approximate or use phrases like "approximately", "around", "nearly"
+3. NEVER use speculative language - avoid words like "might", "could", "possibly", "may indicate"
+4. Every numerical statement must match the exact counts provided below
+5. Reference SPECIFIC RISK RULES that triggered findings:
+{{rules}}
+6. Focus on CONTROL WEAKNESSES implied by the findings (e.g., payment authorization, vendor monitoring)
+7. Treat the Benford's Law test as supporting evidence only - cite it when conformity is marginal or nonconformity, never as proof of fraud on its own
+
+EXAMPLE EXECUTIVE SUMMARY STYLE:
+"The analysis of {{total_transactions}} transactions identified {{high_risk_count}} high-risk and {{medium_risk_count}} medium-risk transactions. High-risk flags were triggered by [specific Rule 1/2 conditions]. Medium-risk flags were triggered by [specific Rule 2/3/4 conditions]. These findings indicate potential control weaknesses in payment authorization and vendor monitoring processes."
+
+DATA LIMITATIONS:
+- Analysis is based on exactly {{total_transactions}} transactions from file: {{file_name}}
+- Risk levels are assigned using predefined audit rules, not historical baselines
+{{scoring_note}}
+- Further investigation may be required to confirm initial findings
+
+FILE ANALYZED: {{file_name}}
+ANALYSIS DATE: {{analysis_date}}
+
+===== EXACT STATISTICS FROM CLASSIFIED TABLE (DO NOT MODIFY) =====
+Total Transactions: {{total_transactions}}
+High Risk Count: {{high_risk_count}} ({{high_risk_pct}}%)
+Medium Risk Count: {{medium_risk_count}} ({{medium_risk_pct}}%)
+Low Risk Count: {{low_risk_count}} ({{low_risk_pct}}%)
+
+RISK FACTORS (exact counts from rule triggers):
+{{risk_factors}}
+
+VENDOR ANALYSIS (exact from transaction table):
+{{vendors}}
+
+DEPARTMENT BREAKDOWN (exact from transaction table):
+{{departments}}
+
+BENFORD'S LAW FIRST-DIGIT TEST (exact, amounts >= 10):
+Sample size: {{benford_sample_size}}
+Chi-square: {{benford_chi_square}} (critical value at 5%: {{benford_chi_square_critical}})
+Mean absolute deviation: {{benford_mad}} - {{benford_conformity}}
+Digits deviating significantly (z > 1.96): {{benford_significant_digits}}
+================================================================
+
+Generate a professional audit report with these EXACT sections:
+1. "executive_summary" - 2-3 paragraphs using ONLY the exact statistics above. State which specific rules triggered the high/medium risk flags. Mention control weaknesses.
+2. "risk_posture" - "Satisfactory", "Needs Improvement", or "Unsatisfactory" WITH justification citing specific rule violations and exact counts
+3. "key_risk_themes" - Array of 3-5 themes based on the SPECIFIC RULES that triggered ({{rule_keys}})
+4. "areas_of_attention" - Array of 3-5 items with "area", "priority" (High/Medium/Low), and actionable "recommendation" addressing control gaps
+
+Respond with valid JSON only:
+{
+  "executive_summary": "string",
+  "risk_posture": "string",
+  "key_risk_themes": [{"title": "string", "description": "string"}],
+  "areas_of_attention": [{"area": "string", "priority": "High|Medium|Low", "recommendation": "string"}]
+}$prompt$, 0.4,
+   'Initial version');
+
+-- What produced each explanation and report: the prompt version (NULL for template-generated text),
+-- the model id ('template' for the templates) and a SHA-256 of the inputs it was written from
+ALTER TABLE public.risk_assessments
+  ADD COLUMN explanation_prompt_id UUID REFERENCES public.prompt_templates(id),
+  ADD COLUMN explanation_model_id TEXT,
+  ADD COLUMN explanation_input_hash TEXT;
+
+ALTER TABLE public.audit_reports
+  ADD COLUMN prompt_template_id UUID REFERENCES public.prompt_templates(id),
+  ADD COLUMN model_id TEXT,
+  ADD COLUMN input_hash TEXT;
+
+-- Save explanations for one batch of flagged rows and, for the ingest explanation step, advance the
+-- session's explanation cursor
+CREATE OR REPLACE FUNCTION public.store_assessment_explanations(
+  _session_id UUID,
+  _explanations JSONB,
+  _explained_rows INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions
+    WHERE id = _session_id AND (user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  UPDATE public.risk_assessments ra
+  SET audit_observation = e.audit_observation,
+      suggested_action = e.suggested_action,
+      explanation_source = e.explanation_source,
+      explanation_prompt_id = e.explanation_prompt_id,
+      explanation_model_id = e.explanation_model_id,
+      explanation_input_hash = e.explanation_input_hash
+  FROM jsonb_to_recordset(_explanations) AS e(
+    transaction_id UUID,
+    audit_observation TEXT,
+    suggested_action TEXT,
+    explanation_source TEXT,
+    explanation_prompt_id UUID,
+    explanation_model_id TEXT,
+    explanation_input_hash TEXT
+  ),
+  public.transactions t
+  WHERE ra.transaction_id = e.transaction_id
+    AND t.id = ra.transaction_id
+    AND t.session_id = _session_id;
+
+  IF _explained_rows IS NOT NULL THEN
+    UPDATE public.analysis_sessions SET explained_rows = _explained_rows WHERE id = _session_id;
+  END IF;
+END;
+$$;
+
+-- Same as before, except that the provenance is cleared with the explanation when a row changes level
+CREATE OR REPLACE FUNCTION public.apply_session_rescore(_session_id UUID, _assessments JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _changed INTEGER;
+  _delta RECORD;
+  _counts RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.analysis_sessions WHERE id = _session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Session not found or access denied';
+  END IF;
+
+  -- Locking the session row keeps concurrent re-analyses from counting the same level change twice
+  PERFORM 1 FROM public.analysis_sessions WHERE id = _session_id AND status = 'completed' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only completed sessions can be re-analyzed';
+  END IF;
+
+  CREATE TEMP TABLE _rescored ON COMMIT DROP AS
+  SELECT a.*
+  FROM jsonb_to_recordset(_assessments) AS a(
+    transaction_id UUID,
+    risk_score INTEGER,
+    risk_level risk_level,
+    risk_factors JSONB,
+    risk_reason TEXT,
+    rule_versions JSONB,
+    scoring_mode TEXT
+  )
+  JOIN public.transactions t ON t.id = a.transaction_id AND t.session_id = _session_id;
+
+  INSERT INTO public.risk_assessment_history (
+    transaction_id, previous_level, new_level, previous_score, new_score,
+    previous_factors, rule_versions, scoring_mode, changed_by
+  )
+  SELECT ra.transaction_id, ra.risk_level, r.risk_level, ra.risk_score, r.risk_score,
+         ra.risk_factors, r.rule_versions, r.scoring_mode, auth.uid()
+  FROM _rescored r
+  JOIN public.risk_assessments ra ON ra.transaction_id = r.transaction_id
+  WHERE ra.risk_level IS DISTINCT FROM r.risk_level;
+
+  GET DIAGNOSTICS _changed = ROW_COUNT;
+
+  SELECT
+    count(*) FILTER (WHERE r.risk_level = 'high') - count(*) FILTER (WHERE ra.risk_level = 'high') AS high,
+    count(*) FILTER (WHERE r.risk_level = 'medium') - count(*) FILTER (WHERE ra.risk_level = 'medium') AS medium,
+    count(*) FILTER (WHERE r.risk_level = 'low') - count(*) FILTER (WHERE ra.risk_level = 'low') AS low
+  INTO _delta
+  FROM _rescored r
+  LEFT JOIN public.risk_assessments ra ON ra.transaction_id = r.transaction_id;
+
+  INSERT INTO public.risk_assessments (
+    transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  )
+  SELECT transaction_id, risk_score, risk_level, risk_factors, risk_reason, rule_versions, scoring_mode
+  FROM _rescored
+  ON CONFLICT (transaction_id) DO UPDATE SET
+    risk_score = EXCLUDED.risk_score,
+    risk_level = EXCLUDED.risk_level,
+    risk_factors = EXCLUDED.risk_factors,
+    risk_reason = EXCLUDED.risk_reason,
+    rule_versions = EXCLUDED.rule_versions,
+    scoring_mode = EXCLUDED.scoring_mode,
+    audit_observation = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.audit_observation END,
+    suggested_action = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.suggested_action END,
+    explanation_source = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.explanation_source END,
+    explanation_prompt_id = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.explanation_prompt_id END,
+    explanation_model_id = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.explanation_model_id END,
+    explanation_input_hash = CASE WHEN risk_assessments.risk_level = EXCLUDED.risk_level
+      THEN risk_assessments.explanation_input_hash END;
+
+  UPDATE public.analysis_sessions
+  SET high_risk_count = COALESCE(high_risk_count, 0) + _delta.high,
+      medium_risk_count = COALESCE(medium_risk_count, 0) + _delta.medium,
+      low_risk_count = COALESCE(low_risk_count, 0) + _delta.low,
+      reanalyzed_at = now()
+  WHERE id = _session_id
+  RETURNING high_risk_count AS high, medium_risk_count AS medium, low_risk_count AS low
+  INTO _counts;
+
+  RETURN jsonb_build_object(
+    'rescored', (SELECT count(*) FROM _rescored),
+    'level_changes', _changed,
+    'high', _counts.high,
+    'medium', _counts.medium,
+    'low', _counts.low
+  );
+END;
+$$;